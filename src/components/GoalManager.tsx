@@ -1,31 +1,71 @@
 'use client';
 import { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db, softDeleteConstraint } from '../db/db';
+import { db, addConstraintException, softDeleteConstraint, Constraint } from '../db/db';
+import type { TimeWindow } from '../types/models';
 import TaskActionMenu from './TaskActionMenu';
+import { completedMinutesByGoal, getGoalProgress } from '../lib/goalProgress';
+import { WEEK_DAYS } from '../scheduler/weeklyScheduler';
+import { parseDeadline, parseTimeOfDay, toISODate } from '../scheduler/calendar';
+import { getWeeklyPlannerPolicy } from '../tuner/settingsStore';
+import { checkFeasibility, feasibilityIssue } from '../guardian/feasibility';
+import type { GuardianIssue } from '../guardian/types';
+import { logEvent } from '../observer/logging';
+import { EVENT_TYPES } from '../observer/events';
+
+// Boş = pencere yok (undefined), eksik/ters saat = geçersiz (null)
+function timeWindow(startTime: string, endTime: string): TimeWindow | undefined | null {
+  if (!startTime && !endTime) return undefined;
+  const start = parseTimeOfDay(startTime);
+  const end = parseTimeOfDay(endTime);
+  if (start === undefined || end === undefined || end <= start) return null;
+  return { startTime, endTime };
+}
 
 export default function GoalManager() {
   const [title, setTitle] = useState('');
   const [hours, setHours] = useState('');
   const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium');
+  const [deadline, setDeadline] = useState(''); // YYYY-MM-DD, opsiyonel
+  // Blok ayarları (dk), opsiyonel; boşsa policy varsayılanları geçerli
+  const [minBlock, setMinBlock] = useState('');
+  const [preferredBlock, setPreferredBlock] = useState('');
+  const [maxPerDay, setMaxPerDay] = useState('');
+  // Zaman tercihleri: tercih edilen / yasak pencere (HH:mm) ve gün tercihleri
+  const [prefStart, setPrefStart] = useState('');
+  const [prefEnd, setPrefEnd] = useState('');
+  const [banStart, setBanStart] = useState('');
+  const [banEnd, setBanEnd] = useState('');
+  const [goalDays, setGoalDays] = useState<Record<string, 'preferred' | 'avoided'>>({});
+  const [goalDeps, setGoalDeps] = useState<number[]>([]); // önce bitmesi gereken hedefler
+  const [infeasible, setInfeasible] = useState<GuardianIssue | null>(null); // son eklenen hedef sığmıyorsa
 
   const [consTitle, setConsTitle] = useState('');
+  const [consType, setConsType] = useState<'busy' | 'day_off'>('busy');
+  const [consDate, setConsDate] = useState(''); // YYYY-MM-DD, tek seferlik izin günü
   const [consHours, setConsHours] = useState('');
-  // consDay state'ini kaldırdık çünkü formdan sildik.
+  // Gün seçilmezse ('Genel') saatli kısıtlar her gün, saatsizler haftaya dağıtılır
+  const [consDays, setConsDays] = useState<string[]>([]);
+  const [consStart, setConsStart] = useState(''); // HH:mm, opsiyonel
+  const [consEnd, setConsEnd] = useState(''); // HH:mm, opsiyonel
+  const [consInterval, setConsInterval] = useState('1'); // her N haftada bir
+  const [consUntil, setConsUntil] = useState(''); // YYYY-MM-DD, opsiyonel
+  const [consException, setConsException] = useState(''); // YYYY-MM-DD girişi
+  const [consExceptions, setConsExceptions] = useState<string[]>([]);
 
   // SORGULAR
   const goalsWithProgress = useLiveQuery(async () => {
     const goals = await db.goals.filter(g => !g.isDeleted).toArray();
-    const sessions = await db.sessions.toArray();
+    const completed = completedMinutesByGoal(await db.sessions.toArray());
 
     return goals.map(g => {
-      const totalMinutes = sessions
-        .filter((s: any) => s.goalId === g.id && s.status === 'completed')
-        .reduce((acc: number, s: any) => acc + s.duration, 0);
+      const progress = getGoalProgress(g, completed);
 
       return {
         ...g,
-        completedHours: (totalMinutes / 60).toFixed(1)
+        completedHours: (progress.completedMinutes / 60).toFixed(1),
+        remainingHours: (progress.remainingMinutes / 60).toFixed(1),
+        progressPercent: Math.round(progress.ratio * 100)
       };
     });
   });
@@ -35,29 +75,136 @@ export default function GoalManager() {
   // --- ACTIONS ---
   const addGoal = async () => {
     if (!title || !hours) return alert('Lütfen ders adı ve saat giriniz.');
-    await db.goals.add({
+    const optionalMinutes = (value: string) => (Number(value) > 0 ? Number(value) : undefined);
+    const minBlockMinutes = optionalMinutes(minBlock);
+    const preferredBlockMinutes = optionalMinutes(preferredBlock);
+    const maxMinutesPerDay = optionalMinutes(maxPerDay);
+    if (minBlockMinutes && preferredBlockMinutes && preferredBlockMinutes < minBlockMinutes) {
+      return alert('Tercih edilen blok süresi en kısa bloktan küçük olamaz.');
+    }
+    if (minBlockMinutes && maxMinutesPerDay && maxMinutesPerDay < minBlockMinutes) {
+      return alert('Günlük üst sınır en kısa bloktan küçük olamaz.');
+    }
+    const preferredWindow = timeWindow(prefStart, prefEnd);
+    const forbiddenWindow = timeWindow(banStart, banEnd);
+    if (preferredWindow === null || forbiddenWindow === null) {
+      return alert('Zaman penceresi için başlangıç ve bitiş saatini giriniz (bitiş başlangıçtan sonra olmalı).');
+    }
+    const daysWith = (pref: 'preferred' | 'avoided') => {
+      const days = WEEK_DAYS.filter(d => goalDays[d] === pref);
+      return days.length > 0 ? days : undefined;
+    };
+    const goalId = await db.goals.add({
       title,
       targetHours: Number(hours),
       priority,
-      deadline: new Date(),
+      // Takvim girdisi yerel gün başlangıcı olarak saklanır (scheduler gün bazlı çalışır)
+      deadline: deadline ? parseDeadline(deadline) : undefined,
+      minBlockMinutes,
+      preferredBlockMinutes,
+      maxMinutesPerDay,
+      preferredWindows: preferredWindow ? [preferredWindow] : undefined,
+      forbiddenWindows: forbiddenWindow ? [forbiddenWindow] : undefined,
+      preferredDays: daysWith('preferred'),
+      avoidedDays: daysWith('avoided'),
+      dependsOn: goalDeps.length > 0 ? goalDeps : undefined,
       status: 'active'
     });
-    setTitle(''); setHours('');
+    setTitle(''); setHours(''); setDeadline('');
+    setMinBlock(''); setPreferredBlock(''); setMaxPerDay('');
+    setPrefStart(''); setPrefEnd(''); setBanStart(''); setBanEnd(''); setGoalDays({}); setGoalDeps([]);
+
+    // Guardian: yeni hedef son tarihine kadar sığıyor mu?
+    const [goals, activeConstraints, sessions, policy] = await Promise.all([
+      db.goals.filter(g => !g.isDeleted).toArray(),
+      db.constraints.filter(c => !c.isDeleted).toArray(),
+      db.sessions.toArray(),
+      getWeeklyPlannerPolicy(),
+    ]);
+    const report = checkFeasibility(goals, activeConstraints, policy, sessions).find(r => r.goalId === goalId);
+    const issue = report ? feasibilityIssue(report) : null;
+    setInfeasible(issue);
+    if (issue) {
+      logEvent(EVENT_TYPES.GUARDIAN_WARNING, { issueCount: 1, issues: [issue], trigger: 'GOAL_CREATED' }, 'GoalManager');
+    }
   };
 
   const addConstraint = async () => {
-    if (!consTitle || !consHours) return alert('Lütfen kısıt adı ve süre giriniz.');
+    const start = parseTimeOfDay(consStart);
+    const end = parseTimeOfDay(consEnd);
+    const dayOff = consType === 'day_off';
+    const timed = !dayOff && (start !== undefined || end !== undefined);
+
+    if (!consTitle) return alert('Lütfen kısıt adı giriniz.');
+    if (dayOff && !consDate && consDays.length === 0) return alert('İzin günü için tarih veya gün seçiniz.');
+    if (timed && (start === undefined || end === undefined || end <= start)) {
+      return alert('Başlangıç saati bitiş saatinden önce olmalı.');
+    }
+    if (!dayOff && !timed && !consHours) return alert('Lütfen süre veya başlangıç/bitiş saati giriniz.');
+
+    const interval = Math.max(1, Math.round(Number(consInterval) || 1));
+    // Tek seferlik izin günü: sadece o tarihte geçerli haftalık kural
+    const onceDay = dayOff && consDate
+      ? WEEK_DAYS[(new Date(`${consDate}T00:00:00`).getDay() + 6) % 7]
+      : undefined;
+
     if (db.constraints) {
       await db.constraints.add({
         title: consTitle,
-        type: 'busy',
-        duration: Number(consHours),
-        day: 'Genel' // Varsayılan değer, çünkü seçim kaldırıldı
+        type: consType,
+        // Saatli kısıtlarda süre, saat aralığından hesaplanır (her tekrar için); izin günü tüm günü kapatır
+        duration: dayOff ? 0 : timed ? (end! - start!) / 60 : Number(consHours),
+        day: onceDay ?? consDays[0] ?? 'Genel',
+        startTime: timed ? consStart : undefined,
+        endTime: timed ? consEnd : undefined,
+        // Seçilen günler haftalık tekrar kuralına dönüşür; aralık bu haftadan sayılır
+        recurrence: onceDay
+          ? { freq: 'weekly', byDay: [onceDay], startDate: consDate, until: consDate }
+          : consDays.length > 0
+            ? {
+              freq: 'weekly',
+              interval,
+              byDay: WEEK_DAYS.filter(d => consDays.includes(d)),
+              startDate: toISODate(new Date()),
+              until: consUntil || undefined
+            }
+            : undefined,
+        exceptions: consExceptions.length > 0 ? consExceptions : undefined
       });
-      setConsTitle(''); setConsHours('');
+      setConsTitle(''); setConsHours(''); setConsDays([]); setConsStart(''); setConsEnd('');
+      setConsInterval('1'); setConsUntil(''); setConsException(''); setConsExceptions([]);
+      setConsType('busy'); setConsDate('');
     }
   };
 
+  // Gün tercihi döngüsü: nötr → tercih → kaçın → nötr
+  const cycleGoalDay = (day: string) =>
+    setGoalDays(days => {
+      const next = { ...days };
+      if (!days[day]) next[day] = 'preferred';
+      else if (days[day] === 'preferred') next[day] = 'avoided';
+      else delete next[day];
+      return next;
+    });
+
+  const toggleConsDay = (day: string) =>
+    setConsDays(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day]);
+
+  const describeConstraint = (c: Constraint) => {
+    const days = c.recurrence?.byDay?.length
+      ? c.recurrence.byDay.join(', ')
+      : c.day !== 'Genel' ? c.day : c.startTime ? 'Her gün' : '';
+    const every = (c.recurrence?.interval ?? 1) > 1 ? `${c.recurrence!.interval} haftada bir · ` : '';
+    const time = c.type === 'day_off'
+      ? 'İzin günü (tüm gün)'
+      : c.startTime && c.endTime ? `${c.startTime}–${c.endTime}` : `${c.duration} Saat Blokeli`;
+    if (c.type === 'day_off' && c.recurrence?.startDate && c.recurrence.startDate === c.recurrence.until) {
+      return `${new Date(`${c.recurrence.startDate}T00:00:00`).toLocaleDateString('tr-TR')} · ${time}`;
+    }
+    const until = c.recurrence?.until ? ` · ${new Date(`${c.recurrence.until}T00:00:00`).toLocaleDateString('tr-TR')} tarihine kadar` : '';
+    return `${every}${days ? `${days} · ` : ''}${time}${until}`;
+  };
+
   return (
     <div className="w-full max-w-6xl mx-auto p-4 space-y-10">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -82,6 +229,61 @@ export default function GoalManager() {
               </select>
               <button onClick={addGoal} className="w-1/3 bg-blue-600 text-white rounded hover:bg-blue-700">+ Ekle</button>
             </div>
+            {infeasible && (
+              <div className="mt-3 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+                <div className="flex justify-between gap-2">
+                  <span className="font-semibold">🛡️ {infeasible.message}</span>
+                  <button type="button" onClick={() => setInfeasible(null)} className="text-xs text-red-600 hover:underline">Kapat</button>
+                </div>
+                <ul className="mt-1 list-disc list-inside text-xs text-red-700">
+                  {infeasible.policySuggestions?.map(s => <li key={s.description}>{s.description}</li>)}
+                </ul>
+              </div>
+            )}
+            <label className="flex items-center gap-3 mt-3 text-sm text-gray-600">
+              Son Tarih
+              <input className="border border-gray-300 p-2 rounded flex-1 text-gray-900" type="date" value={deadline} onChange={e => setDeadline(e.target.value)} />
+            </label>
+            <div className="flex gap-3 mt-3">
+              <input className="border border-gray-300 p-2 rounded w-1/3 text-gray-900 text-sm" type="number" min={0} step={15} placeholder="En kısa blok (dk)" value={minBlock} onChange={e => setMinBlock(e.target.value)} />
+              <input className="border border-gray-300 p-2 rounded w-1/3 text-gray-900 text-sm" type="number" min={0} step={15} placeholder="Tercih blok (dk)" value={preferredBlock} onChange={e => setPreferredBlock(e.target.value)} />
+              <input className="border border-gray-300 p-2 rounded w-1/3 text-gray-900 text-sm" type="number" min={0} step={15} placeholder="Günlük max (dk)" value={maxPerDay} onChange={e => setMaxPerDay(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-2 mt-3 text-sm text-gray-600 items-center">
+              <span>Tercih</span>
+              <input className="border border-gray-300 p-2 rounded text-gray-900" type="time" title="Tercih edilen pencere başlangıcı" value={prefStart} onChange={e => setPrefStart(e.target.value)} />
+              <input className="border border-gray-300 p-2 rounded text-gray-900" type="time" title="Tercih edilen pencere bitişi" value={prefEnd} onChange={e => setPrefEnd(e.target.value)} />
+              <span>Yasak</span>
+              <input className="border border-gray-300 p-2 rounded text-gray-900" type="time" title="Yasak pencere başlangıcı" value={banStart} onChange={e => setBanStart(e.target.value)} />
+              <input className="border border-gray-300 p-2 rounded text-gray-900" type="time" title="Yasak pencere bitişi" value={banEnd} onChange={e => setBanEnd(e.target.value)} />
+            </div>
+            {!!goalsWithProgress?.length && (
+              <div className="flex flex-wrap gap-1 mt-3 items-center text-sm text-gray-600">
+                <span className="mr-1">Önce bitmeli:</span>
+                {goalsWithProgress.map(g => (
+                  <button
+                    key={g.id}
+                    type="button"
+                    onClick={() => setGoalDeps(deps => deps.includes(g.id!) ? deps.filter(id => id !== g.id) : [...deps, g.id!])}
+                    className={`text-xs px-2 py-1 rounded border ${goalDeps.includes(g.id!) ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-600 border-gray-300'}`}
+                  >
+                    {g.title}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-1 mt-3" title="Tıkla: tercih → kaçın → nötr">
+              {WEEK_DAYS.map(d => (
+                <button
+                  key={d}
+                  type="button"
+                  onClick={() => cycleGoalDay(d)}
+                  className={`text-xs px-2 py-1 rounded border ${goalDays[d] === 'preferred' ? 'bg-green-600 text-white border-green-600' : goalDays[d] === 'avoided' ? 'bg-red-100 text-red-700 border-red-300 line-through' : 'bg-white text-gray-600 border-gray-300'}`}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
           </div>
 
           <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2 pb-20">
@@ -115,6 +317,36 @@ export default function GoalManager() {
                     </div>
                     <div className="text-sm text-gray-600 mt-1">
                       <span className="font-semibold text-blue-700">{g.completedHours}</span> / {g.targetHours} Saat
+                      <span className="ml-2 text-xs text-gray-500">· Kalan: {g.remainingHours} Saat</span>
+                      {g.deadline && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          · Son tarih: {parseDeadline(g.deadline).toLocaleDateString('tr-TR')}
+                        </span>
+                      )}
+                      {!!(g.minBlockMinutes || g.preferredBlockMinutes || g.maxMinutesPerDay) && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          · Blok: {[
+                            g.minBlockMinutes && `min ${g.minBlockMinutes}`,
+                            g.preferredBlockMinutes && `tercih ${g.preferredBlockMinutes}`,
+                            g.maxMinutesPerDay && `günde ≤${g.maxMinutesPerDay}`,
+                          ].filter(Boolean).join(', ')} dk
+                        </span>
+                      )}
+                      {!!(g.preferredWindows?.length || g.forbiddenWindows?.length || g.preferredDays?.length || g.avoidedDays?.length) && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          · {[
+                            ...(g.preferredWindows ?? []).map(w => `tercih ${w.startTime}-${w.endTime}`),
+                            ...(g.forbiddenWindows ?? []).map(w => `yasak ${w.startTime}-${w.endTime}`),
+                            g.preferredDays?.length && `gün: ${g.preferredDays.join(', ')}`,
+                            g.avoidedDays?.length && `kaçın: ${g.avoidedDays.join(', ')}`,
+                          ].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                      {!!g.dependsOn?.length && (
+                        <span className="ml-2 text-xs text-purple-700">
+                          · Önce: {g.dependsOn.map(id => goalsWithProgress?.find(o => o.id === id)?.title ?? `#${id}`).join(', ')}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -122,7 +354,7 @@ export default function GoalManager() {
                 <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
                   <div
                     className={`h-2 rounded-full transition-all duration-500 ${g.status === 'postponed' ? 'bg-gray-400' : 'bg-blue-600'}`}
-                    style={{ width: `${Math.min(100, (Number(g.completedHours) / g.targetHours) * 100)}%` }}
+                    style={{ width: `${g.progressPercent}%` }}
                   />
                 </div>
               </div>
@@ -134,23 +366,104 @@ export default function GoalManager() {
         <div className="space-y-6">
           <h2 className="text-2xl font-bold text-orange-600">Zaman Kısıtları</h2>
 
-          {/* Form ESKİ HALİNE döndü (Gün seçimi kalktı) */}
           <div className="bg-white p-5 shadow-lg rounded-xl border border-orange-100">
             <input className="border border-gray-300 p-2 rounded w-full mb-3 text-gray-900" placeholder="Örn: Basketbol Antrenmanı" value={consTitle} onChange={e => setConsTitle(e.target.value)} />
             <div className="flex gap-3">
-              <input className="border border-gray-300 p-2 rounded w-2/3 text-gray-900" type="number" placeholder="Süre (Saat)" value={consHours} onChange={e => setConsHours(e.target.value)} />
+              <select className="border border-gray-300 p-2 rounded w-1/3 bg-white text-gray-900" value={consType} onChange={e => setConsType(e.target.value as 'busy' | 'day_off')}>
+                <option value="busy">Meşgul</option>
+                <option value="day_off">İzin Günü</option>
+              </select>
+              {consType === 'day_off' ? (
+                <input className="border border-gray-300 p-2 rounded w-1/3 text-gray-900" type="date" title="Tek seferlik izin günü" value={consDate} onChange={e => setConsDate(e.target.value)} />
+              ) : (
+                <input className="border border-gray-300 p-2 rounded w-1/3 text-gray-900 disabled:bg-gray-100" type="number" placeholder="Süre (Saat)" value={consHours} disabled={!!(consStart || consEnd)} onChange={e => setConsHours(e.target.value)} />
+              )}
               <button onClick={addConstraint} className="w-1/3 bg-orange-600 text-white rounded hover:bg-orange-700">Ekle</button>
             </div>
+            <div className="flex flex-wrap gap-1 mt-3">
+              {WEEK_DAYS.map(d => (
+                <button
+                  key={d}
+                  type="button"
+                  onClick={() => toggleConsDay(d)}
+                  className={`text-xs px-2 py-1 rounded border ${consDays.includes(d) ? 'bg-orange-600 text-white border-orange-600' : 'bg-white text-gray-600 border-gray-300'}`}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+            {consType === 'busy' && (
+              <div className="flex gap-3 mt-3 text-sm text-gray-600">
+                <input className="border border-gray-300 p-2 rounded w-1/2 text-gray-900" type="time" title="Başlangıç" value={consStart} onChange={e => setConsStart(e.target.value)} />
+                <input className="border border-gray-300 p-2 rounded w-1/2 text-gray-900" type="time" title="Bitiş" value={consEnd} onChange={e => setConsEnd(e.target.value)} />
+              </div>
+            )}
+            {consDays.length > 0 && !(consType === 'day_off' && consDate) && (
+              <div className="flex gap-3 mt-3 text-sm text-gray-600 items-center">
+                <label className="flex items-center gap-2 w-1/2">
+                  Her
+                  <input className="border border-gray-300 p-2 rounded w-16 text-gray-900" type="number" min={1} value={consInterval} onChange={e => setConsInterval(e.target.value)} />
+                  haftada
+                </label>
+                <label className="flex items-center gap-2 w-1/2">
+                  Bitiş
+                  <input className="border border-gray-300 p-2 rounded flex-1 text-gray-900" type="date" value={consUntil} onChange={e => setConsUntil(e.target.value)} />
+                </label>
+              </div>
+            )}
+            <div className="flex gap-3 mt-3 text-sm text-gray-600 items-center">
+              <label className="flex items-center gap-2 flex-1">
+                İstisna
+                <input className="border border-gray-300 p-2 rounded flex-1 text-gray-900" type="date" value={consException} onChange={e => setConsException(e.target.value)} />
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  if (consException && !consExceptions.includes(consException)) setConsExceptions([...consExceptions, consException].sort());
+                  setConsException('');
+                }}
+                className="text-xs px-3 py-2 rounded border border-orange-200 text-orange-700 hover:bg-orange-50"
+              >
+                + İstisna
+              </button>
+            </div>
+            {consExceptions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {consExceptions.map(d => (
+                  <span key={d} className="text-[11px] bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+                    {new Date(`${d}T00:00:00`).toLocaleDateString('tr-TR')}
+                    <button type="button" className="ml-1 text-gray-400 hover:text-red-500" onClick={() => setConsExceptions(consExceptions.filter(x => x !== d))}>×</button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <p className="text-[11px] text-gray-400 mt-2">
+              İzin günü tüm günü kapatır (tarih girilirse tek seferlik, gün seçilirse her hafta).
+              Günler seçilirse kısıt o günlerde tekrarlanır (her N haftada bir, bitiş tarihine kadar); istisna tarihlerinde atlanır.
+              Saat girilirse kısıt tam o aralığa yerleşir (gün seçilmediyse her gün). Saatsiz kısıtlar akşamdan geriye doğru yerleştirilir.
+            </p>
           </div>
 
           <div className="space-y-3">
             {constraints?.map(c => (
-              <div key={c.id} className="bg-white p-4 shadow-sm rounded-lg border-l-4 border-orange-500 flex justify-between items-center group">
+              <div key={c.id} className={`bg-white p-4 shadow-sm rounded-lg border-l-4 ${c.type === 'day_off' ? 'border-teal-500' : 'border-orange-500'} flex justify-between items-center group`}>
                 <div>
                   <div className="font-bold text-gray-800 text-lg">{c.title}</div>
                   <div className="text-xs text-orange-700 bg-orange-50 px-2 py-0.5 rounded border border-orange-100 mt-1 inline-block">
-                    {c.duration} Saat Blokeli
+                    {describeConstraint(c)}
                   </div>
+                  {c.exceptions && c.exceptions.length > 0 && (
+                    <div className="text-[11px] text-gray-500 mt-1">
+                      İstisna: {c.exceptions.map(d => new Date(`${d}T00:00:00`).toLocaleDateString('tr-TR')).join(', ')}
+                    </div>
+                  )}
+                  <input
+                    className="mt-1 text-[11px] text-gray-500 border border-gray-200 rounded px-1 opacity-0 group-hover:opacity-100 transition"
+                    type="date"
+                    title="Bu tarihte atla (istisna ekle)"
+                    value=""
+                    onChange={e => e.target.value && addConstraintException(c.id!, e.target.value)}
+                  />
                 </div>
                 <button
                   onClick={() => softDeleteConstraint(c.id!)}
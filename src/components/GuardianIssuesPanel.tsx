@@ -0,0 +1,247 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { logEvent } from "../observer/logging";
+import { EVENT_TYPES } from "../observer/events";
+import { SlotChange, diffPlans } from "../scheduler/planDiff";
+import { formatTimeOfDay } from "../scheduler/calendar";
+import { applyFix, describeFix } from "../guardian/fixes";
+import { GuardianIssue, IssueEvidence, PolicySuggestion } from "../guardian/types";
+import { patchWeeklyPlannerPolicy } from "../tuner/settingsStore";
+import { setIssueState, snoozeIssue } from "../guardian/guardianSettings";
+import { savePlan } from "../lib/planStore";
+import { DayPlan } from "../types/plan";
+
+interface Props {
+  issues: GuardianIssue[];
+  /** Plan of the shown week (the one the issues were computed on) */
+  plan: DayPlan[];
+  weekKey: string;
+}
+
+interface AppliedFix {
+  weekKey: string;
+  before: DayPlan[];
+  issue: GuardianIssue;
+}
+
+const issueKey = (issue: GuardianIssue) => issue.id ?? `${issue.type}|${issue.message}`;
+
+const SNOOZE_MS = 24 * 60 * 60 * 1000;
+
+// Labels of the evidence counts (guardian/adherence.ts)
+const COUNT_LABELS: Record<string, string> = {
+  postpone: "erteleme",
+  cancel: "iptal",
+  overloadReasons: "yük/çakışma nedenli",
+  missedDays: "çalışılmayan gün",
+  plannedDays: "planlı gün",
+  plannedMinutes: "planlanan dk",
+  studiedMinutes: "çalışılan dk",
+  sessions: "oturum",
+  interrupted: "yarıda kalan",
+  previousSessions: "önceki oturum",
+  previousInterrupted: "önceki yarıda kalan",
+  nights: "gece",
+};
+
+const evidenceText = (evidence: IssueEvidence) =>
+  [
+    ...Object.entries(evidence.counts).map(([key, count]) => `${count} ${COUNT_LABELS[key] ?? key}`),
+    evidence.eventIds?.length ? `kayıt #${evidence.eventIds.join(", #")}` : null,
+    evidence.sessionIds?.length ? `oturum #${evidence.sessionIds.join(", #")}` : null,
+    evidence.dates?.length ? evidence.dates.join(", ") : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const slotLabel = (content: SlotChange["before"]) =>
+  !content || content.type === "free" ? "boş" : content.label ?? content.type;
+
+/**
+ * Guardian warnings with one-click fixes: a fix is previewed as a slot diff,
+ * applied to the stored week and can be undone until the next fix.
+ */
+export default function GuardianIssuesPanel({ issues, plan, weekKey }: Props) {
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [applied, setApplied] = useState<AppliedFix | null>(null);
+
+  const previewIssue = issues.find((i) => issueKey(i) === previewKey);
+  const operation = previewIssue?.suggestedFix?.operation;
+  const preview = useMemo(() => {
+    if (!operation) return null;
+    const fixed = applyFix(plan, operation);
+    return { fixed, changes: diffPlans(plan, fixed) };
+  }, [plan, operation]);
+
+  const apply = () => {
+    if (!previewIssue || !operation || !preview) return;
+    savePlan(weekKey, preview.fixed);
+    logEvent(
+      EVENT_TYPES.GUARDIAN_FIX_APPLIED,
+      {
+        weekKey,
+        issueType: previewIssue.type,
+        message: previewIssue.message,
+        action: previewIssue.suggestedFix?.action,
+        operation,
+        changedSlots: preview.changes.length,
+      },
+      "WeeklyPlanner"
+    );
+    setApplied({ weekKey, before: plan, issue: previewIssue });
+    setPreviewKey(null);
+  };
+
+  const undo = () => {
+    if (!applied) return;
+    savePlan(applied.weekKey, applied.before);
+    logEvent(
+      EVENT_TYPES.GUARDIAN_FIX_UNDONE,
+      {
+        weekKey: applied.weekKey,
+        issueType: applied.issue.type,
+        message: applied.issue.message,
+        operation: applied.issue.suggestedFix?.operation,
+      },
+      "WeeklyPlanner"
+    );
+    setApplied(null);
+  };
+
+  // Acknowledged issues stay hidden while they persist; snoozed ones come back after a day
+  const dismiss = async (issue: GuardianIssue, snooze: boolean) => {
+    if (!issue.id) return;
+    if (issueKey(issue) === previewKey) setPreviewKey(null);
+    const payload = { weekKey, issueId: issue.id, ruleId: issue.ruleId, issueType: issue.type };
+    if (snooze) {
+      const until = await snoozeIssue(issue.id, SNOOZE_MS);
+      logEvent(EVENT_TYPES.GUARDIAN_ISSUE_SNOOZED, { ...payload, until }, "WeeklyPlanner");
+    } else {
+      await setIssueState(issue.id, { status: "acknowledged", weekKey });
+      logEvent(EVENT_TYPES.GUARDIAN_ISSUE_ACKNOWLEDGED, payload, "WeeklyPlanner");
+    }
+  };
+
+  const applyPolicy = async (issue: GuardianIssue, suggestion: PolicySuggestion) => {
+    if (!suggestion.patch) return;
+    await patchWeeklyPlannerPolicy(suggestion.patch);
+    logEvent(
+      EVENT_TYPES.TUNER_POLICY_APPLIED,
+      { kind: "guardianSuggestion", issueId: issue.id, ruleId: issue.ruleId, patch: suggestion.patch },
+      "WeeklyPlanner"
+    );
+  };
+
+  if (issues.length === 0 && !applied) return null;
+
+  return (
+    <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-2 text-red-800 font-bold">
+        <span className="text-xl">🛡️</span> Guardian Agent: {issues.length} Sorun Tespit Edildi
+      </div>
+
+      {applied && (
+        <div className="flex items-center justify-between mb-2 bg-white border border-green-200 rounded-lg px-3 py-2 text-xs text-green-800">
+          <span>✓ Düzeltme uygulandı: {applied.issue.message}</span>
+          <button onClick={undo} className="font-semibold text-blue-600 hover:underline">
+            Geri al
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {issues.map((issue) => {
+          const key = issueKey(issue);
+          const fix = issue.suggestedFix;
+          return (
+            <div key={key} className="flex items-start gap-3 bg-white p-3 rounded-lg border border-red-100 text-sm shadow-sm">
+              <div className={`mt-0.5 w-2 h-2 rounded-full ${issue.severity === 'critical' ? 'bg-red-600' : 'bg-orange-400'}`} />
+              <div className="flex-1">
+                <div className="font-semibold text-gray-800">{issue.message}</div>
+                {fix && (
+                  <div className="text-gray-600 text-xs mt-1">
+                    💡 Öneri: <span className="italic">{fix.description}</span>
+                  </div>
+                )}
+                {issue.policySuggestions && issue.policySuggestions.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside text-xs text-gray-600">
+                    {issue.policySuggestions.map((suggestion) => (
+                      <li key={suggestion.description}>
+                        {suggestion.description}
+                        {suggestion.patch && (
+                          <button
+                            onClick={() => applyPolicy(issue, suggestion)}
+                            className="ml-2 font-semibold text-blue-600 hover:underline"
+                          >
+                            Uygula
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {issue.evidence && (
+                  <div className="mt-1 text-[11px] text-gray-500">Kanıt: {evidenceText(issue.evidence)}</div>
+                )}
+
+                {key === previewKey && preview && fix?.operation && (
+                  <div className="mt-2 rounded-lg border border-gray-200 bg-gray-50 p-2 text-xs">
+                    <div className="font-semibold text-gray-700">{describeFix(fix.operation)}</div>
+                    <ul className="mt-1 space-y-0.5">
+                      {preview.changes.map((c) => (
+                        <li key={`${c.date}-${c.startMinutes}`} className="font-mono text-[11px] text-gray-600">
+                          {c.dayName} {formatTimeOfDay(c.startMinutes)}–{formatTimeOfDay(c.endMinutes)}:{" "}
+                          <span className="text-red-600">{slotLabel(c.before)}</span> →{" "}
+                          <span className="text-green-700">{slotLabel(c.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={apply}
+                        className="px-2 py-1 rounded bg-green-600 text-white font-semibold hover:bg-green-700"
+                      >
+                        Uygula
+                      </button>
+                      <button onClick={() => setPreviewKey(null)} className="px-2 py-1 rounded border border-gray-300 bg-white">
+                        Vazgeç
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                {fix?.operation && key !== previewKey && (
+                  <button
+                    onClick={() => setPreviewKey(key)}
+                    className="text-xs font-semibold text-blue-600 hover:underline whitespace-nowrap"
+                  >
+                    Düzelt…
+                  </button>
+                )}
+                {issue.id && (
+                  <>
+                    <button
+                      onClick={() => dismiss(issue, false)}
+                      title="Sorun sürdükçe tekrar gösterme"
+                      className="text-xs text-gray-500 hover:underline whitespace-nowrap"
+                    >
+                      Tamam
+                    </button>
+                    <button
+                      onClick={() => dismiss(issue, true)}
+                      className="text-xs text-gray-500 hover:underline whitespace-nowrap"
+                    >
+                      Ertele (1 gün)
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
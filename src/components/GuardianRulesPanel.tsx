@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { logEvent } from "../observer/logging";
+import { EVENT_TYPES } from "../observer/events";
+import { getGuardianRules, ruleThresholds } from "../guardian/registry";
+import { clearIssueStates, patchGuardianRule, resetGuardianRule } from "../guardian/guardianSettings";
+import { GuardianConfig, GuardianRuleConfig, IssueSeverity } from "../guardian/types";
+
+interface Props {
+  /** undefined while the settings are loading */
+  config?: GuardianConfig;
+}
+
+const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  critical: "Kritik",
+  warning: "Uyarı",
+  info: "Bilgi",
+};
+
+/**
+ * Guardian rule settings: every registered rule can be turned off, given
+ * another severity or other thresholds. Stored in db.settings, so they sync.
+ */
+export default function GuardianRulesPanel({ config }: Props) {
+  const rules = getGuardianRules();
+  // Snoozes that end while the page is open are counted until the next visit
+  const [now] = useState(() => Date.now());
+  const hiddenCount = Object.values(config?.issueStates ?? {}).filter(
+    (s) => s.status === "acknowledged" || (s.until ?? 0) > now
+  ).length;
+
+  const update = (ruleId: string, patch: GuardianRuleConfig) => {
+    patchGuardianRule(ruleId, patch);
+    logEvent(EVENT_TYPES.GUARDIAN_RULE_UPDATED, { ruleId, patch }, "WeeklyPlanner");
+  };
+
+  const reset = (ruleId: string) => {
+    resetGuardianRule(ruleId);
+    logEvent(EVENT_TYPES.GUARDIAN_RULE_UPDATED, { ruleId, reset: true }, "WeeklyPlanner");
+  };
+
+  return (
+    <details className="mb-6 bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+      <summary className="text-sm font-semibold text-gray-800 cursor-pointer">
+        🛡️ Guardian kuralları
+      </summary>
+
+      {hiddenCount > 0 && (
+        <div className="flex items-center justify-between mt-3 text-xs text-gray-600">
+          <span>{hiddenCount} sorun onaylandı veya ertelendi.</span>
+          <button onClick={() => clearIssueStates()} className="font-semibold text-blue-600 hover:underline">
+            Hepsini tekrar göster
+          </button>
+        </div>
+      )}
+
+      <div className="mt-3 space-y-2">
+        {rules.map((rule) => {
+          const ruleConfig = config?.rules[rule.id];
+          const enabled = ruleConfig?.enabled !== false;
+          const thresholds = ruleThresholds(rule, ruleConfig);
+          return (
+            <div key={rule.id} className="flex flex-wrap items-center gap-3 border-b border-gray-100 pb-2 text-xs">
+              <label className="flex items-center gap-2 min-w-[14rem]">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+                />
+                <span className={enabled ? "text-gray-800" : "text-gray-400 line-through"}>{rule.title}</span>
+              </label>
+
+              <select
+                className="border rounded px-2 py-1"
+                value={ruleConfig?.severity ?? rule.defaultSeverity}
+                disabled={!enabled}
+                onChange={(e) => update(rule.id, { severity: e.target.value as IssueSeverity })}
+              >
+                {(Object.keys(SEVERITY_LABELS) as IssueSeverity[]).map((severity) => (
+                  <option key={severity} value={severity}>
+                    {SEVERITY_LABELS[severity]}
+                  </option>
+                ))}
+              </select>
+
+              {Object.entries(rule.thresholds ?? {}).map(([key, threshold]) => (
+                <label key={key} className="flex items-center gap-1 text-gray-600">
+                  {threshold.label}
+                  <input
+                    type="number"
+                    step="any"
+                    className="w-16 border rounded px-1 py-0.5"
+                    value={thresholds[key]}
+                    disabled={!enabled}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (e.target.value !== "" && Number.isFinite(value)) update(rule.id, { thresholds: { [key]: value } });
+                    }}
+                  />
+                </label>
+              ))}
+
+              {rule.needsPolicy && <span className="text-gray-400">(politikaya bağlı)</span>}
+              {ruleConfig && (
+                <button onClick={() => reset(rule.id)} className="ml-auto text-gray-500 hover:underline">
+                  Varsayılan
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
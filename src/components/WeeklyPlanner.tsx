@@ -1,8 +1,8 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useLiveQuery } from "dexie-react-hooks";
-import { db, Goal, Constraint } from "../db/db";
+import { db } from "../db/db";
 import { logEvent } from "../observer/logging";
 import { EVENT_TYPES } from "../observer/events";
 import {
@@ -11,346 +11,76 @@ import {
 import { SyncAgent } from "../lib/sync/SyncAgent";
 import {
   DEFAULT_WEEKLY_PLANNER_POLICY,
+  ReplanMode,
+  SLOT_MINUTE_OPTIONS,
+  SchedulerStrategy,
+  SlotMinutes,
   WeeklyPlannerPolicy,
-  bucketForHour,
-  clamp,
+  dayWindowFor,
 } from "../tuner/weeklyPlannerPolicy";
 import { tuneWeeklyPlannerPolicyFromLogs } from "../tuner/TunerAgent";
-import { SchedulerRule, SlotRationale, createRationale } from "../scheduler/rules";
-import { Slot, SlotType, DayPlan } from "../types/plan";
+import { SchedulerRule, createRationale } from "../scheduler/rules";
+import { WEEK_DAYS } from "../scheduler/weeklyScheduler";
+import { BlockMove, PlacedBlock, SchedulerProgress, StrategyComparison } from "../scheduler/types";
+import { SchedulerCancelledError, SchedulerWorkerClient } from "../scheduler/worker/schedulerClient";
+import { scoringKey } from "../scheduler/incremental";
+import { addDays, formatTimeOfDay, parseDeadline, toISODate } from "../scheduler/calendar";
+import { DayPlan } from "../types/plan";
+import { Goal, Constraint, ReviewItem, Session } from "../types/models";
 import { analyzePlan } from "../guardian/GuardianAgent";
 import { GuardianIssue } from "../guardian/types";
+import { getGuardianConfig } from "../guardian/guardianSettings";
+import { ADHERENCE_EVENT_TYPES, plannedMinutesByDate } from "../guardian/adherence";
 import { downloadICS } from "../lib/exportImport";
-
-const WEEK_DAYS = [
-  "Pazartesi",
-  "Salı",
-  "Çarşamba",
-  "Perşembe",
-  "Cuma",
-  "Cumartesi",
-  "Pazar",
-];
-
-const START_HOUR = 9;
-const END_HOUR = 22; // end boundary (exclusive)
-const SLOT_MINUTES = 30;
-
-// ---------------- Baseline Scheduler (rules + heuristics) ----------------
+import { startReviewAgent } from "../review/ReviewAgent";
+import WhyNotPanel from "./WhyNotPanel";
+import WhatIfPanel from "./WhatIfPanel";
+import GuardianIssuesPanel from "./GuardianIssuesPanel";
+import GuardianRulesPanel from "./GuardianRulesPanel";
+import { completedMinutesByGoal, computeGoalProgress } from "../lib/goalProgress";
+import {
+  clearPinnedSlots,
+  getPlan,
+  getPlans,
+  horizonWeekKeys,
+  keepPastDays,
+  savePlan,
+  splitPlanByWeek,
+  weekKeyFor,
+} from "../lib/planStore";
 
 /**
- * Build an initial weekly plan from goals and constraints.
- * Rules:
- * - Start with all slots "free"
- * - Place constraint ("busy") hours on evening slots first (Respecting 'day' if exists)
- * - Distribute remaining study hours across the week (round-robin)
- * - Max X study hours per day (MAX_STUDY_HOURS_PER_DAY)
+ * Fingerprint of everything the scheduler reads. Sync rewrites goals/constraints
+ * even when nothing changed (new updatedAt/version), so only the fields that
+ * affect placement are included; that keeps devices from re-planning in a loop.
  */
-function buildWeeklyPlan(
-  goals: Goal[] = [],
-  constraints: Constraint[] = [],
-  policy: WeeklyPlannerPolicy = DEFAULT_WEEKLY_PLANNER_POLICY
-): DayPlan[] {
-  const slotsPerDay = ((END_HOUR - START_HOUR) * 60) / SLOT_MINUTES;
-
-  // 1) Initialize all slots as "free"
-  const days: DayPlan[] = WEEK_DAYS.map((dayName) => ({
-    dayName,
-    slots: Array.from(
-      { length: slotsPerDay },
-      (_, i): Slot => ({
-        startMinutes: START_HOUR * 60 + i * SLOT_MINUTES,
-        type: "free",
-        rationale: createRationale(SchedulerRule.SLOT_FREE_AVAILABLE),
-      })
-    ),
-  }));
-
-  // 2) Place constraints (Updated to use specific Titles and Days)
-  // We iterate through each constraint to preserve its identity (Title).
-
-  for (const c of constraints) {
-    let remainingSlots = Math.round(((c.duration || 0) * 60) / SLOT_MINUTES);
-
-    // Kısıtın özel bir günü var mı kontrol et (Örn: "Pazartesi")
-    const targetDayIndex = WEEK_DAYS.indexOf((c as any).day);
-
-    // Heuristic: Akşamdan geriye doğru boş yer ara (slot bazlı)
-    for (let s = slotsPerDay - 1; s >= 0 && remainingSlots > 0; s--) {
-      if (targetDayIndex !== -1) {
-        // --- SENARYO A: Belirli Bir Gün Seçilmiş (Örn: Salı) ---
-        // Sadece o günün sütununa bak
-        const slot = days[targetDayIndex].slots[s];
-        if (slot.type === "free") {
-          slot.type = "busy";
-          slot.label = c.title; // - Kısıtın gerçek adını bas
-          slot.priority = undefined;
-          slot.rationale = createRationale(SchedulerRule.CONSTRAINT_SPECIFIC_DAY, {
-            constraintTitle: c.title,
-            dayName: WEEK_DAYS[targetDayIndex],
-            startMinutes: slot.startMinutes,
-          });
-          remainingSlots--;
-        } else {
-          slot.rationale = createRationale(SchedulerRule.SLOT_ALREADY_OCCUPIED);
-        }
-      } else {
-        // --- SENARYO B: Gün Seçilmemiş (Genel Kısıt) ---
-        // Tüm günlere (Pzt->Paz) sırayla bak (Round-robin)
-        for (let d = 0; d < days.length && remainingSlots > 0; d++) {
-          const slot = days[d].slots[s];
-          if (slot.type === "free") {
-            slot.type = "busy";
-            slot.label = c.title; // Kısıtın gerçek adını bas
-            slot.priority = undefined;
-            slot.rationale = createRationale(SchedulerRule.CONSTRAINT_GENERAL_DISTRIBUTION, {
-              constraintTitle: c.title,
-              dayName: WEEK_DAYS[d],
-              startMinutes: slot.startMinutes,
-            });
-            remainingSlots--;
-          }
-        }
-      }
-    }
-  }
-
-  // 3) Distribute goals across the remaining free slots
-  const goalStates = goals.map((g) => ({
-    id: g.id,
-    title: g.title,
-    priority: g.priority,
-    status: g.status, // Durumu al
-    remainingMinutes: (g.targetHours || 0) * 60,
-    deadline: g.deadline ? new Date(g.deadline) : undefined,
-  }));
-
-  if (goalStates.length === 0) return days;
-
-  // Exam heuristic: if any active goal deadline is near, bias mornings more.
-  const now = Date.now();
-  const examSoon = goalStates.some((g) => {
-    if (!g.deadline) return false;
-    const diffDays = (g.deadline.getTime() - now) / (24 * 60 * 60 * 1000);
-    return diffDays >= 0 && diffDays <= policy.examWindowDays;
+function schedulerRunKey(
+  goals: Goal[],
+  constraints: Constraint[],
+  sessions: Session[],
+  policy: WeeklyPlannerPolicy,
+  reviews: ReviewItem[],
+  pinned?: DayPlan[]
+) {
+  return JSON.stringify({
+    goals: goals.map((g) => [g.id, g.title, g.targetHours, g.priority, g.status, g.deadline ? parseDeadline(g.deadline).getTime() : null, g.minBlockMinutes, g.preferredBlockMinutes, g.maxMinutesPerDay, g.preferredWindows, g.forbiddenWindows, g.preferredDays, g.avoidedDays, g.dependsOn]),
+    constraints: constraints.map((c) => [c.id, c.title, c.type, c.duration, c.day, c.startTime, c.endTime, c.recurrence, c.exceptions]),
+    completed: Array.from(completedMinutesByGoal(sessions).entries()),
+    policy,
+    reviews: reviews.map((r) => [r.id, r.goalId, r.dueDate, r.intervalDays]),
+    pinned: (pinned ?? []).map((d) => d.slots.filter((s) => s.pinned)),
   });
+}
 
-  const effectivePolicy: WeeklyPlannerPolicy = examSoon
-    ? {
-      ...policy,
-      morningWeight: clamp(
-        policy.morningWeight + policy.examMorningBoost,
-        0.5,
-        3
-      ),
-      eveningWeight: clamp(
-        policy.eveningWeight - policy.examEveningPenalty,
-        0.3,
-        3
-      ),
-    }
-    : policy;
-
-  // Add exam rationale to all days if exam window is active
-  if (examSoon) {
-    days.forEach((day) => {
-      day.slots.forEach((slot) => {
-        if (slot.type === "free" && !slot.rationale) {
-          slot.rationale = createRationale(SchedulerRule.EXAM_WINDOW_ACTIVE, {
-            examWindowDays: policy.examWindowDays,
-          });
-        }
-      });
-    });
-  }
-
-  const bucketWeight = (bucket: "morning" | "midday" | "evening") => {
-    if (bucket === "morning") return effectivePolicy.morningWeight;
-    if (bucket === "evening") return effectivePolicy.eveningWeight;
-    return effectivePolicy.middayWeight;
-  };
-
-  const isContiguousFree = (slots: Slot[], start: number, len: number) => {
-    for (let i = 0; i < len; i++) {
-      if (!slots[start + i] || slots[start + i].type !== "free") return false;
-    }
-    return true;
-  };
-
-  const placeBlock = (
-    daySlots: Slot[],
-    start: number,
-    len: number,
-    title: string,
-    priority: any
-  ) => {
-    for (let i = 0; i < len; i++) {
-      daySlots[start + i].type = "study";
-      daySlots[start + i].label = title;
-      daySlots[start + i].priority = priority;
-    }
-  };
-
-  let currentGoalIndex = 0;
-  const maxPerDaySlots = Math.floor(
-    (effectivePolicy.maxStudyMinutesPerDay || 0) / SLOT_MINUTES
-  );
-
-  for (let d = 0; d < days.length; d++) {
-    let usedTodaySlots = 0;
-
-    // Keep placing blocks until we can't.
-    while (usedTodaySlots < maxPerDaySlots) {
-      // Stop if no remaining goals
-      if (
-        !goalStates.some(
-          (g) => g.remainingMinutes > 0 && g.status !== "postponed"
-        )
-      )
-        break;
-
-      // Round-robin: find next active goal
-      let loops = 0;
-      while (
-        (goalStates[currentGoalIndex].remainingMinutes <= 0 ||
-          goalStates[currentGoalIndex].status === "postponed") &&
-        loops < goalStates.length
-      ) {
-        currentGoalIndex = (currentGoalIndex + 1) % goalStates.length;
-        loops++;
-      }
-      if (
-        goalStates[currentGoalIndex].remainingMinutes <= 0 ||
-        goalStates[currentGoalIndex].status === "postponed"
-      ) {
-        // Add rationale for skipped postponed goal
-        const skippedGoal = goalStates[currentGoalIndex];
-        if (skippedGoal.status === "postponed") {
-          days[d].slots.forEach((slot) => {
-            if (slot.type === "free" && !slot.rationale) {
-              slot.rationale = createRationale(SchedulerRule.GOAL_POSTPONED_SKIPPED, {
-                goalTitle: skippedGoal.title,
-              });
-            }
-          });
-        }
-        break;
-      }
-
-      const g = goalStates[currentGoalIndex];
-      const daySlots = days[d].slots;
-
-      // Find best block placement in this day for this goal.
-      let bestStart = -1;
-      let bestLen = 0;
-      let bestScore = -Infinity;
-      let bestBucket: "morning" | "midday" | "evening" | null = null;
-
-      for (let s = 0; s < daySlots.length; s++) {
-        if (daySlots[s].type !== "free") {
-          if (!daySlots[s].rationale) {
-            daySlots[s].rationale = createRationale(SchedulerRule.CONSTRAINT_BLOCKED_SLOT);
-          }
-          continue;
-        }
-        if (usedTodaySlots >= maxPerDaySlots) {
-          // Add rationale for daily limit
-          if (!daySlots[s].rationale) {
-            daySlots[s].rationale = createRationale(SchedulerRule.DAILY_STUDY_LIMIT_REACHED, {
-              dailyLimit: maxPerDaySlots * SLOT_MINUTES / 60,
-              usedToday: usedTodaySlots * SLOT_MINUTES / 60,
-            });
-          }
-          break;
-        }
-
-        const startMinutes = daySlots[s].startMinutes;
-        const hour = Math.floor(startMinutes / 60);
-        const bucket = bucketForHour(hour, effectivePolicy);
-
-        // Block length depends on bucket (evening shorter).
-        const desiredMinutes =
-          bucket === "evening"
-            ? effectivePolicy.eveningStudyBlockMinutes
-            : effectivePolicy.baseStudyBlockMinutes;
-        const desiredSlots = Math.max(
-          1,
-          Math.round(desiredMinutes / SLOT_MINUTES)
-        );
-
-        const remainingSlotsForGoal = Math.max(
-          1,
-          Math.ceil(g.remainingMinutes / SLOT_MINUTES)
-        );
-        const remainingSlotsForDay = maxPerDaySlots - usedTodaySlots;
-        const len = Math.min(
-          desiredSlots,
-          remainingSlotsForGoal,
-          remainingSlotsForDay,
-          daySlots.length - s
-        );
-        if (len <= 0) continue;
-        if (!isContiguousFree(daySlots, s, len)) continue;
-
-        // Score: time-bias weight + slight preference for earlier in day.
-        const weight = bucketWeight(bucket);
-        const timePenalty = (s / daySlots.length) * 0.08;
-        const score = weight - timePenalty;
-
-        if (score > bestScore) {
-          bestScore = score;
-          bestStart = s;
-          bestLen = len;
-          bestBucket = bucket;
-        }
-      }
-
-      if (bestStart === -1 || bestLen === 0) break;
-
-      // Place block with rationale
-      const blockRationale = bestBucket === "morning"
-        ? createRationale(SchedulerRule.GOAL_BLOCK_PLACED_MORNING, {
-          goalTitle: g.title,
-          priority: g.priority,
-          dayName: WEEK_DAYS[d],
-          startMinutes: daySlots[bestStart].startMinutes,
-          blockLength: bestLen * SLOT_MINUTES,
-          bucket: "morning",
-          score: bestScore,
-        })
-        : bestBucket === "evening"
-          ? createRationale(SchedulerRule.GOAL_BLOCK_PLACED_EVENING, {
-            goalTitle: g.title,
-            priority: g.priority,
-            dayName: WEEK_DAYS[d],
-            startMinutes: daySlots[bestStart].startMinutes,
-            blockLength: bestLen * SLOT_MINUTES,
-            bucket: "evening",
-            score: bestScore,
-          })
-          : createRationale(SchedulerRule.GOAL_BLOCK_PLACED_MIDDAY, {
-            goalTitle: g.title,
-            priority: g.priority,
-            dayName: WEEK_DAYS[d],
-            startMinutes: daySlots[bestStart].startMinutes,
-            blockLength: bestLen * SLOT_MINUTES,
-            bucket: bestBucket || "midday",
-            score: bestScore,
-          });
-
-      for (let i = 0; i < bestLen; i++) {
-        daySlots[bestStart + i].rationale = blockRationale;
-      }
-
-      placeBlock(daySlots, bestStart, bestLen, g.title, g.priority);
-      g.remainingMinutes -= bestLen * SLOT_MINUTES;
-      usedTodaySlots += bestLen;
-      currentGoalIndex = (currentGoalIndex + 1) % goalStates.length;
-    }
-  }
+const MOVE_LABELS: Record<BlockMove["kind"], string> = {
+  moved: "taşındı",
+  removed: "kaldırıldı",
+  shortened: "kısaltıldı",
+  added: "eklendi",
+};
 
-  return days;
-}
+const blockLabel = (b: PlacedBlock) =>
+  `${b.dayName} ${formatTimeOfDay(b.startMinutes)}–${formatTimeOfDay(b.startMinutes + b.minutes)}`;
 
 // ---------------- Component ----------------
 
@@ -358,23 +88,75 @@ export default function WeeklyPlanner() {
   // Filter out soft-deleted goals and constraints
   const goals = useLiveQuery(() => db.goals.filter(g => !g.isDeleted).toArray());
   const constraints = useLiveQuery(() => db.constraints?.filter(c => !c.isDeleted).toArray() ?? []);
+  const sessions = useLiveQuery(() => db.sessions.toArray());
+  const reviews = useLiveQuery(() => db.reviews.where('status').equals('pending').toArray());
 
-  const [plan, setPlan] = useState<DayPlan[]>([]);
   const [policy, setPolicy] = useState<WeeklyPlannerPolicy>(
     DEFAULT_WEEKLY_PLANNER_POLICY
   );
+
+  // Week shown in the grid, relative to the current week (0 = this week)
+  const [weekOffset, setWeekOffset] = useState(0);
+  const weekKey = weekKeyFor(addDays(new Date(), weekOffset * 7));
+
+  // Persisted plan of the viewed week ("null" = loaded, nothing stored yet).
+  // The query keeps its week: the previous result stays until the new one loads.
+  const planQuery = useLiveQuery(
+    () => getPlan(weekKey).then((r) => ({ weekKey, record: r ?? null })),
+    [weekKey]
+  );
+  const planRecord = planQuery?.record;
+  const plan = useMemo<DayPlan[]>(() => planRecord?.days ?? [], [planRecord]);
+
+  // Every week of the planning horizon, starting with the current week
+  const horizonKey = horizonWeekKeys(new Date(), policy.planningHorizonWeeks).join(",");
+  const horizonRecords = useLiveQuery(
+    () => getPlans(horizonKey.split(",")),
+    [horizonKey]
+  );
+  const horizonPlan = useMemo<DayPlan[]>(
+    () => (horizonRecords ?? []).flatMap((r) => r.days),
+    [horizonRecords]
+  );
+  const lastRunKey = useRef("");
+  const schedulerClient = useRef<SchedulerWorkerClient | null>(null);
+  const [schedulerProgress, setSchedulerProgress] = useState<SchedulerProgress | null>(null);
   const [tuneStatus, setTuneStatus] = useState<string>("");
+  const [comparison, setComparison] = useState<StrategyComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const comparisonClient = useRef<SchedulerWorkerClient | null>(null);
+  const [lastMoves, setLastMoves] = useState<BlockMove[]>([]);
   const [draggedSlot, setDraggedSlot] = useState<{
     dayIndex: number;
     slotIndex: number;
   } | null>(null);
 
   const [guardianIssues, setGuardianIssues] = useState<GuardianIssue[]>([]);
+  // Rule settings + acknowledged/snoozed issues (db.settings)
+  const guardianConfig = useLiveQuery(() => getGuardianConfig(), []);
+  // Focus/postpone/cancel and scheduler-run history for the burnout and adherence rules
+  const adherenceLogs = useLiveQuery(() => db.logs.where('type').anyOf(ADHERENCE_EVENT_TYPES).toArray(), []);
 
   useEffect(() => {
-    const issues = analyzePlan(plan, goals ?? [], constraints ?? [], policy.maxStudyMinutesPerDay);
+    // Acknowledgements made in this week are pruned once all of its data is loaded
+    const loaded =
+      planQuery?.weekKey === weekKey &&
+      [goals, constraints, sessions, guardianConfig, adherenceLogs].every((v) => v !== undefined);
+    const issues = analyzePlan(
+      plan,
+      goals ?? [],
+      constraints ?? [],
+      policy.maxStudyMinutesPerDay,
+      {
+        sessions: sessions ?? [],
+        policy,
+        config: guardianConfig,
+        logs: adherenceLogs ?? [],
+        pruneWeekKey: loaded ? weekKey : undefined,
+      }
+    );
     setGuardianIssues(issues);
-  }, [plan, goals, constraints, policy.maxStudyMinutesPerDay]);
+  }, [plan, planQuery, weekKey, goals, constraints, sessions, policy, guardianConfig, adherenceLogs]);
 
   // Live query for policy settings - auto-updates when synced from other device
   const policyRecord = useLiveQuery(
@@ -390,40 +172,119 @@ export default function WeeklyPlanner() {
   }, [policyRecord]);
 
   useEffect(() => {
-    if (goals && constraints) {
-      const nextPlan = buildWeeklyPlan(goals, constraints, policy);
-      setPlan(nextPlan);
-
-      // Collect all rationales for logging
-      const allRationales = nextPlan.flatMap(day =>
-        day.slots
-          .filter(slot => slot.rationale)
-          .map(slot => slot.rationale!)
-      );
-
-      logEvent(
-        EVENT_TYPES.SCHEDULER_RUN,
-        {
-          goalsCount: goals.length,
-          constraintsCount: constraints.length,
-          slotMinutes: policy.slotMinutes,
-          baseStudyBlockMinutes: policy.baseStudyBlockMinutes,
-          eveningStudyBlockMinutes: policy.eveningStudyBlockMinutes,
-          weights: {
-            morning: policy.morningWeight,
-            midday: policy.middayWeight,
-            evening: policy.eveningWeight,
+    if (!goals || !constraints || !sessions || !reviews || !horizonRecords) return;
+
+    const pinned = horizonRecords.flatMap((r) => r.days);
+    const runKey = schedulerRunKey(goals, constraints, sessions, policy, reviews, pinned);
+
+    // Same inputs and pins as the last run: keep showing the stored plan
+    // (e.g. a plan that arrived from another device through sync).
+    if (runKey === lastRunKey.current) return;
+    lastRunKey.current = runKey;
+
+    // The scheduler runs in a worker; a newer run cancels this one, so only
+    // the latest inputs ever reach Dexie.
+    schedulerClient.current ??= new SchedulerWorkerClient();
+    // Weeks planned with other scoring settings (strategy, weights) are rebuilt, not repaired
+    const pinnedScoringKey = horizonRecords.find((r) => r.scoringKey)?.scoringKey;
+    const runScoringKey = scoringKey(policy);
+    schedulerClient.current
+      .run({ goals, constraints, policy, options: { sessions, pinned, reviews, pinnedScoringKey } }, setSchedulerProgress)
+      .then(({ plan: nextPlan, rationales, unplaced, strategy, objective, moves }) => {
+        setSchedulerProgress(null);
+
+        // One record per week; only weeks whose plan actually changed are written.
+        // Past days of the current week keep what was stored for them.
+        const stored = new Map(horizonRecords.map((r) => [r.weekKey, r]));
+        const today = toISODate(new Date());
+        splitPlanByWeek(nextPlan).forEach((nextDays, key) => {
+          const record = stored.get(key);
+          const days = keepPastDays(record?.days, nextDays, today);
+          if (JSON.stringify(record?.days) !== JSON.stringify(days) || record?.scoringKey !== runScoringKey) {
+            savePlan(key, days, runScoringKey);
+          }
+        });
+
+        logEvent(
+          EVENT_TYPES.SCHEDULER_RUN,
+          {
+            goalsCount: goals.length,
+            constraintsCount: constraints.length,
+            horizonWeeks: policy.planningHorizonWeeks,
+            weekKeys: horizonKey.split(","),
+            pinnedSlots: nextPlan.flatMap((d) => d.slots).filter((slot) => slot.pinned).length,
+            pendingReviews: reviews.length,
+            slotMinutes: policy.slotMinutes,
+            baseStudyBlockMinutes: policy.baseStudyBlockMinutes,
+            eveningStudyBlockMinutes: policy.eveningStudyBlockMinutes,
+            weights: {
+              morning: policy.morningWeight,
+              midday: policy.middayWeight,
+              evening: policy.eveningWeight,
+            },
+            priorityWeights: policy.priorityWeights,
+            // What the days were planned as, for the missed-focus rule
+            plannedMinutes: plannedMinutesByDate(nextPlan, today),
+            strategy,
+            objective,
+            rationalesCount: rationales.length,
+            rationales,
+            unplaced: unplaced.map((u) => ({
+              goalId: u.goalId,
+              goalTitle: u.goalTitle,
+              unplacedMinutes: u.unplacedMinutes,
+              reason: u.reason,
+            })),
           },
-          rationalesCount: allRationales.length,
-          rationales: allRationales,
-        },
-        "WeeklyPlanner"
-      );
-    }
-  }, [goals, constraints, policy]);
+          "WeeklyPlanner"
+        );
+
+        // Incremental repair: report only the blocks that actually changed
+        if (moves?.length) {
+          setLastMoves(moves);
+          logEvent(
+            EVENT_TYPES.PLAN_REPAIRED,
+            {
+              weekKeys: horizonKey.split(","),
+              movesCount: moves.length,
+              moves: moves.map((m) => ({
+                goalId: m.goalId,
+                goalTitle: m.goalTitle,
+                kind: m.kind,
+                from: m.from,
+                to: m.to,
+                rule: m.rationale.rule,
+                reason: m.rationale.message,
+              })),
+            },
+            "WeeklyPlanner"
+          );
+        }
+      })
+      .catch((err) => {
+        if (err instanceof SchedulerCancelledError) return;
+        setSchedulerProgress(null);
+        // Let the next render retry with the same inputs
+        lastRunKey.current = "";
+        console.error("Scheduler run failed:", err);
+      });
+  }, [goals, constraints, sessions, reviews, policy, horizonRecords, horizonKey]);
+
+  useEffect(() => () => {
+    schedulerClient.current?.dispose();
+    comparisonClient.current?.dispose();
+  }, []);
+
+  // Focus sessions feed the spaced-repetition reviews placed above
+  useEffect(() => {
+    startReviewAgent();
+  }, []);
 
   const totalStudyHours =
     goals?.reduce((sum, g) => sum + (g.targetHours || 0), 0) ?? 0;
+  const remainingStudyHours =
+    Array.from(computeGoalProgress(goals ?? [], sessions ?? []).values())
+      .reduce((sum, p) => sum + p.remainingMinutes, 0) / 60;
   const totalBusyHours =
     constraints?.reduce((sum, c) => sum + (c.duration || 0), 0) ?? 0;
 
@@ -433,6 +294,12 @@ export default function WeeklyPlanner() {
     return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
   };
 
+  const formatDate = (date: string | Date) =>
+    (typeof date === "string" ? new Date(`${date}T00:00:00`) : date).toLocaleDateString("tr-TR", {
+      day: "2-digit",
+      month: "short",
+    });
+
   const updatePolicyField = async <K extends keyof WeeklyPlannerPolicy>(
     key: K,
     value: WeeklyPlannerPolicy[K]
@@ -443,6 +310,28 @@ export default function WeeklyPlanner() {
     setPolicy(next);
   };
 
+  // Side-by-side objective of every strategy on the current inputs (on demand).
+  // Has its own worker so it does not cancel the planner's run (and vice versa).
+  const runComparison = async () => {
+    if (!goals || !constraints || !sessions || !reviews || !horizonRecords) return;
+    comparisonClient.current ??= new SchedulerWorkerClient();
+    setComparing(true);
+    try {
+      setComparison(
+        await comparisonClient.current.compare({
+          goals,
+          constraints,
+          policy,
+          options: { sessions, reviews, pinned: horizonRecords.flatMap((r) => r.days) },
+        })
+      );
+    } catch (err) {
+      if (!(err instanceof SchedulerCancelledError)) console.error("Strategy comparison failed:", err);
+    } finally {
+      setComparing(false);
+    }
+  };
+
   const runAutoTune = async () => {
     setTuneStatus("Auto-tune çalışıyor...");
     try {
@@ -505,41 +394,74 @@ export default function WeeklyPlanner() {
       return;
     }
 
-    setPlan((prev) => {
-      const copy = prev.map((d) => ({
-        ...d,
-        slots: d.slots.map((s) => ({ ...s })),
-      }));
-      const source = copy[draggedSlot.dayIndex].slots[draggedSlot.slotIndex];
-      const target = copy[dayIndex].slots[slotIndex];
-
-      // Swap logic
-      copy[dayIndex].slots[slotIndex] = {
-        ...target,
-        type: source.type,
-        label: source.label,
-        priority: source.priority,
-        rationale: source.rationale,
-      };
-      copy[draggedSlot.dayIndex].slots[draggedSlot.slotIndex] = {
-        ...source,
-        type: "free",
-        label: undefined,
-        priority: undefined,
-        rationale: createRationale(SchedulerRule.SLOT_FREE_AVAILABLE),
-      };
-
-      return copy;
-    });
+    const copy = plan.map((d) => ({
+      ...d,
+      slots: d.slots.map((s) => ({ ...s })),
+    }));
+    const source = copy[draggedSlot.dayIndex].slots[draggedSlot.slotIndex];
+    const target = copy[dayIndex].slots[slotIndex];
+
+    // Swap logic. The moved slot is pinned so regeneration keeps it there.
+    copy[dayIndex].slots[slotIndex] = {
+      ...target,
+      type: source.type,
+      label: source.label,
+      priority: source.priority,
+      goalId: source.goalId,
+      constraintId: source.constraintId,
+      reviewId: source.reviewId,
+      pinned: true,
+      rationale: createRationale(SchedulerRule.SLOT_PINNED_BY_USER, {
+        goalTitle: source.type === "study" || source.type === "review" ? source.label : undefined,
+        constraintTitle: source.type === "busy" ? source.label : undefined,
+        dayName: copy[dayIndex].dayName,
+        date: copy[dayIndex].date,
+        startMinutes: target.startMinutes,
+      }),
+    };
+    copy[draggedSlot.dayIndex].slots[draggedSlot.slotIndex] = {
+      ...source,
+      type: "free",
+      label: undefined,
+      priority: undefined,
+      goalId: undefined,
+      constraintId: undefined,
+      reviewId: undefined,
+      pinned: false,
+      rationale: createRationale(SchedulerRule.SLOT_FREE_AVAILABLE),
+    };
+
+    savePlan(weekKey, copy);
 
     logEvent(
       EVENT_TYPES.SLOT_MOVED,
-      { from: { day: draggedSlot.dayIndex }, to: { day: dayIndex } },
+      {
+        from: { day: draggedSlot.dayIndex, slot: draggedSlot.slotIndex },
+        to: { day: dayIndex, slot: slotIndex },
+        weekKey,
+        pinned: true,
+      },
       "WeeklyPlanner"
     );
     setDraggedSlot(null);
   };
 
+  // Double-click toggles the pin of a filled slot.
+  const togglePin = (dayIndex: number, slotIndex: number) => {
+    const slot = plan[dayIndex]?.slots[slotIndex];
+    if (!slot || slot.type === "free") return;
+
+    savePlan(
+      weekKey,
+      plan.map((d, di) => ({
+        ...d,
+        slots: d.slots.map((s, si) =>
+          di === dayIndex && si === slotIndex ? { ...s, pinned: !s.pinned } : s
+        ),
+      }))
+    );
+  };
+
   const getStudyClassesByPriority = (priority?: "low" | "medium" | "high") => {
     switch (priority) {
       case "high":
@@ -561,15 +483,19 @@ export default function WeeklyPlanner() {
           </h2>
           <p className="text-sm text-gray-500 mt-2 max-w-2xl">
             Rules: Max {policy.maxStudyMinutesPerDay / 60} hours of study per
-            day. Slot size: {SLOT_MINUTES}dk. First, constraint (busy) slots are
-            blocked, then study goals are distributed across the week. The user
+            day. Slot size: {policy.slotMinutes}dk. First, constraint (busy) slots are
+            blocked, then study goals are distributed across the next{" "}
+            {policy.planningHorizonWeeks} weeks (deadlines are spread evenly
+            over the weeks before them). The user
             can drag &amp; drop both study blocks and constraints onto free
-            slots to adjust the schedule manually. Colors indicate priority
+            slots to adjust the schedule manually; moved slots are pinned
+            (📌, double-click to toggle) and kept when the plan is rebuilt. Colors indicate priority
             (HIGH / MEDIUM / LOW).
           </p>
         </div>
         <div className="text-xs font-mono bg-blue-50 text-blue-800 px-4 py-2 rounded-lg border border-blue-100">
           <div>Hedeflenen: {totalStudyHours} Saat</div>
+          <div>Kalan: {remainingStudyHours.toFixed(1)} Saat</div>
           <div>Dolu/Kısıt: {totalBusyHours} Saat</div>
         </div>
       </div>
@@ -593,6 +519,22 @@ export default function WeeklyPlanner() {
             >
               Auto-tune (last 7 days logs)
             </button>
+            <button
+              onClick={runComparison}
+              disabled={comparing}
+              className="px-3 py-1.5 rounded-lg bg-teal-600 text-white text-xs font-semibold hover:bg-teal-700 disabled:opacity-60"
+              title="Greedy ve yerel arama stratejilerinin skorlarını karşılaştır"
+            >
+              ⚖️ {comparing ? "Karşılaştırılıyor…" : "Stratejileri Karşılaştır"}
+            </button>
+            <button
+              onClick={() => clearPinnedSlots(weekKey)}
+              disabled={!plan.some((d) => d.slots.some((s) => s.pinned))}
+              className="px-3 py-1.5 rounded-lg bg-gray-600 text-white text-xs font-semibold hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Sürükle-bırak ile sabitlenen slotları serbest bırak"
+            >
+              📌 Sabitlemeleri Kaldır
+            </button>
             <button
               onClick={() => downloadICS(plan)}
               disabled={plan.length === 0}
@@ -612,8 +554,8 @@ export default function WeeklyPlanner() {
               className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
               type="number"
               value={policy.baseStudyBlockMinutes}
-              min={30}
-              step={30}
+              min={policy.slotMinutes}
+              step={policy.slotMinutes}
               onChange={(e) =>
                 updatePolicyField(
                   "baseStudyBlockMinutes",
@@ -628,8 +570,8 @@ export default function WeeklyPlanner() {
               className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
               type="number"
               value={policy.eveningStudyBlockMinutes}
-              min={30}
-              step={30}
+              min={policy.slotMinutes}
+              step={policy.slotMinutes}
               onChange={(e) =>
                 updatePolicyField(
                   "eveningStudyBlockMinutes",
@@ -645,7 +587,7 @@ export default function WeeklyPlanner() {
               type="number"
               value={policy.maxStudyMinutesPerDay}
               min={60}
-              step={30}
+              step={policy.slotMinutes}
               onChange={(e) =>
                 updatePolicyField(
                   "maxStudyMinutesPerDay",
@@ -654,6 +596,105 @@ export default function WeeklyPlanner() {
               }
             />
           </label>
+          <label className="text-xs text-gray-600">
+            Mola (dk)
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+              type="number"
+              value={policy.breakMinutes}
+              min={0}
+              step={5}
+              onChange={(e) =>
+                updatePolicyField("breakMinutes", Math.max(0, Number(e.target.value)))
+              }
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Kesintisiz max (dk)
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+              type="number"
+              value={policy.maxConsecutiveStudyMinutes}
+              min={policy.slotMinutes}
+              step={policy.slotMinutes}
+              onChange={(e) =>
+                updatePolicyField(
+                  "maxConsecutiveStudyMinutes",
+                  Math.max(policy.slotMinutes, Number(e.target.value))
+                )
+              }
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Konu değişimi cezası
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+              type="number"
+              value={policy.contextSwitchPenalty}
+              min={0}
+              step={0.05}
+              onChange={(e) =>
+                updatePolicyField("contextSwitchPenalty", Math.max(0, Number(e.target.value)))
+              }
+            />
+          </label>
+
+          <label className="text-xs text-gray-600">
+            Strateji
+            <select
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm bg-white"
+              value={policy.schedulerStrategy}
+              onChange={(e) =>
+                updatePolicyField("schedulerStrategy", e.target.value as SchedulerStrategy)
+              }
+            >
+              <option value="greedy">Greedy (gün gün)</option>
+              <option value="local_search">Yerel arama (simulated annealing)</option>
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Yeniden planlama
+            <select
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm bg-white"
+              value={policy.replanMode}
+              onChange={(e) => updatePolicyField("replanMode", e.target.value as ReplanMode)}
+            >
+              <option value="incremental">Artımlı (geçerli blokları koru)</option>
+              <option value="full">Tam (planı baştan kur)</option>
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Yerel arama iterasyonu
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm disabled:bg-gray-100"
+              type="number"
+              value={policy.localSearchIterations}
+              min={100}
+              step={500}
+              disabled={policy.schedulerStrategy !== "local_search"}
+              onChange={(e) =>
+                updatePolicyField("localSearchIterations", Math.max(0, Number(e.target.value)))
+              }
+            />
+          </label>
+
+          <label className="text-xs text-gray-600">
+            Horizon (hafta)
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+              type="number"
+              value={policy.planningHorizonWeeks}
+              min={1}
+              max={12}
+              step={1}
+              onChange={(e) =>
+                updatePolicyField(
+                  "planningHorizonWeeks",
+                  Math.max(1, Number(e.target.value))
+                )
+              }
+            />
+          </label>
 
           <label className="text-xs text-gray-600">
             Morning weight
@@ -691,30 +732,212 @@ export default function WeeklyPlanner() {
               }
             />
           </label>
+
+          <label className="text-xs text-gray-600">
+            Slot (dk)
+            <select
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm bg-white"
+              value={policy.slotMinutes}
+              onChange={(e) =>
+                updatePolicyField("slotMinutes", Number(e.target.value) as SlotMinutes)
+              }
+            >
+              {SLOT_MINUTE_OPTIONS.map((m) => (
+                <option key={m} value={m}>{m}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Gün başlangıcı (saat)
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+              type="number"
+              value={policy.dayStartHour}
+              min={0}
+              max={23}
+              onChange={(e) => updatePolicyField("dayStartHour", Number(e.target.value))}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Gün bitişi (saat)
+            <input
+              className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+              type="number"
+              value={policy.dayEndHour}
+              min={1}
+              max={24}
+              onChange={(e) => updatePolicyField("dayEndHour", Number(e.target.value))}
+            />
+          </label>
+
+          {(["high", "medium", "low"] as const).map((p) => (
+            <label key={p} className="text-xs text-gray-600">
+              Priority weight ({p})
+              <input
+                className="mt-1 w-full border rounded-lg px-2 py-1 text-sm"
+                type="number"
+                value={policy.priorityWeights[p]}
+                min={0.1}
+                step={0.05}
+                onChange={(e) =>
+                  updatePolicyField("priorityWeights", {
+                    ...policy.priorityWeights,
+                    [p]: Number(e.target.value),
+                  })
+                }
+              />
+            </label>
+          ))}
         </div>
-      </div>
 
-      {/* Guardian Agent Warnings */}
-      {guardianIssues.length > 0 && (
-        <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4">
-          <div className="flex items-center gap-2 mb-2 text-red-800 font-bold">
-            <span className="text-xl">🛡️</span> Guardian Agent: {guardianIssues.length} Sorun Tespit Edildi
-          </div>
-          <div className="space-y-2">
-            {guardianIssues.map((issue, idx) => (
-              <div key={idx} className="flex items-start gap-3 bg-white p-3 rounded-lg border border-red-100 text-sm shadow-sm">
-                <div className={`mt-0.5 w-2 h-2 rounded-full ${issue.severity === 'critical' ? 'bg-red-600' : 'bg-orange-400'}`} />
-                <div className="flex-1">
-                  <div className="font-semibold text-gray-800">{issue.message}</div>
-                  {issue.suggestedFix && (
-                    <div className="text-gray-600 text-xs mt-1">
-                      💡 Öneri: <span className="italic">{issue.suggestedFix.description}</span>
-                    </div>
-                  )}
+        {comparison && (
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            {(Object.keys(comparison) as SchedulerStrategy[]).map((key) => (
+              <div
+                key={key}
+                className={`rounded-lg border p-3 text-xs ${key === policy.schedulerStrategy ? "border-teal-400 bg-teal-50" : "border-gray-200"}`}
+              >
+                <div className="font-semibold text-gray-800">
+                  {key === "greedy" ? "Greedy" : "Yerel arama"}
+                  {key === policy.schedulerStrategy && " (seçili)"}
+                </div>
+                <div className="font-mono text-lg text-gray-900">{comparison[key].objective.toFixed(2)}</div>
+                <div className="text-gray-500">
+                  {(comparison[key].placedMinutes / 60).toFixed(1)} sa yerleşti
+                  {key === "local_search" && ` · ${comparison[key].movedBlocks} blok taşındı`}
                 </div>
               </div>
             ))}
           </div>
+        )}
+
+        {/* Per-weekday windows; empty fields fall back to the default window */}
+        <details className="mt-4">
+          <summary className="text-xs font-semibold text-gray-700 cursor-pointer">
+            Gün pencereleri (gün bazında başlangıç/bitiş)
+          </summary>
+          <div className="grid grid-cols-2 md:grid-cols-7 gap-2 mt-2">
+            {WEEK_DAYS.map((dayName, dayIndex) => {
+              const override = policy.dayWindows[dayIndex];
+              const effective = dayWindowFor(policy, dayIndex);
+              const setWindow = (field: "startHour" | "endHour", value: string) => {
+                const next = { ...policy.dayWindows };
+                const window = { ...effective, ...override, [field]: Number(value) };
+                if (value === "" || (window.startHour === policy.dayStartHour && window.endHour === policy.dayEndHour)) {
+                  delete next[dayIndex];
+                } else {
+                  next[dayIndex] = window;
+                }
+                updatePolicyField("dayWindows", next);
+              };
+              return (
+                <div key={dayName} className="text-[11px] text-gray-600">
+                  <div className={override ? "font-semibold text-gray-800" : ""}>{dayName}</div>
+                  <div className="flex gap-1 mt-1">
+                    <input
+                      className="w-full border rounded px-1 py-0.5 text-xs"
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={effective.startHour}
+                      onChange={(e) => setWindow("startHour", e.target.value)}
+                    />
+                    <input
+                      className="w-full border rounded px-1 py-0.5 text-xs"
+                      type="number"
+                      min={1}
+                      max={24}
+                      value={effective.endHour}
+                      onChange={(e) => setWindow("endHour", e.target.value)}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </details>
+      </div>
+
+      {/* Guardian Agent Warnings */}
+      <GuardianIssuesPanel issues={guardianIssues} plan={plan} weekKey={weekKey} />
+      <GuardianRulesPanel config={guardianConfig} />
+
+      {/* Week Navigation */}
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => setWeekOffset((o) => o - 1)}
+          className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          ← Önceki Hafta
+        </button>
+        <div className="text-sm font-semibold text-gray-700">
+          {formatDate(weekKey)} – {formatDate(addDays(new Date(`${weekKey}T00:00:00`), 6))}
+          {weekOffset !== 0 && (
+            <button
+              onClick={() => setWeekOffset(0)}
+              className="ml-2 text-xs text-blue-600 hover:underline"
+            >
+              Bu Hafta
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setWeekOffset((o) => o + 1)}
+          className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          Sonraki Hafta →
+        </button>
+      </div>
+
+      {planRecord === null && (
+        <div className="mb-6 text-sm text-gray-500 bg-gray-50 border border-gray-200 rounded-xl p-4">
+          Bu hafta için kayıtlı plan yok (planlama ufku: {policy.planningHorizonWeeks} hafta).
+        </div>
+      )}
+
+      {/* Scheduler progress (runs in a Web Worker) */}
+      {schedulerProgress && (
+        <div className="mb-3">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>
+              Planlanıyor… ({schedulerProgress.phase === "local_search" ? "yerel arama" : "greedy"})
+            </span>
+            <span>%{Math.round(schedulerProgress.progress * 100)}</span>
+          </div>
+          <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${Math.round(schedulerProgress.progress * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Last incremental repair */}
+      {lastMoves.length > 0 && (
+        <div className="mb-3 bg-indigo-50 border border-indigo-200 rounded-xl p-3 text-xs text-indigo-900">
+          <div className="flex justify-between items-center">
+            <span className="font-semibold">
+              🔧 Son yeniden planlama: {lastMoves.filter((m) => m.kind === "moved").length} blok taşındı,{" "}
+              {lastMoves.filter((m) => m.kind === "removed").length} kaldırıldı,{" "}
+              {lastMoves.filter((m) => m.kind === "shortened").length} kısaltıldı,{" "}
+              {lastMoves.filter((m) => m.kind === "added").length} eklendi
+            </span>
+            <button onClick={() => setLastMoves([])} className="text-indigo-600 hover:underline">
+              Kapat
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {lastMoves.map((m, i) => (
+              <li key={i}>
+                <span className="font-medium">{m.goalTitle}</span>: {MOVE_LABELS[m.kind]}{" "}
+                {m.from && blockLabel(m.from)}
+                {m.from && m.to && " → "}
+                {m.to && blockLabel(m.to)}
+                <span className="text-indigo-700"> ({m.rationale.message})</span>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
@@ -722,19 +945,31 @@ export default function WeeklyPlanner() {
       <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
         {plan.map((day, dayIndex) => (
           <div
-            key={day.dayName}
+            key={day.date ?? day.dayName}
             className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col"
           >
             <div className="bg-gray-50 p-3 border-b border-gray-100 font-bold text-center text-gray-700 text-sm">
               {day.dayName}
+              {day.slots.some((s) => s.rationale?.rule === SchedulerRule.CONSTRAINT_DAY_OFF) && (
+                <span className="ml-1 text-[10px] font-semibold text-teal-700 bg-teal-50 border border-teal-200 px-1.5 py-0.5 rounded">
+                  İzin
+                </span>
+              )}
+              {day.date && (
+                <div className="text-[11px] font-normal text-gray-400">{formatDate(day.date)}</div>
+              )}
             </div>
             <div className="p-2 space-y-1 overflow-y-auto max-h-[500px]">
               {day.slots.map((slot, slotIndex) => {
                 let cls =
                   "flex items-center text-[11px] px-2 py-1.5 rounded border transition-all ";
 
+                const dayOff = slot.rationale?.rule === SchedulerRule.CONSTRAINT_DAY_OFF;
+
                 if (slot.type === "free") {
                   cls += "bg-white border-dashed border-gray-200 text-gray-300";
+                } else if (dayOff) {
+                  cls += "bg-teal-50 border-teal-100 text-teal-700";
                 } else if (slot.type === "busy") {
                   cls +=
                     "bg-orange-100 border-orange-200 text-orange-800 font-semibold cursor-move hover:shadow-sm";
@@ -742,16 +977,20 @@ export default function WeeklyPlanner() {
                   cls +=
                     getStudyClassesByPriority(slot.priority) +
                     " font-medium cursor-move hover:shadow-sm";
+                } else if (slot.type === "review") {
+                  cls +=
+                    "bg-violet-100 border-violet-200 text-violet-800 font-medium cursor-move hover:shadow-sm";
                 }
 
                 return (
                   <div
                     key={`${day.dayName}-${slot.startMinutes}`}
                     className={`${cls} relative group`}
-                    draggable={slot.type !== "free"}
+                    draggable={slot.type !== "free" && !dayOff}
                     onDragStart={() => handleDragStart(dayIndex, slotIndex)}
                     onDragOver={(e) => handleDragOver(e, dayIndex, slotIndex)}
                     onDrop={(e) => handleDrop(e, dayIndex, slotIndex)}
+                    onDoubleClick={() => togglePin(dayIndex, slotIndex)}
                     title={slot.rationale?.message || undefined}
                   >
                     <span className="font-mono opacity-50 w-10 text-xs">
@@ -759,8 +998,11 @@ export default function WeeklyPlanner() {
                     </span>
                     <span className="truncate flex-1">
                       {/* - Kısıtın gerçek adını gösterir */}
-                      {slot.type === "free" ? "-" : slot.label}
+                      {slot.type === "free" ? "-" : slot.type === "review" ? `🔁 ${slot.label}` : slot.label}
                     </span>
+                    {slot.pinned && (
+                      <span className="ml-1" title="Sabitlendi (çift tıkla kaldır)">📌</span>
+                    )}
                     {slot.rationale && (
                       <div className="absolute left-full ml-2 top-0 z-50 hidden group-hover:block bg-gray-900 text-white text-xs rounded px-2 py-1 whitespace-nowrap shadow-lg">
                         <div className="font-semibold mb-1">Neden?</div>
@@ -770,10 +1012,22 @@ export default function WeeklyPlanner() {
                             {slot.rationale.details.goalTitle && `Hedef: ${slot.rationale.details.goalTitle}`}
                             {slot.rationale.details.constraintTitle && `Kısıt: ${slot.rationale.details.constraintTitle}`}
                             {slot.rationale.details.priority && `Öncelik: ${slot.rationale.details.priority}`}
+                            {slot.rationale.details.displacedGoalTitle && ` (önce: ${slot.rationale.details.displacedGoalTitle})`}
                             {slot.rationale.details.bucket && `Zaman: ${slot.rationale.details.bucket}`}
                             {slot.rationale.details.blockLength && `Blok: ${slot.rationale.details.blockLength} dk`}
                           </div>
                         )}
+                        {slot.rationale.details?.scoreBreakdown && (
+                          <div className="text-gray-300 text-[10px]">
+                            {(() => {
+                              const b = slot.rationale.details.scoreBreakdown;
+                              return `Skor: ${b.bucketWeight.toFixed(2)} (zaman) × ${b.windowFactor.toFixed(2)} (pencere) × ${b.dayFactor.toFixed(2)} (gün)` +
+                                (b.timePenalty ? ` − ${b.timePenalty.toFixed(2)} (saat)` : "") +
+                                (b.switchPenalty ? ` − ${b.switchPenalty.toFixed(2)} (konu değişimi)` : "") +
+                                ` = ${b.total.toFixed(2)}`;
+                            })()}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -783,6 +1037,22 @@ export default function WeeklyPlanner() {
           </div>
         ))}
       </div>
+
+      <WhyNotPanel
+        goals={goals ?? []}
+        plan={horizonPlan}
+        policy={policy}
+        sessions={sessions ?? []}
+      />
+
+      <WhatIfPanel
+        goals={goals ?? []}
+        constraints={constraints ?? []}
+        sessions={sessions ?? []}
+        reviews={reviews ?? []}
+        policy={policy}
+        plan={horizonPlan}
+      />
     </section>
   );
 }
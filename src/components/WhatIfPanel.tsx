@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { db, softDeleteConstraint } from "../db/db";
+import { logEvent } from "../observer/logging";
+import { EVENT_TYPES } from "../observer/events";
+import { patchWeeklyPlannerPolicy } from "../tuner/settingsStore";
+import { SchedulerStrategy, WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { SchedulerProgress, ScheduleResult } from "../scheduler/types";
+import { SchedulerCancelledError, SchedulerWorkerClient } from "../scheduler/worker/schedulerClient";
+import { scoringKey } from "../scheduler/incremental";
+import { SlotChange, diffPlans, studyMinutesByGoal } from "../scheduler/planDiff";
+import { formatTimeOfDay, parseDeadline } from "../scheduler/calendar";
+import { analyzePlan, compareIssues } from "../guardian/GuardianAgent";
+import { GuardianIssue } from "../guardian/types";
+import { getGuardianConfig } from "../guardian/guardianSettings";
+import { EMPTY_SCENARIO, WhatIfScenario, isEmptyScenario, scenarioInputs } from "../lib/whatIf";
+import { DayPlan } from "../types/plan";
+import { Constraint, Goal, ReviewItem, Session } from "../types/models";
+import { PostponePayload } from "../types/analytics";
+
+interface Props {
+  goals: Goal[];
+  constraints: Constraint[];
+  sessions: Session[];
+  reviews: ReviewItem[];
+  policy: WeeklyPlannerPolicy;
+  /** Current plan of the whole horizon (the diff baseline) */
+  plan: DayPlan[];
+}
+
+interface Preview {
+  result: ScheduleResult;
+  goals: Goal[];
+  changes: SlotChange[];
+  issues: { added: GuardianIssue[]; resolved: GuardianIssue[] };
+}
+
+// Policy fields editable in the sandbox
+const POLICY_FIELDS: { key: keyof WeeklyPlannerPolicy; label: string }[] = [
+  { key: "maxStudyMinutesPerDay", label: "Günlük max (dk)" },
+  { key: "baseStudyBlockMinutes", label: "Base block (dk)" },
+  { key: "eveningStudyBlockMinutes", label: "Evening block (dk)" },
+  { key: "breakMinutes", label: "Mola (dk)" },
+];
+
+const slotLabel = (content: SlotChange["before"]) =>
+  !content || content.type === "free" ? "boş" : content.label ?? content.type;
+
+/**
+ * What-if sandbox: runs the scheduler and the Guardian on a modified copy of
+ * the goals, constraints and policy. Nothing is written until "Uygula".
+ */
+export default function WhatIfPanel({ goals, constraints, sessions, reviews, policy, plan }: Props) {
+  const [scenario, setScenario] = useState<WhatIfScenario>(EMPTY_SCENARIO);
+  const [goalTitle, setGoalTitle] = useState("");
+  const [goalHours, setGoalHours] = useState("");
+  const [goalPriority, setGoalPriority] = useState<Goal["priority"]>("medium");
+  const [goalDeadline, setGoalDeadline] = useState("");
+  const [progress, setProgress] = useState<SchedulerProgress | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const client = useRef<SchedulerWorkerClient | null>(null);
+
+  useEffect(() => () => client.current?.dispose(), []);
+
+  const updateScenario = (patch: Partial<WhatIfScenario>) => {
+    setScenario((s) => ({ ...s, ...patch }));
+    setPreview(null);
+  };
+
+  const setPolicyField = (key: keyof WeeklyPlannerPolicy, value: string | number | undefined) => {
+    const policyPatch = { ...scenario.policyPatch } as Record<string, unknown>;
+    if (value === undefined || value === "" || value === policy[key]) delete policyPatch[key];
+    else policyPatch[key] = value;
+    updateScenario({ policyPatch: policyPatch as Partial<WeeklyPlannerPolicy> });
+  };
+
+  const toggle = (list: number[], id: number) =>
+    list.includes(id) ? list.filter((x) => x !== id) : [...list, id];
+
+  const addGoal = () => {
+    if (!goalTitle || !(Number(goalHours) > 0)) return alert("Lütfen ders adı ve saat giriniz.");
+    updateScenario({
+      newGoals: [
+        ...scenario.newGoals,
+        {
+          title: goalTitle,
+          targetHours: Number(goalHours),
+          priority: goalPriority,
+          deadline: goalDeadline ? parseDeadline(goalDeadline) : undefined,
+          status: "active",
+        },
+      ],
+    });
+    setGoalTitle(""); setGoalHours(""); setGoalDeadline("");
+  };
+
+  const simulate = async () => {
+    const inputs = scenarioInputs(goals, constraints, policy, scenario);
+    client.current ??= new SchedulerWorkerClient();
+    try {
+      const result = await client.current.run(
+        { ...inputs, options: { sessions, reviews, pinned: plan, pinnedScoringKey: scoringKey(policy) } },
+        setProgress
+      );
+      const guardianConfig = await getGuardianConfig();
+      const before = analyzePlan(plan, goals, constraints, policy.maxStudyMinutesPerDay, {
+        sessions,
+        log: false,
+        policy,
+        config: guardianConfig,
+      });
+      const after = analyzePlan(
+        result.plan,
+        inputs.goals,
+        inputs.constraints,
+        inputs.policy.maxStudyMinutesPerDay,
+        { sessions, log: false, policy: inputs.policy, config: guardianConfig }
+      );
+      setPreview({
+        result,
+        goals: inputs.goals,
+        changes: diffPlans(plan, result.plan),
+        issues: compareIssues(before, after),
+      });
+    } catch (err) {
+      if (!(err instanceof SchedulerCancelledError)) console.error("What-if run failed:", err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const discard = () => {
+    client.current?.cancel();
+    setScenario(EMPTY_SCENARIO);
+    setPreview(null);
+  };
+
+  // Writes the scenario; the planner then re-plans from the stored data as usual.
+  const apply = async () => {
+    if (Object.keys(scenario.policyPatch).length > 0) {
+      await patchWeeklyPlannerPolicy(scenario.policyPatch);
+    }
+    for (const goal of scenario.newGoals) {
+      await db.goals.add(goal);
+    }
+    for (const goalId of scenario.postponedGoalIds) {
+      const payload: PostponePayload = { goalId, reason: "USER_CHOICE", note: "What-if simülasyonundan uygulandı" };
+      await logEvent(EVENT_TYPES.POSTPONE, payload, "WhatIfPanel");
+      await db.goals.update(goalId, { status: "postponed" });
+    }
+    for (const constraintId of scenario.disabledConstraintIds) {
+      await softDeleteConstraint(constraintId);
+    }
+    discard();
+  };
+
+  const minutesBefore = studyMinutesByGoal(plan);
+  const minutesAfter = preview ? studyMinutesByGoal(preview.result.plan) : new Map();
+  const goalDeltas = (preview?.goals ?? [])
+    .map((g) => ({
+      title: g.title,
+      before: minutesBefore.get(g.id ?? g.title) ?? 0,
+      after: minutesAfter.get(g.id ?? g.title) ?? 0,
+    }))
+    .filter((d) => d.before !== d.after);
+
+  return (
+    <details className="mt-6 bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+      <summary className="text-sm font-semibold text-gray-800 cursor-pointer">
+        🧪 What-if simülasyonu (kaydetmeden önizle)
+      </summary>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3 text-xs">
+        <div className="space-y-2">
+          <div className="font-semibold text-gray-700">Politika</div>
+          {POLICY_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block text-gray-600">
+              {label}
+              <input
+                className="mt-1 w-full border rounded px-2 py-1"
+                type="number"
+                min={0}
+                value={String(scenario.policyPatch[key] ?? policy[key])}
+                onChange={(e) => setPolicyField(key, e.target.value === "" ? undefined : Number(e.target.value))}
+              />
+            </label>
+          ))}
+          <label className="block text-gray-600">
+            Strateji
+            <select
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={scenario.policyPatch.schedulerStrategy ?? policy.schedulerStrategy}
+              onChange={(e) => setPolicyField("schedulerStrategy", e.target.value as SchedulerStrategy)}
+            >
+              <option value="greedy">Greedy</option>
+              <option value="local_search">Yerel arama</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="font-semibold text-gray-700">Yeni hedef</div>
+          <input className="w-full border rounded px-2 py-1" placeholder="Ders adı" value={goalTitle} onChange={(e) => setGoalTitle(e.target.value)} />
+          <div className="flex gap-2">
+            <input className="w-20 border rounded px-2 py-1" type="number" min={0} placeholder="Saat" value={goalHours} onChange={(e) => setGoalHours(e.target.value)} />
+            <select className="flex-1 border rounded px-2 py-1" value={goalPriority} onChange={(e) => setGoalPriority(e.target.value as Goal["priority"])}>
+              <option value="high">Yüksek</option>
+              <option value="medium">Orta</option>
+              <option value="low">Düşük</option>
+            </select>
+          </div>
+          <input className="w-full border rounded px-2 py-1" type="date" value={goalDeadline} onChange={(e) => setGoalDeadline(e.target.value)} />
+          <button onClick={addGoal} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700">
+            + Senaryoya ekle
+          </button>
+          {scenario.newGoals.map((g, i) => (
+            <div key={i} className="flex justify-between text-gray-700">
+              <span>{g.title} ({g.targetHours} sa)</span>
+              <button
+                className="text-gray-400 hover:text-red-500"
+                onClick={() => updateScenario({ newGoals: scenario.newGoals.filter((_, j) => j !== i) })}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="font-semibold text-gray-700">Ertele / devre dışı bırak</div>
+          {goals.filter((g) => g.status !== "postponed" && g.id !== undefined).map((g) => (
+            <label key={`g${g.id}`} className="flex items-center gap-2 text-gray-600">
+              <input
+                type="checkbox"
+                checked={scenario.postponedGoalIds.includes(g.id!)}
+                onChange={() => updateScenario({ postponedGoalIds: toggle(scenario.postponedGoalIds, g.id!) })}
+              />
+              {g.title}
+            </label>
+          ))}
+          {constraints.filter((c) => c.id !== undefined).map((c) => (
+            <label key={`c${c.id}`} className="flex items-center gap-2 text-gray-600">
+              <input
+                type="checkbox"
+                checked={scenario.disabledConstraintIds.includes(c.id!)}
+                onChange={() => updateScenario({ disabledConstraintIds: toggle(scenario.disabledConstraintIds, c.id!) })}
+              />
+              🚫 {c.title}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-4">
+        <button
+          onClick={simulate}
+          disabled={isEmptyScenario(scenario) || !!progress}
+          className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-xs font-semibold hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ▶️ Simüle Et
+        </button>
+        <button
+          onClick={apply}
+          disabled={!preview}
+          className="px-3 py-1.5 rounded-lg bg-green-600 text-white text-xs font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ✅ Uygula
+        </button>
+        <button
+          onClick={discard}
+          disabled={isEmptyScenario(scenario) && !preview}
+          className="px-3 py-1.5 rounded-lg bg-gray-600 text-white text-xs font-semibold hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Vazgeç
+        </button>
+        {progress && (
+          <span className="text-[11px] text-gray-500">
+            Simüle ediliyor… %{Math.round(progress.progress * 100)}
+          </span>
+        )}
+      </div>
+
+      {preview && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+          <div>
+            <div className="font-semibold text-gray-700 mb-1">
+              Slot farkı: {preview.changes.length} değişiklik
+            </div>
+            {goalDeltas.map((d) => (
+              <div key={d.title} className="text-gray-600">
+                {d.title}: {(d.before / 60).toFixed(1)} sa → {(d.after / 60).toFixed(1)} sa
+              </div>
+            ))}
+            <ul className="mt-2 space-y-0.5 max-h-48 overflow-y-auto">
+              {preview.changes.map((c) => (
+                <li key={`${c.date}-${c.startMinutes}`} className="font-mono text-[11px] text-gray-600">
+                  {c.dayName} {c.date} {formatTimeOfDay(c.startMinutes)}–{formatTimeOfDay(c.endMinutes)}:{" "}
+                  <span className="text-red-600">{slotLabel(c.before)}</span> →{" "}
+                  <span className="text-green-700">{slotLabel(c.after)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <div className="font-semibold text-gray-700 mb-1">Guardian farkı</div>
+            {preview.issues.added.length === 0 && preview.issues.resolved.length === 0 && (
+              <div className="text-gray-500">Sorunlarda değişiklik yok.</div>
+            )}
+            {preview.issues.added.map((issue, i) => (
+              <div key={`a${i}`} className="text-red-700">+ {issue.message}</div>
+            ))}
+            {preview.issues.resolved.map((issue, i) => (
+              <div key={`r${i}`} className="text-green-700">✓ {issue.message}</div>
+            ))}
+            {preview.result.unplaced.length > 0 && (
+              <div className="mt-2 text-orange-700">
+                Yerleşmeyen: {preview.result.unplaced.map((u) => `${u.goalTitle} (${u.unplacedMinutes} dk)`).join(", ")}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { explainGoal } from "../scheduler/explain";
+import { SchedulerRule } from "../scheduler/rules";
+import { formatTimeOfDay } from "../scheduler/calendar";
+import { WhyNotCandidate } from "../scheduler/types";
+import { WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { DayPlan } from "../types/plan";
+import { Goal, Session } from "../types/models";
+
+interface Props {
+  goals: Goal[];
+  /** Whole planning horizon, so the remaining effort is counted correctly */
+  plan: DayPlan[];
+  policy: WeeklyPlannerPolicy;
+  sessions: Session[];
+}
+
+// Short labels for the rejection summary
+const RULE_LABELS: Partial<Record<SchedulerRule, string>> = {
+  [SchedulerRule.GOAL_POSTPONED_SKIPPED]: "Ertelendi",
+  [SchedulerRule.SLOT_IN_PAST]: "Geçmiş gün",
+  [SchedulerRule.SLOT_AFTER_DEADLINE]: "Son tarihten sonra",
+  [SchedulerRule.CONSTRAINT_BLOCKED_SLOT]: "Kısıt",
+  [SchedulerRule.CONSTRAINT_DAY_OFF]: "İzin günü",
+  [SchedulerRule.SLOT_ALREADY_OCCUPIED]: "Başka hedef",
+  [SchedulerRule.SLOT_FORBIDDEN_WINDOW]: "Yasak pencere",
+  [SchedulerRule.SLOT_NOT_CONTIGUOUS]: "Kesintisiz yer yok",
+  [SchedulerRule.DAILY_STUDY_LIMIT_REACHED]: "Günlük limit",
+  [SchedulerRule.GOAL_DAILY_CAP_REACHED]: "Hedefin günlük sınırı",
+  [SchedulerRule.STUDY_BREAK_BUFFER]: "Mola",
+  [SchedulerRule.STUDY_MAX_CONSECUTIVE_REACHED]: "Kesintisiz sınır",
+  [SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY]: "Ön koşul",
+};
+
+const STATUS_STYLES: Record<WhyNotCandidate["status"], string> = {
+  placed: "bg-green-50 text-green-700",
+  available: "bg-blue-50 text-blue-700",
+  rejected: "bg-red-50 text-red-700",
+};
+
+const STATUS_LABELS: Record<WhyNotCandidate["status"], string> = {
+  placed: "Yerleşti",
+  available: "Uygun",
+  rejected: "Reddedildi",
+};
+
+/**
+ * "Neden olmadı?" panel: for a goal (and optionally a day or slot) lists the
+ * candidate blocks with their scores and the rule that rejected each one.
+ */
+export default function WhyNotPanel({ goals, plan, policy, sessions }: Props) {
+  const [goalId, setGoalId] = useState<number | "">("");
+  const [date, setDate] = useState("");
+  const [startMinutes, setStartMinutes] = useState<number | "">("");
+  const [showAll, setShowAll] = useState(false);
+
+  const goal = goals.find((g) => g.id === goalId);
+  const day = plan.find((d) => d.date === date);
+
+  const report = useMemo(
+    () =>
+      goal
+        ? explainGoal(goal, plan, policy, {
+            goals,
+            sessions,
+            date: date || undefined,
+            startMinutes: date && startMinutes !== "" ? startMinutes : undefined,
+          })
+        : null,
+    [goal, goals, plan, policy, sessions, date, startMinutes]
+  );
+
+  // Best-scoring candidates first
+  const candidates = useMemo(
+    () => [...(report?.candidates ?? [])].sort((a, b) => b.score - a.score),
+    [report]
+  );
+  const visible = showAll ? candidates : candidates.slice(0, 15);
+
+  return (
+    <details className="mt-6 bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+      <summary className="text-sm font-semibold text-gray-800 cursor-pointer">
+        🔍 Neden olmadı? (aday slotlar ve reddetme kuralları)
+      </summary>
+
+      <div className="flex flex-wrap gap-2 mt-3 text-xs">
+        <select
+          className="border rounded px-2 py-1"
+          value={goalId}
+          onChange={(e) => setGoalId(e.target.value === "" ? "" : Number(e.target.value))}
+        >
+          <option value="">Hedef seçin…</option>
+          {goals.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.title}
+            </option>
+          ))}
+        </select>
+        <select
+          className="border rounded px-2 py-1"
+          value={date}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setStartMinutes("");
+          }}
+        >
+          <option value="">Tüm günler</option>
+          {plan.map((d) => (
+            <option key={d.date ?? d.dayName} value={d.date}>
+              {d.dayName} {d.date}
+            </option>
+          ))}
+        </select>
+        <select
+          className="border rounded px-2 py-1"
+          value={startMinutes}
+          disabled={!day}
+          onChange={(e) => setStartMinutes(e.target.value === "" ? "" : Number(e.target.value))}
+        >
+          <option value="">Tüm saatler</option>
+          {day?.slots.map((s) => (
+            <option key={s.startMinutes} value={s.startMinutes}>
+              {formatTimeOfDay(s.startMinutes)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {report && (
+        <div className="mt-3 text-xs">
+          <div className="text-gray-700">
+            <span className="font-semibold">{report.goalTitle}</span>: planlanmamış{" "}
+            {report.unplannedMinutes} dk ·{" "}
+            {report.candidates.filter((c) => c.status === "placed").length} slot yerleşti ·{" "}
+            {report.candidates.filter((c) => c.status === "available").length} uygun aday
+          </div>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {(Object.entries(report.rejectedBy) as [SchedulerRule, number][]).map(([rule, count]) => (
+              <span key={rule} className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 border border-red-100">
+                {RULE_LABELS[rule] ?? rule}: {count}
+              </span>
+            ))}
+          </div>
+
+          <table className="w-full mt-3 text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-1">Gün / Saat</th>
+                <th>Blok</th>
+                <th>Skor</th>
+                <th>Durum</th>
+                <th>Neden</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((c) => (
+                <tr key={`${c.date}-${c.startMinutes}`} className="border-t border-gray-100 align-top">
+                  <td className="py-1 whitespace-nowrap">
+                    {c.dayName} {formatTimeOfDay(c.startMinutes)}
+                  </td>
+                  <td>{c.blockMinutes} dk</td>
+                  <td className="font-mono" title={`${c.scoreBreakdown.bucketWeight.toFixed(2)} × ${c.scoreBreakdown.windowFactor.toFixed(2)} × ${c.scoreBreakdown.dayFactor.toFixed(2)}`}>
+                    {c.score.toFixed(2)}
+                  </td>
+                  <td>
+                    <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[c.status]}`}>
+                      {STATUS_LABELS[c.status]}
+                    </span>
+                  </td>
+                  <td className="text-gray-600">{c.rationale.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {candidates.length > visible.length && (
+            <button onClick={() => setShowAll(true)} className="mt-2 text-blue-600 hover:underline">
+              Tümünü göster ({candidates.length})
+            </button>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
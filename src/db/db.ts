@@ -1,34 +1,8 @@
 import Dexie, { Table } from 'dexie';
+import type { Goal, Constraint, Session, ReviewItem } from '../types/models';
+import type { DayPlan } from '../types/plan';
 
-export interface Goal {
-  id?: number;
-  title: string;
-  targetHours: number;
-  priority: 'low' | 'medium' | 'high';
-  deadline?: Date;
-  status?: 'active' | 'postponed' | 'completed';
-  updatedAt?: number;
-  isDeleted?: boolean;
-}
-
-export interface Constraint {
-  id?: number;
-  title: string;
-  type: 'busy' | 'day_off';
-  duration: number;
-  day: string;
-  updatedAt?: number;
-  isDeleted?: boolean;
-}
-
-export interface Session {
-  id?: number;
-  goalId: number;
-  startTime: Date;
-  duration: number;
-  status: 'completed' | 'interrupted';
-  updatedAt?: number;
-}
+export type { Goal, Constraint, Session, ReviewItem };
 
 export interface PlannerLog {
   id?: number;
@@ -45,6 +19,14 @@ export interface SettingRecord<TValue = any> {
   updatedAt: number;
 }
 
+export interface PlanRecord {
+  weekKey: string; // YYYY-MM-DD of the week's Monday
+  days: DayPlan[];
+  /** Scoring settings the week was planned with (see scheduler/incremental.ts scoringKey) */
+  scoringKey?: string;
+  updatedAt: number;
+}
+
 // Sync event callback type
 type SyncCallback = () => void;
 let syncCallbacks: SyncCallback[] = [];
@@ -66,6 +48,8 @@ export class SelfDatabase extends Dexie {
   sessions!: Table<Session>;
   logs!: Table<PlannerLog>;
   settings!: Table<SettingRecord>;
+  plans!: Table<PlanRecord>;
+  reviews!: Table<ReviewItem>;
 
   constructor() {
     super('SelfDatabase');
@@ -122,6 +106,27 @@ export class SelfDatabase extends Dexie {
       trans.table('sessions').toCollection().modify({ updatedAt: now, version: 1, isDeleted: false });
     });
 
+    // Version 8: Persisted weekly plans (keyed by week, synced LWW like settings)
+    this.version(8).stores({
+      goals: '++id, title, deadline, priority, status, updatedAt',
+      constraints: '++id, type, day, updatedAt',
+      sessions: '++id, goalId, startTime, status, updatedAt',
+      logs: '++id, type, ts, updatedAt',
+      settings: '&key, updatedAt',
+      plans: '&weekKey, updatedAt'
+    });
+
+    // Version 9: Spaced-repetition review items (local, like sessions)
+    this.version(9).stores({
+      goals: '++id, title, deadline, priority, status, updatedAt',
+      constraints: '++id, type, day, updatedAt',
+      sessions: '++id, goalId, startTime, status, updatedAt',
+      logs: '++id, type, ts, updatedAt',
+      settings: '&key, updatedAt',
+      plans: '&weekKey, updatedAt',
+      reviews: '++id, goalId, dueDate, status, updatedAt'
+    });
+
     // Add middleware to auto-set updatedAt and trigger sync on changes
     this.use({
       stack: 'dbcore',
@@ -183,6 +188,16 @@ export async function softDeleteConstraint(id: number): Promise<void> {
   });
 }
 
+// Skips a single occurrence of a (recurring) constraint, e.g. a holiday
+export async function addConstraintException(id: number, date: string): Promise<void> {
+  const constraint = await db.constraints.get(id);
+  if (!constraint || constraint.exceptions?.includes(date)) return;
+  await db.constraints.update(id, {
+    exceptions: [...(constraint.exceptions ?? []), date].sort(),
+    updatedAt: Date.now()
+  });
+}
+
 // Helper to get only active (non-deleted) goals
 export function getActiveGoals() {
   return db.goals.filter(g => !g.isDeleted).toArray();
@@ -1,95 +1,98 @@
-import { DayPlan, Slot } from "../types/plan";
-import { Goal, Constraint } from "../db/db";
-import { GuardianIssue } from "./types";
+import { DayPlan } from "../types/plan";
+import { Goal, Constraint, Session, PlannerLog } from "../db/db";
+import { GuardianConfig, GuardianIssue } from "./types";
 import { EVENT_TYPES } from "../observer/events";
 import { logEvent } from "../observer/logging";
+import { completedMinutesByGoal } from "../lib/goalProgress";
+import { toISODate } from "../scheduler/calendar";
+import { WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { isIssueStateLive, runGuardianRules } from "./registry";
+import { pruneIssueStates } from "./guardianSettings";
+
+// Issue ids of the last logged run: an issue is logged once, not on every re-analysis
+let reportedIssueIds = new Set<string>();
+
+export interface AnalyzeOptions {
+    sessions?: Session[];
+    /** Log new issues as GUARDIAN_WARNING (off for previews). Defaults to true. */
+    log?: boolean;
+    policy?: WeeklyPlannerPolicy;
+    config?: GuardianConfig;
+    logs?: PlannerLog[];
+    /**
+     * Week of the analyzed plan: acknowledgements made in that week whose
+     * issue this analysis no longer reports are dropped. Only for a complete
+     * analysis (all data loaded).
+     */
+    pruneWeekKey?: string;
+}
 
 /**
- * Analyzes the weekly plan for potential issues.
+ * Analyzes the weekly plan for potential issues with the registered Guardian
+ * rules (see registry.ts). Policy violations and goal feasibility are only
+ * checked when the policy is given; `config` carries the user's rule settings
+ * and acknowledged/snoozed issues, which are left out of the result. The
+ * burnout/adherence rules read `sessions` and the observer `logs`.
  */
 export function analyzePlan(
     plan: DayPlan[],
     goals: Goal[],
     constraints: Constraint[],
-    maxStudyMinutesPerDay: number
+    maxStudyMinutesPerDay: number,
+    { sessions = [], log = true, policy, config, logs = [], pruneWeekKey }: AnalyzeOptions = {}
 ): GuardianIssue[] {
-    const issues: GuardianIssue[] = [];
     const now = new Date();
+    const { issues, hidden } = runGuardianRules(
+        {
+            plan,
+            goals,
+            constraints,
+            sessions,
+            logs,
+            maxStudyMinutesPerDay,
+            policy,
+            now,
+            completed: completedMinutesByGoal(sessions),
+            fixContext: { maxStudyMinutesPerDay, today: toISODate(now) },
+        },
+        config
+    );
 
-    // 1. Check for Conflicts (Soft check - since scheduler avoids conflicts, we look for manual overlaps or errors)
-    // Note: The current Slot structure aligns slots by time, making physical overlap impossible in the grid,
-    // but we can check if a constraint was overwritten or ignored.
-    // For now, let's assume the grid ensures no literal time overlap.
-
-    // 2. Check for Overload
-    plan.forEach(day => {
-        const studyMinutes = day.slots.reduce((acc, slot) => {
-            return slot.type === 'study' ? acc + 30 : acc;
-        }, 0);
-
-        if (studyMinutes > maxStudyMinutesPerDay) {
-            issues.push({
-                type: 'OVERLOAD',
-                severity: 'warning',
-                message: `${day.dayName}: Günlük çalışma limiti aşıldı (${studyMinutes / 60}sa / ${maxStudyMinutesPerDay / 60}sa).`,
-                relatedDate: day.dayName,
-                suggestedFix: {
-                    action: 'reduce',
-                    description: 'Bazı çalışma bloklarını başka güne taşıyın veya azaltın.'
-                }
-            });
-        }
-    });
-
-    // 3. Exam Proximity & Missed Deadlines
-    goals.forEach(g => {
-        if (!g.deadline) return;
-
-        const deadline = new Date(g.deadline);
-        const diffTime = deadline.getTime() - now.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-        if (diffDays < 0 && g.status !== 'completed') {
-            issues.push({
-                type: 'MISSED_DEADLINE',
-                severity: 'critical',
-                message: `"${g.title}" hedefinin süresi dolmuş (${Math.abs(diffDays)} gün önce).`,
-                relatedGoalId: g.id,
-                suggestedFix: {
-                    action: 'ignore', // Or maybe reschedule?
-                    description: 'Hedefi tamamlandı olarak işaretleyin veya yeni bir tarih belirleyin.'
-                }
-            });
-        } else if (diffDays >= 0 && diffDays <= 3 && g.status !== 'completed') {
-            // Check if we have enough blocks scheduled for this goal
-            const goalBlocks = plan.flatMap(d => d.slots).filter(s => s.label === g.title).length;
-            const assignedMinutes = goalBlocks * 30;
-            const neededMinutes = (g.targetHours * 60); // This is total target, ideally we check remaining.
-            // Assume targetHours is what's left for simplicity or we'd need tracking of "completed" amount.
-
-            // If assigned is significantly less than target in this crunch time
-            if (assignedMinutes < neededMinutes * 0.5) {
-                issues.push({
-                    type: 'EXAM_PROXIMITY',
-                    severity: 'warning',
-                    message: `"${g.title}" için son ${diffDays} gün! Planlanan çalışma yetersiz görünüyor.`,
-                    relatedGoalId: g.id,
-                    suggestedFix: {
-                        action: 'move',
-                        description: 'Bu hedefe daha fazla öncelik verin.'
-                    }
-                });
-            }
+    // Log new issues only (not for previews such as the what-if sandbox)
+    if (log) {
+        const newIssues = issues.filter(i => !reportedIssueIds.has(i.id as string));
+        reportedIssueIds = new Set(issues.map(i => i.id as string));
+        if (newIssues.length > 0) {
+            logEvent(EVENT_TYPES.GUARDIAN_WARNING, {
+                issueCount: newIssues.length,
+                totalCount: issues.length,
+                issues: newIssues
+            }, 'GuardianAgent');
         }
-    });
+    }
 
-    // Log issues if any
-    if (issues.length > 0) {
-        logEvent(EVENT_TYPES.GUARDIAN_WARNING, {
-            issueCount: issues.length,
-            issues: issues
-        }, 'GuardianAgent');
+    if (pruneWeekKey) {
+        const present = new Set([...issues, ...hidden].map(i => i.id as string));
+        void pruneIssueStates((id, state) => isIssueStateLive(id, state, present, pruneWeekKey, config, now));
     }
 
     return issues;
 }
+
+const issueKey = (issue: GuardianIssue) => `${issue.type}|${issue.message}`;
+
+/**
+ * Issue delta between two analyses (e.g. the current plan and a what-if
+ * preview). Issues are matched by type and message.
+ */
+export function compareIssues(
+    before: GuardianIssue[],
+    after: GuardianIssue[]
+): { added: GuardianIssue[]; resolved: GuardianIssue[] } {
+    const beforeKeys = new Set(before.map(issueKey));
+    const afterKeys = new Set(after.map(issueKey));
+    return {
+        added: after.filter(i => !beforeKeys.has(issueKey(i))),
+        resolved: before.filter(i => !afterKeys.has(issueKey(i))),
+    };
+}
@@ -0,0 +1,303 @@
+import type { PlannerLog } from "../db/db";
+import type { Session } from "../types/models";
+import { DayPlan } from "../types/plan";
+import { WeeklyPlannerPolicy, clamp } from "../tuner/weeklyPlannerPolicy";
+import { EVENT_TYPES } from "../observer/events";
+import { DAY_MS, addDays, toISODate } from "../scheduler/calendar";
+import { slotMinutesOf } from "../scheduler/weeklyScheduler";
+import { PostponePayload, SchedulerRunPayload } from "../types/analytics";
+import { GuardianIssue, PolicySuggestion } from "./types";
+
+/**
+ * Burnout / adherence detectors: unlike the plan rules they read the observer
+ * history (db.logs) and the Pomodoro sessions. Every issue carries its
+ * evidence (log and session ids, counts) and the policy changes that would
+ * make the next plans lighter.
+ */
+
+const STREAK_EVENT_TYPES: string[] = [EVENT_TYPES.FOCUS, EVENT_TYPES.POSTPONE, EVENT_TYPES.CANCEL];
+
+/** Log types the detectors read; the planner only loads these. */
+export const ADHERENCE_EVENT_TYPES: string[] = [...STREAK_EVENT_TYPES, EVENT_TYPES.SCHEDULER_RUN];
+
+// Sessions before this hour count for the previous night
+const NIGHT_ENDS_HOUR = 5;
+
+const percent = (rate: number) => Math.round(rate * 100);
+const hours = (minutes: number) => Math.round(minutes / 6) / 10;
+const sessionStart = (s: Session) => new Date(s.startTime);
+const ids = (items: { id?: number }[]) => items.flatMap((i) => (i.id === undefined ? [] : [i.id]));
+
+function lowerDailyLimit(policy: WeeklyPlannerPolicy, to: number): PolicySuggestion | null {
+  const limit = Math.max(60, Math.floor(to / 30) * 30);
+  if (limit >= policy.maxStudyMinutesPerDay) return null;
+  return {
+    patch: { maxStudyMinutesPerDay: limit },
+    description: `Günlük çalışma limitini ${hours(limit)} saate düşürün.`,
+  };
+}
+
+function shorterBlocks(policy: WeeklyPlannerPolicy): PolicySuggestion | null {
+  const block = Math.max(30, policy.baseStudyBlockMinutes - 30);
+  if (block >= policy.baseStudyBlockMinutes) return null;
+  // A consecutive limit at or above the daily cap is not in effect; it stays off
+  const limited = policy.maxConsecutiveStudyMinutes < policy.maxStudyMinutesPerDay;
+  return {
+    patch: limited
+      ? { baseStudyBlockMinutes: block, maxConsecutiveStudyMinutes: Math.max(block, policy.maxConsecutiveStudyMinutes - 30) }
+      : { baseStudyBlockMinutes: block },
+    description: `Çalışma bloklarını ${block} dakikaya kısaltın.`,
+  };
+}
+
+// Same direction as the tuner's "evening pain" heuristic (tuner/TunerAgent.ts)
+function lighterEvenings(policy: WeeklyPlannerPolicy): PolicySuggestion | null {
+  const eveningWeight = clamp(policy.eveningWeight - 0.1, 0.55, 1.0);
+  const eveningStudyBlockMinutes = Math.min(60, policy.eveningStudyBlockMinutes);
+  if (eveningWeight === policy.eveningWeight && eveningStudyBlockMinutes === policy.eveningStudyBlockMinutes) return null;
+  return {
+    patch: { eveningWeight, eveningStudyBlockMinutes },
+    description: "Akşam saatlerine daha az ve daha kısa blok yerleştirin.",
+  };
+}
+
+const suggestions = (...items: (PolicySuggestion | null)[]) => items.filter((s): s is PolicySuggestion => s !== null);
+
+/**
+ * The current run of POSTPONE/CANCEL events (no FOCUS in between) within the
+ * last `lookbackDays`. Mostly overload/time-conflict reasons suggest a lower
+ * daily limit, otherwise shorter blocks.
+ */
+export function findPostponeStreak(
+  logs: PlannerLog[],
+  policy: WeeklyPlannerPolicy | undefined,
+  { minStreak, lookbackDays }: { minStreak: number; lookbackDays: number },
+  now: Date
+): GuardianIssue[] {
+  const fromTs = now.getTime() - lookbackDays * DAY_MS;
+  const events = logs
+    .filter((e) => e.ts >= fromTs && e.ts <= now.getTime() && STREAK_EVENT_TYPES.includes(e.type))
+    .sort((a, b) => a.ts - b.ts);
+
+  const lastFocus = events.map((e) => e.type).lastIndexOf(EVENT_TYPES.FOCUS);
+  const streak = events.slice(lastFocus + 1);
+  if (streak.length < minStreak) return [];
+
+  const postpones = streak.filter((e) => e.type === EVENT_TYPES.POSTPONE);
+  const overloaded = postpones.filter((e) => {
+    const reason = (e.payload as PostponePayload | undefined)?.reason;
+    return reason === "OVERLOAD" || reason === "TIME_CONFLICT";
+  }).length;
+  const goalIds = new Set(streak.map((e) => e.payload?.goalId));
+
+  return [{
+    type: "POSTPONE_STREAK",
+    severity: "warning",
+    message: `Son ${streak.length} görev art arda ertelendi veya iptal edildi (${postpones.length} erteleme, ${streak.length - postpones.length} iptal), arada odak oturumu yok.`,
+    relatedGoalId: goalIds.size === 1 ? streak[0].payload?.goalId : undefined,
+    relatedDate: toISODate(new Date(streak[0].ts)),
+    evidence: {
+      eventIds: ids(streak),
+      counts: { postpone: postpones.length, cancel: streak.length - postpones.length, overloadReasons: overloaded },
+    },
+    suggestedFix: {
+      action: "reduce",
+      description: "Plan fazla yüklü olabilir; günlük yükü veya blok uzunluğunu azaltın.",
+    },
+    policySuggestions: policy
+      ? overloaded * 2 >= postpones.length && postpones.length > 0
+        ? suggestions(lowerDailyLimit(policy, policy.maxStudyMinutesPerDay - 60), shorterBlocks(policy))
+        : suggestions(shorterBlocks(policy), lowerDailyLimit(policy, policy.maxStudyMinutesPerDay - 60))
+      : undefined,
+  }];
+}
+
+/**
+ * Study/review minutes per date from `from` on, logged with every
+ * SCHEDULER_RUN so the missed-focus rule can read what was planned for a day
+ * after the plan itself has been rewritten.
+ */
+export function plannedMinutesByDate(plan: DayPlan[], from: string): Record<string, number> {
+  return Object.fromEntries(
+    plan
+      .filter((d) => d.date && d.date >= from)
+      .map((d) => [d.date as string, d.slots.filter((s) => s.type === "study" || s.type === "review").length * slotMinutesOf(d)])
+  );
+}
+
+/**
+ * Days of the last `lookbackDays` that were planned with study blocks but have
+ * no FOCUS event and no session. What was planned for a day comes from the
+ * SCHEDULER_RUN history: the last run before the day began (or the first one
+ * on that day), not from the current plan, which later runs rewrite. Stays
+ * quiet when nothing was ever tracked (no evidence either way). The suggested
+ * daily limit is what was actually studied on the planned days.
+ */
+export function findMissedFocusDays(
+  logs: PlannerLog[],
+  sessions: Session[],
+  policy: WeeklyPlannerPolicy | undefined,
+  { minDays, lookbackDays }: { minDays: number; lookbackDays: number },
+  now: Date
+): GuardianIssue[] {
+  const focus = logs.filter((e) => e.type === EVENT_TYPES.FOCUS);
+  if (focus.length === 0 && sessions.length === 0) return [];
+
+  const studiedMinutes = new Map<string, number>();
+  for (const s of sessions) {
+    const date = toISODate(sessionStart(s));
+    studiedMinutes.set(date, (studiedMinutes.get(date) ?? 0) + s.duration);
+  }
+  const focusDates = new Set(focus.map((e) => toISODate(new Date(e.ts))));
+
+  const plannedOf = (run: PlannerLog) => (run.payload as SchedulerRunPayload | undefined)?.plannedMinutes ?? {};
+  const runs = logs.filter((e) => e.type === EVENT_TYPES.SCHEDULER_RUN).sort((a, b) => a.ts - b.ts);
+
+  const planned = Array.from({ length: lookbackDays }, (_, i) => toISODate(addDays(now, i - lookbackDays)))
+    .flatMap((date) => {
+      const dayStart = new Date(`${date}T00:00:00`).getTime();
+      const covering = runs.filter((r) => plannedOf(r)[date] !== undefined && r.ts < dayStart + DAY_MS);
+      const run = covering.filter((r) => r.ts < dayStart).pop() ?? covering[0];
+      return run ? [{ date, minutes: plannedOf(run)[date], run }] : [];
+    })
+    .filter((d) => d.minutes > 0);
+  const missed = planned.filter((d) => !focusDates.has(d.date) && !studiedMinutes.has(d.date));
+  if (missed.length < minDays) return [];
+
+  const plannedMinutes = planned.reduce((sum, d) => sum + d.minutes, 0);
+  const studied = planned.reduce((sum, d) => sum + (studiedMinutes.get(d.date) ?? 0), 0);
+
+  return [{
+    type: "MISSED_FOCUS",
+    severity: "warning",
+    message: `Planlanan ${planned.length} günün ${missed.length} gününde hiç odak oturumu yok.`,
+    relatedDate: missed[0].date,
+    evidence: {
+      eventIds: ids([...new Set(planned.map((d) => d.run))]),
+      dates: missed.map((d) => d.date),
+      counts: { missedDays: missed.length, plannedDays: planned.length, plannedMinutes, studiedMinutes: studied },
+    },
+    suggestedFix: {
+      action: "reduce",
+      description: "Planı gerçekte çalışabildiğiniz süreye yaklaştırın.",
+    },
+    policySuggestions: policy ? suggestions(lowerDailyLimit(policy, studied / planned.length)) : undefined,
+  }];
+}
+
+/**
+ * Share of interrupted sessions in the last `windowDays` against the window
+ * before it; flagged when it is high and rising.
+ */
+export function findInterruptionTrend(
+  sessions: Session[],
+  policy: WeeklyPlannerPolicy | undefined,
+  { windowDays, minSessions, minRate, minIncrease }: { windowDays: number; minSessions: number; minRate: number; minIncrease: number },
+  now: Date
+): GuardianIssue[] {
+  const end = now.getTime();
+  const windowMs = windowDays * DAY_MS;
+  const inRange = (from: number, to: number) =>
+    sessions.filter((s) => sessionStart(s).getTime() > from && sessionStart(s).getTime() <= to);
+  const recent = inRange(end - windowMs, end);
+  const previous = inRange(end - 2 * windowMs, end - windowMs);
+  if (recent.length < minSessions) return [];
+
+  const interrupted = recent.filter((s) => s.status === "interrupted");
+  const previousInterrupted = previous.filter((s) => s.status === "interrupted");
+  const rate = interrupted.length / recent.length;
+  const previousRate = previous.length > 0 ? previousInterrupted.length / previous.length : 0;
+  if (rate < minRate || rate - previousRate < minIncrease) return [];
+
+  return [{
+    type: "INTERRUPTION_RATE",
+    severity: "warning",
+    message: `Yarıda kalan oturumlar artıyor: son ${windowDays} günde %${percent(rate)} (önceki dönem %${percent(previousRate)}).`,
+    evidence: {
+      sessionIds: ids(interrupted),
+      counts: {
+        sessions: recent.length,
+        interrupted: interrupted.length,
+        previousSessions: previous.length,
+        previousInterrupted: previousInterrupted.length,
+      },
+    },
+    suggestedFix: {
+      action: "split",
+      description: "Daha kısa bloklar ve daha sık molalar deneyin.",
+    },
+    policySuggestions: policy
+      ? suggestions(shorterBlocks(policy), {
+          patch: { breakMinutes: policy.breakMinutes + 5 },
+          description: `Blok arası molayı ${policy.breakMinutes + 5} dakikaya çıkarın.`,
+        })
+      : undefined,
+  }];
+}
+
+/**
+ * Runs of consecutive nights with a session or FOCUS event after `lateHour`
+ * (or before 05:00, counted for the previous night). The latest run of at
+ * least `minNights` within the last `lookbackDays` is reported.
+ */
+export function findLateNightRuns(
+  sessions: Session[],
+  logs: PlannerLog[],
+  policy: WeeklyPlannerPolicy | undefined,
+  { lateHour, minNights, lookbackDays }: { lateHour: number; minNights: number; lookbackDays: number },
+  now: Date
+): GuardianIssue[] {
+  const fromTs = now.getTime() - lookbackDays * DAY_MS;
+  const isLate = (date: Date) => date.getHours() >= lateHour || date.getHours() < NIGHT_ENDS_HOUR;
+  const nightOf = (date: Date) => toISODate(date.getHours() < NIGHT_ENDS_HOUR ? addDays(date, -1) : date);
+
+  const lateSessions = sessions.filter((s) => {
+    const start = sessionStart(s);
+    return start.getTime() >= fromTs && start.getTime() <= now.getTime() && isLate(start);
+  });
+  const lateEvents = logs.filter(
+    (e) => e.type === EVENT_TYPES.FOCUS && e.ts >= fromTs && e.ts <= now.getTime() && isLate(new Date(e.ts))
+  );
+  const nights = [
+    ...new Set([...lateSessions.map((s) => nightOf(sessionStart(s))), ...lateEvents.map((e) => nightOf(new Date(e.ts)))]),
+  ].sort();
+
+  // Latest run of consecutive nights that is long enough
+  let run: string[] = [];
+  let current: string[] = [];
+  for (const night of nights) {
+    const previous = current[current.length - 1];
+    const consecutive = previous !== undefined && toISODate(addDays(new Date(`${previous}T00:00:00`), 1)) === night;
+    current = consecutive ? [...current, night] : [night];
+    if (current.length >= minNights) run = current;
+  }
+  if (run.length === 0) return [];
+
+  const inRun = (date: Date) => run.includes(nightOf(date));
+  const lastHour = Math.min(23, lateHour - 1);
+
+  return [{
+    type: "LATE_NIGHT",
+    severity: "warning",
+    message: `${run.length} gece art arda geç saatte (${lateHour}:00 sonrası) çalışıldı.`,
+    relatedDate: run[0],
+    evidence: {
+      eventIds: ids(lateEvents.filter((e) => inRun(new Date(e.ts)))),
+      sessionIds: ids(lateSessions.filter((s) => inRun(sessionStart(s)))),
+      dates: run,
+      counts: { nights: run.length },
+    },
+    suggestedFix: {
+      action: "move",
+      description: "Akşam çalışmalarını güne yayın ve gece geç saatleri boş bırakın.",
+    },
+    policySuggestions: policy
+      ? suggestions(
+          policy.dayEndHour > lastHour
+            ? { patch: { dayEndHour: lastHour }, description: `Günü ${lastHour}:00'de bitirin.` }
+            : null,
+          lighterEvenings(policy)
+        )
+      : undefined,
+  }];
+}
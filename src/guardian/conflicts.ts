@@ -0,0 +1,344 @@
+import { DayPlan, Slot } from "../types/plan";
+import { Constraint, Goal } from "../types/models";
+import { GuardianIssue } from "./types";
+import { FixContext, findFreeRun, slotRef } from "./fixes";
+import { WeeklyPlannerPolicy, bucketForHour, dayWindowFor } from "../tuner/weeklyPlannerPolicy";
+import { formatTimeOfDay, startOfWeek, toISODate } from "../scheduler/calendar";
+import { fixedTimeRange, isDatedConstraint, occursOn } from "../scheduler/recurrence";
+import { WEEK_DAYS, slotMinutesOf } from "../scheduler/weeklyScheduler";
+
+/**
+ * Plan consistency checks. A fresh scheduler run never produces these, but
+ * stored plans can: pins and manual moves survive later constraint edits,
+ * plans arrive through sync, and old records may use another slot size.
+ */
+
+const isStudy = (slot: Slot) => slot.type === "study" || slot.type === "review";
+const dateOf = (day: DayPlan) => (day.date ? new Date(`${day.date}T00:00:00`) : undefined);
+const timeRange = (start: number, end: number) => `${formatTimeOfDay(start)}–${formatTimeOfDay(end)}`;
+const titles = (slots: Slot[]) => [...new Set(slots.map((s) => s.label ?? "?"))].join(", ");
+const goalKey = (slot?: Slot) => slot?.goalId ?? slot?.label;
+const isConstraintSlot = (slot: Slot, c: Constraint) =>
+  slot.type === "busy" && (slot.constraintId !== undefined ? slot.constraintId === c.id : slot.label === c.title);
+
+/**
+ * Study/review slots on a day off or inside a timed constraint. The fix moves
+ * the first overlapping block to a free run (same day first, outside the range).
+ */
+export function findConstraintOverlaps(
+  plan: DayPlan[],
+  constraints: Constraint[],
+  context: FixContext
+): GuardianIssue[] {
+  const issues: GuardianIssue[] = [];
+  const dated = constraints.filter((c) => !c.isDeleted && isDatedConstraint(c, WEEK_DAYS));
+
+  for (const day of plan) {
+    const date = dateOf(day);
+    if (!date) continue;
+    const slotMinutes = slotMinutesOf(day);
+
+    for (const c of dated) {
+      if (!occursOn(c, date, WEEK_DAYS)) continue;
+      const range = c.type === "day_off" ? undefined : fixedTimeRange(c);
+      // Untimed occurrences are placed around the study, they cannot overlap it
+      if (c.type !== "day_off" && !range) continue;
+
+      const hits = day.slots.filter(
+        (s) => isStudy(s) && (!range || (s.startMinutes < range.end && range.start < s.startMinutes + slotMinutes))
+      );
+      if (hits.length === 0) continue;
+
+      const first = day.slots.indexOf(hits[0]);
+      let len = 1;
+      while (hits.includes(day.slots[first + len]) && goalKey(day.slots[first + len]) === goalKey(hits[0])) len++;
+      const to = findFreeRun(plan, len, context, {
+        fromDate: day.date,
+        excludeDate: range ? undefined : day.date,
+        accept: (d, start) =>
+          !range || d.date !== day.date || start >= range.end || start + slotMinutesOf(d) <= range.start,
+      });
+
+      issues.push({
+        type: "CONFLICT",
+        severity: "critical",
+        message: range
+          ? `${day.dayName} ${timeRange(range.start, range.end)}: "${titles(hits)}" bloğu "${c.title}" kısıtıyla çakışıyor.`
+          : `${day.dayName}: "${c.title}" izin gününde çalışma planlanmış (${titles(hits)}).`,
+        relatedGoalId: hits.find((s) => s.goalId !== undefined)?.goalId,
+        relatedDate: day.date,
+        suggestedFix: {
+          action: "move",
+          description: "Çakışan bloğu boş bir slota taşıyın veya sabitlemesini kaldırın.",
+          operation: to && { kind: "move", from: slotRef(day, hits[0].startMinutes), slots: len, to },
+        },
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Slots that share time on the same date: the same goal twice (duplicated
+ * block, the later entry is dropped) or two different occupants (the study
+ * one is moved away).
+ */
+export function findOverlappingSlots(plan: DayPlan[], context: FixContext): GuardianIssue[] {
+  const byDate = new Map<string, { day: DayPlan; slot: Slot; end: number }[]>();
+  for (const day of plan) {
+    const key = day.date ?? day.dayName;
+    const entries = byDate.get(key) ?? [];
+    for (const slot of day.slots) {
+      if (slot.type !== "free") entries.push({ day, slot, end: slot.startMinutes + slotMinutesOf(day) });
+    }
+    byDate.set(key, entries);
+  }
+
+  const issues = new Map<string, GuardianIssue>();
+  for (const entries of byDate.values()) {
+    entries.sort((a, b) => a.slot.startMinutes - b.slot.startMinutes);
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length && entries[j].slot.startMinutes < entries[i].end; j++) {
+        const a = entries[i];
+        const b = entries[j];
+        const sameGoal =
+          a.slot.type === b.slot.type &&
+          (a.slot.goalId !== undefined ? a.slot.goalId === b.slot.goalId : a.slot.label === b.slot.label);
+        const time = timeRange(b.slot.startMinutes, Math.min(a.end, b.end));
+        const movable = [b, a].find((e) => isStudy(e.slot));
+        const to = !sameGoal && movable ? findFreeRun(plan, 1, context, { fromDate: movable.day.date }) : undefined;
+
+        const issue: GuardianIssue = sameGoal
+          ? {
+              type: "CONFLICT",
+              severity: "warning",
+              message: `${a.day.dayName}: "${a.slot.label}" bloğu aynı saatte birden fazla kez planlanmış (${time}).`,
+              relatedGoalId: a.slot.goalId,
+              relatedDate: a.day.date ?? a.day.dayName,
+              suggestedFix: {
+                action: "reduce",
+                description: "Tekrarlanan bloklardan birini silin.",
+                operation: {
+                  kind: "reduce",
+                  date: b.day.date,
+                  dayName: b.day.dayName,
+                  startMinutes: [b.slot.startMinutes],
+                },
+              },
+            }
+          : {
+              type: "CONFLICT",
+              severity: "critical",
+              message: `${a.day.dayName} ${time}: "${a.slot.label}" ile "${b.slot.label}" aynı saate düşüyor.`,
+              relatedGoalId: a.slot.goalId ?? b.slot.goalId,
+              relatedDate: a.day.date ?? a.day.dayName,
+              suggestedFix: {
+                action: "move",
+                description: "Bloklardan birini boş bir slota taşıyın.",
+                operation: movable && to && {
+                  kind: "move",
+                  from: slotRef(movable.day, movable.slot.startMinutes),
+                  slots: 1,
+                  to,
+                },
+              },
+            };
+        // One issue per goal and day for duplicates, per pair for overlaps
+        const key = sameGoal
+          ? `dup|${a.day.date ?? a.day.dayName}|${a.slot.goalId ?? a.slot.label}`
+          : issue.message;
+        if (!issues.has(key)) issues.set(key, issue);
+      }
+    }
+  }
+  return [...issues.values()];
+}
+
+/**
+ * Policy violations: study outside the day's planning window and evening
+ * blocks longer than eveningStudyBlockMinutes (or the goal's preferred length).
+ * Back-to-back blocks of one goal read as a single block. Fixes move the
+ * block into a window or split the evening block, preferably off the evening.
+ */
+export function findPolicyViolations(
+  plan: DayPlan[],
+  goals: Goal[],
+  policy: WeeklyPlannerPolicy,
+  context: FixContext
+): GuardianIssue[] {
+  const issues: GuardianIssue[] = [];
+  const windowOf = (day: DayPlan) => {
+    const date = dateOf(day);
+    const window = dayWindowFor(policy, Math.max(0, date ? (date.getDay() + 6) % 7 : WEEK_DAYS.indexOf(day.dayName)));
+    return { start: window.startHour * 60, end: window.endHour * 60 };
+  };
+  const insideWindow = (day: DayPlan, start: number) => {
+    const window = windowOf(day);
+    return start >= window.start && start + slotMinutesOf(day) <= window.end;
+  };
+
+  for (const day of plan) {
+    const slotMinutes = slotMinutesOf(day);
+    const { start: windowStart, end: windowEnd } = windowOf(day);
+
+    const outside = day.slots.filter((s) => isStudy(s) && !insideWindow(day, s.startMinutes));
+    if (outside.length > 0) {
+      const first = day.slots.indexOf(outside[0]);
+      let len = 1;
+      while (outside.includes(day.slots[first + len]) && goalKey(day.slots[first + len]) === goalKey(outside[0])) len++;
+      const to = findFreeRun(plan, len, context, { fromDate: day.date, accept: insideWindow });
+
+      issues.push({
+        type: "POLICY_VIOLATION",
+        severity: "warning",
+        message: `${day.dayName}: ${outside.length} çalışma slotu planlama penceresinin (${timeRange(windowStart, windowEnd)}) dışında (${titles(outside)}).`,
+        relatedGoalId: outside[0].goalId,
+        relatedDate: day.date ?? day.dayName,
+        suggestedFix: {
+          action: "move",
+          description: "Blokları pencere içine taşıyın veya günün planlama penceresini genişletin.",
+          operation: to && { kind: "move", from: slotRef(day, outside[0].startMinutes), slots: len, to },
+        },
+      });
+    }
+
+    // Evening blocks: consecutive study slots of one goal starting in the evening bucket
+    for (let s = 0; s < day.slots.length; ) {
+      const slot = day.slots[s];
+      if (slot.type !== "study") {
+        s++;
+        continue;
+      }
+      const key = slot.goalId ?? slot.label;
+      let len = 1;
+      while (day.slots[s + len]?.type === "study" && (day.slots[s + len].goalId ?? day.slots[s + len].label) === key) {
+        len++;
+      }
+      s += len;
+
+      if (bucketForHour(Math.floor(slot.startMinutes / 60), policy) !== "evening") continue;
+      const goal = goals.find((g) => (slot.goalId !== undefined ? g.id === slot.goalId : g.title === slot.label));
+      // Same length the scheduler would use (rounded to slots, never below the goal's minimum block)
+      const limit = Math.max(
+        goal?.minBlockMinutes ?? 0,
+        Math.round((goal?.preferredBlockMinutes ?? policy.eveningStudyBlockMinutes) / slotMinutes) * slotMinutes
+      );
+      const minutes = len * slotMinutes;
+      if (minutes <= limit) continue;
+
+      const keepSlots = Math.max(1, Math.floor(limit / slotMinutes));
+      const tail = len - keepSlots;
+      const to =
+        findFreeRun(plan, tail, context, {
+          fromDate: day.date,
+          accept: (d, start) => bucketForHour(Math.floor(start / 60), policy) !== "evening",
+        }) ?? findFreeRun(plan, tail, context, { fromDate: day.date });
+
+      issues.push({
+        type: "POLICY_VIOLATION",
+        severity: "warning",
+        message: `${day.dayName} ${timeRange(slot.startMinutes, slot.startMinutes + minutes)}: "${slot.label}" akşam bloğu ${minutes} dk, akşam sınırı ${limit} dk.`,
+        relatedGoalId: slot.goalId,
+        relatedDate: day.date ?? day.dayName,
+        suggestedFix: {
+          action: "split",
+          description: `Bloğu en fazla ${limit} dakikalık parçalara bölün veya bir kısmını gündüze taşıyın.`,
+          operation: to && { kind: "split", from: slotRef(day, slot.startMinutes), slots: len, keepSlots, to },
+        },
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Busy constraints that did not get their time in the plan: a timed
+ * occurrence without any slot, a day-bound one with fewer minutes than its
+ * duration, or an undated weekly total that did not fit its week.
+ */
+export function findUnplacedConstraints(plan: DayPlan[], constraints: Constraint[]): GuardianIssue[] {
+  const issues: GuardianIssue[] = [];
+  const busy = constraints.filter((c) => !c.isDeleted && c.type !== "day_off");
+  const weeks = new Map<string, DayPlan[]>();
+
+  for (const day of plan) {
+    const date = dateOf(day);
+    if (!date || day.slots.length === 0) continue;
+    const weekKey = toISODate(startOfWeek(date));
+    weeks.set(weekKey, [...(weeks.get(weekKey) ?? []), day]);
+
+    const slotMinutes = slotMinutesOf(day);
+    const dayStart = day.slots[0].startMinutes;
+    const dayEnd = day.slots[day.slots.length - 1].startMinutes + slotMinutes;
+
+    for (const c of busy) {
+      if (!isDatedConstraint(c, WEEK_DAYS) || !occursOn(c, date, WEEK_DAYS)) continue;
+      const placedMinutes = day.slots.filter((s) => isConstraintSlot(s, c)).length * slotMinutes;
+      const range = fixedTimeRange(c);
+
+      if (range) {
+        if (placedMinutes > 0) continue;
+        const inside = Math.min(range.end, dayEnd) > Math.max(range.start, dayStart);
+        const inRange = day.slots.filter(
+          (s) => s.startMinutes < range.end && range.start < s.startMinutes + slotMinutes
+        );
+        // Study on top of it is reported by findConstraintOverlaps; free slots
+        // only mean the plan was not regenerated yet (e.g. right after a fix)
+        if (inside && inRange.every((s) => s.type === "free" || isStudy(s))) continue;
+        issues.push({
+          type: "CONFLICT",
+          severity: inside ? "warning" : "info",
+          message: inside
+            ? `${day.dayName} ${timeRange(range.start, range.end)}: "${c.title}" kısıtı plana yerleştirilemedi (slotlar dolu).`
+            : `${day.dayName}: "${c.title}" kısıtı (${timeRange(range.start, range.end)}) planlama penceresinin dışında kaldı.`,
+          relatedDate: day.date,
+          suggestedFix: {
+            action: "move",
+            description: inside
+              ? "Bu saate sabitlenmiş blokları kaldırın veya kısıtın saatini değiştirin."
+              : "Günün planlama penceresini kısıtı kapsayacak şekilde genişletin.",
+          },
+        });
+        continue;
+      }
+
+      const expectedMinutes = Math.round(((c.duration || 0) * 60) / slotMinutes) * slotMinutes;
+      if (placedMinutes >= expectedMinutes) continue;
+      issues.push({
+        type: "CONFLICT",
+        severity: "warning",
+        message: `${day.dayName}: "${c.title}" kısıtının yalnızca ${placedMinutes}/${expectedMinutes} dakikası yerleştirilebildi.`,
+        relatedDate: day.date,
+        suggestedFix: {
+          action: "move",
+          description: "O güne sabitlenmiş blokları azaltın veya kısıta bir saat verin.",
+        },
+      });
+    }
+  }
+
+  // Undated constraints ('Genel'): a weekly total spread over the week's days
+  for (const [weekKey, days] of weeks) {
+    for (const c of busy) {
+      if (isDatedConstraint(c, WEEK_DAYS)) continue;
+      const slotMinutes = slotMinutesOf(days[0]);
+      const expectedMinutes = Math.round(((c.duration || 0) * 60) / slotMinutes) * slotMinutes;
+      const placedMinutes = days.reduce(
+        (sum, day) => sum + day.slots.filter((s) => isConstraintSlot(s, c)).length * slotMinutesOf(day),
+        0
+      );
+      if (placedMinutes >= expectedMinutes) continue;
+      issues.push({
+        type: "CONFLICT",
+        severity: "warning",
+        message: `"${c.title}" kısıtının ${weekKey} haftasında yalnızca ${placedMinutes}/${expectedMinutes} dakikası yerleştirilebildi.`,
+        relatedDate: weekKey,
+        suggestedFix: {
+          action: "reduce",
+          description: "Kısıtın haftalık süresini azaltın veya planlama penceresini genişletin.",
+        },
+      });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,199 @@
+import type { Goal, Constraint, Session } from "../types/models";
+import { WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { schedule, slotMinutesOf } from "../scheduler/weeklyScheduler";
+import { addDays, diffInDays, parseDeadline, startOfWeek, toISODate } from "../scheduler/calendar";
+import { completedMinutesByGoal, getGoalProgress } from "../lib/goalProgress";
+import { GuardianIssue, PolicySuggestion } from "./types";
+
+/**
+ * Goal feasibility: a goal's remaining effort, together with every goal due
+ * no later (earliest deadline first), against the free study capacity until
+ * its deadline. Free capacity = the planning window minus constraints, capped
+ * by maxStudyMinutesPerDay (and the goal's own daily cap for its share).
+ * For an infeasible goal the smallest policy changes that make it fit alone
+ * are searched (daily limit, later day end, earlier day start), plus the goal
+ * side options (later deadline, fewer hours).
+ */
+
+export interface FeasibilityReport {
+  goalId?: number;
+  goalTitle: string;
+  deadline: string; // YYYY-MM-DD, the first day that no longer counts
+  remainingMinutes: number;
+  /** Remaining effort of this goal and of the goals due no later */
+  demandMinutes: number;
+  capacityMinutes: number;
+  missingMinutes: number;
+  suggestions: PolicySuggestion[];
+}
+
+// A later deadline is only searched this far
+const MAX_DEADLINE_SHIFT_DAYS = 56;
+
+const hours = (minutes: number) => Math.round(minutes / 6) / 10;
+
+/** Free (not busy) study-window minutes per date from `today` to `until` (exclusive). */
+function freeMinutesByDate(
+  constraints: Constraint[],
+  policy: WeeklyPlannerPolicy,
+  now: Date,
+  until: string
+): Map<string, number> {
+  const weekStart = startOfWeek(now);
+  const weeks = Math.max(1, Math.ceil((diffInDays(weekStart, new Date(`${until}T00:00:00`)) + 1) / 7));
+  const { plan } = schedule([], constraints.filter((c) => !c.isDeleted), policy, { now, horizonWeeks: weeks });
+
+  const today = toISODate(now);
+  const free = new Map<string, number>();
+  for (const day of plan) {
+    if (!day.date || day.date < today || day.date >= until) continue;
+    free.set(day.date, day.slots.filter((s) => s.type === "free").length * slotMinutesOf(day));
+  }
+  return free;
+}
+
+// The search runs schedule() many times and Guardian asks on every planner
+// render: the last few results are kept, keyed by everything they depend on
+// (the capacity layout only changes by day).
+const CACHE_SIZE = 8;
+const cache = new Map<string, FeasibilityReport[]>();
+
+export function checkFeasibility(
+  goals: Goal[],
+  constraints: Constraint[],
+  policy: WeeklyPlannerPolicy,
+  sessions: Session[] = [],
+  now: Date = new Date()
+): FeasibilityReport[] {
+  const completed = completedMinutesByGoal(sessions);
+  const key = JSON.stringify([goals, constraints, policy, [...completed], toISODate(now)]);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const reports = findInfeasibleGoals(goals, constraints, policy, completed, now);
+  if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  cache.set(key, reports);
+  return reports;
+}
+
+function findInfeasibleGoals(
+  goals: Goal[],
+  constraints: Constraint[],
+  policy: WeeklyPlannerPolicy,
+  completed: Map<number, number>,
+  now: Date
+): FeasibilityReport[] {
+  const dated = goals
+    .filter((g) => g.deadline && !g.isDeleted && g.status !== "completed" && g.status !== "postponed")
+    .map((g) => ({
+      goal: g,
+      deadline: toISODate(parseDeadline(g.deadline as Date)),
+      remaining: getGoalProgress(g, completed).remainingMinutes,
+    }))
+    .filter((d) => d.remaining > 0);
+  if (dated.length === 0) return [];
+
+  const today = toISODate(now);
+  const lastDeadline = dated.reduce((max, d) => (d.deadline > max ? d.deadline : max), today);
+  const horizonEnd = toISODate(addDays(new Date(`${lastDeadline}T00:00:00`), MAX_DEADLINE_SHIFT_DAYS));
+  const baseFree = freeMinutesByDate(constraints, policy, now, horizonEnd);
+
+  const reports: FeasibilityReport[] = [];
+  for (const { goal, deadline, remaining } of dated) {
+    const demand = dated.filter((d) => d.deadline <= deadline).reduce((sum, d) => sum + d.remaining, 0);
+    const ownCap = goal.maxMinutesPerDay ?? Infinity;
+
+    const capacity = (free: Map<string, number>, maxPerDay: number, until: string) => {
+      let shared = 0;
+      let own = 0;
+      free.forEach((minutes, date) => {
+        if (date >= until) return;
+        shared += Math.min(minutes, maxPerDay);
+        own += Math.min(minutes, maxPerDay, ownCap);
+      });
+      return { shared, missing: Math.max(0, demand - shared, remaining - own) };
+    };
+
+    const base = capacity(baseFree, policy.maxStudyMinutesPerDay, deadline);
+    if (base.missing <= 0) continue;
+
+    const suggestions: PolicySuggestion[] = [];
+    const slotMinutes = policy.slotMinutes;
+
+    // 1) Higher daily limit
+    for (let limit = policy.maxStudyMinutesPerDay + slotMinutes; limit <= 24 * 60; limit += slotMinutes) {
+      if (capacity(baseFree, limit, deadline).missing > 0) continue;
+      suggestions.push({
+        patch: { maxStudyMinutesPerDay: limit },
+        description: `Günlük çalışma limitini ${hours(limit)} saate çıkarın (şu an ${hours(policy.maxStudyMinutesPerDay)}sa).`,
+      });
+      break;
+    }
+
+    // 2) Longer planning window: later day end, then earlier day start
+    for (let end = policy.dayEndHour + 1; end <= 24; end++) {
+      const patched = { ...policy, dayEndHour: end };
+      if (capacity(freeMinutesByDate(constraints, patched, now, deadline), policy.maxStudyMinutesPerDay, deadline).missing > 0) continue;
+      suggestions.push({
+        patch: { dayEndHour: end },
+        description: `Gün bitişini ${end}:00'e uzatın (şu an ${policy.dayEndHour}:00).`,
+      });
+      break;
+    }
+    for (let start = policy.dayStartHour - 1; start >= 0; start--) {
+      const patched = { ...policy, dayStartHour: start };
+      if (capacity(freeMinutesByDate(constraints, patched, now, deadline), policy.maxStudyMinutesPerDay, deadline).missing > 0) continue;
+      suggestions.push({
+        patch: { dayStartHour: start },
+        description: `Gün başlangıcını ${start}:00'e çekin (şu an ${policy.dayStartHour}:00).`,
+      });
+      break;
+    }
+
+    // 3) Goal side: later deadline, fewer hours
+    for (let shift = 1; shift <= MAX_DEADLINE_SHIFT_DAYS; shift++) {
+      const later = toISODate(addDays(parseDeadline(deadline), shift));
+      if (capacity(baseFree, policy.maxStudyMinutesPerDay, later).missing > 0) continue;
+      suggestions.push({ description: `Son tarihi ${shift} gün erteleyin (${later}).` });
+      break;
+    }
+    if (base.missing < remaining) {
+      suggestions.push({
+        description: `Hedefin süresini ${hours(base.missing)} saat azaltın (${hours((goal.targetHours || 0) * 60 - base.missing)}sa).`,
+      });
+    }
+
+    reports.push({
+      goalId: goal.id,
+      goalTitle: goal.title,
+      deadline,
+      remainingMinutes: remaining,
+      demandMinutes: demand,
+      capacityMinutes: base.shared,
+      missingMinutes: base.missing,
+      suggestions,
+    });
+  }
+  return reports;
+}
+
+/** Guardian issue of an infeasible goal. */
+export function feasibilityIssue(report: FeasibilityReport): GuardianIssue {
+  const shared = report.demandMinutes > report.remainingMinutes
+    ? ` (aynı tarihe kadar biten diğer hedeflerle birlikte ${hours(report.demandMinutes)}sa)`
+    : "";
+  return {
+    type: "GOAL_INFEASIBLE",
+    severity: "critical",
+    message: `"${report.goalTitle}" son tarihe (${report.deadline}) yetişmiyor: ${hours(report.remainingMinutes)}sa gerekli${shared}, boş kapasite ${hours(report.capacityMinutes)}sa, ${hours(report.missingMinutes)}sa eksik.`,
+    relatedGoalId: report.goalId,
+    relatedDate: report.deadline,
+    suggestedFix: {
+      action: "reduce",
+      description: report.suggestions.length > 0
+        ? "Aşağıdaki değişikliklerden biri hedefi sığdırır."
+        : "Hedefin süresini azaltın veya son tarihi erteleyin.",
+    },
+    policySuggestions: report.suggestions,
+  };
+}
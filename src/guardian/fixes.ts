@@ -0,0 +1,157 @@
+import { DayPlan, Slot } from "../types/plan";
+import { SchedulerRule, createRationale } from "../scheduler/rules";
+import { formatTimeOfDay } from "../scheduler/calendar";
+import { slotMinutesOf } from "../scheduler/weeklyScheduler";
+import { FixOperation, SlotRef } from "./types";
+
+/**
+ * Executable Guardian fixes. applyFix returns a new plan and never touches its
+ * input, so the planner can preview a fix with diffPlans and keep the old plan
+ * for undo. Moved slots are pinned like a manual drag & drop.
+ */
+
+export interface FixContext {
+  maxStudyMinutesPerDay: number;
+  /** YYYY-MM-DD; earlier days are history and never receive blocks */
+  today: string;
+}
+
+interface FreeRunOptions {
+  /** Day the block comes from: tried first and exempt from the daily limit */
+  fromDate?: string;
+  excludeDate?: string;
+  /** Extra condition for every slot of the run */
+  accept?: (day: DayPlan, startMinutes: number) => boolean;
+}
+
+const isStudy = (slot: Slot) => slot.type === "study" || slot.type === "review";
+const sameDay = (day: DayPlan, ref: { date?: string; dayName: string }) =>
+  ref.date ? day.date === ref.date : day.dayName === ref.dayName;
+
+export const slotRef = (day: DayPlan, startMinutes: number): SlotRef => ({
+  date: day.date,
+  dayName: day.dayName,
+  startMinutes,
+});
+
+/** First run of `len` free slots that a block can be moved to, or undefined. */
+export function findFreeRun(
+  plan: DayPlan[],
+  len: number,
+  context: FixContext,
+  options: FreeRunOptions = {}
+): SlotRef | undefined {
+  const days = plan
+    .filter((d) => !(d.date && d.date < context.today) && !(options.excludeDate && d.date === options.excludeDate))
+    .sort((a, b) => Number(b.date === options.fromDate) - Number(a.date === options.fromDate));
+
+  for (const day of days) {
+    const slotMinutes = slotMinutesOf(day);
+    const added = day.date === options.fromDate ? 0 : len * slotMinutes;
+    const studied = day.slots.filter(isStudy).length * slotMinutes;
+    if (studied + added > context.maxStudyMinutesPerDay) continue;
+
+    for (let s = 0; s + len <= day.slots.length; s++) {
+      const run = day.slots.slice(s, s + len);
+      if (run.every((slot) => slot.type === "free" && (options.accept?.(day, slot.startMinutes) ?? true))) {
+        return slotRef(day, run[0].startMinutes);
+      }
+    }
+  }
+  return undefined;
+}
+
+const freeSlot = (slot: Slot): Slot => ({
+  ...slot,
+  type: "free",
+  label: undefined,
+  priority: undefined,
+  goalId: undefined,
+  constraintId: undefined,
+  reviewId: undefined,
+  pinned: false,
+  rationale: createRationale(SchedulerRule.SLOT_FREE_AVAILABLE),
+});
+
+function moveSlots(plan: DayPlan[], from: SlotRef, len: number, to: SlotRef) {
+  const source = plan.find((d) => sameDay(d, from));
+  const target = plan.find((d) => sameDay(d, to));
+  if (!source || !target || len <= 0) return;
+  const s = source.slots.findIndex((slot) => slot.startMinutes === from.startMinutes);
+  const t = target.slots.findIndex((slot) => slot.startMinutes === to.startMinutes);
+  if (s < 0 || t < 0) return;
+
+  const moved = source.slots.slice(s, s + len);
+  moved.forEach((slot, i) => {
+    source.slots[s + i] = freeSlot(slot);
+  });
+  moved.forEach((slot, i) => {
+    const at = target.slots[t + i];
+    if (!at) return;
+    target.slots[t + i] = {
+      ...at,
+      type: slot.type,
+      label: slot.label,
+      priority: slot.priority,
+      goalId: slot.goalId,
+      constraintId: slot.constraintId,
+      reviewId: slot.reviewId,
+      pinned: true,
+      rationale: createRationale(SchedulerRule.SLOT_PINNED_BY_USER, {
+        goalTitle: slot.type === "study" || slot.type === "review" ? slot.label : undefined,
+        dayName: target.dayName,
+        date: target.date,
+        startMinutes: at.startMinutes,
+      }),
+    };
+  });
+}
+
+/** The plan with the fix applied (a copy). */
+export function applyFix(plan: DayPlan[], op: FixOperation): DayPlan[] {
+  const copy = plan.map((d) => ({ ...d, slots: d.slots.map((s) => ({ ...s })) }));
+
+  switch (op.kind) {
+    case "move":
+      moveSlots(copy, op.from, op.slots, op.to);
+      break;
+    case "split": {
+      const day = copy.find((d) => sameDay(d, op.from));
+      if (!day) break;
+      const tail = { ...op.from, startMinutes: op.from.startMinutes + op.keepSlots * slotMinutesOf(day) };
+      moveSlots(copy, tail, op.slots - op.keepSlots, op.to);
+      break;
+    }
+    case "reduce": {
+      const days = copy.filter((d) => sameDay(d, op));
+      for (const start of op.startMinutes) {
+        const entries = days.flatMap((d) =>
+          d.slots.filter((s) => s.startMinutes === start && s.type !== "free").map((s) => ({ d, s }))
+        );
+        const last = entries[entries.length - 1];
+        if (!last) continue;
+        // A second entry at the same time is a duplicate: drop it instead of leaving a gap
+        const duplicate = days.flatMap((d) => d.slots).filter((s) => s.startMinutes === start).length > 1;
+        const index = last.d.slots.indexOf(last.s);
+        if (duplicate) last.d.slots.splice(index, 1);
+        else last.d.slots[index] = freeSlot(last.s);
+      }
+      break;
+    }
+  }
+  return copy;
+}
+
+const at = (ref: SlotRef) => `${ref.dayName} ${formatTimeOfDay(ref.startMinutes)}`;
+
+/** Short Turkish summary of a fix for the preview. */
+export function describeFix(op: FixOperation): string {
+  switch (op.kind) {
+    case "move":
+      return `${at(op.from)} (${op.slots} slot) → ${at(op.to)}`;
+    case "split":
+      return `${at(op.from)}: ilk ${op.keepSlots} slot kalır, kalan ${op.slots - op.keepSlots} slot → ${at(op.to)}`;
+    case "reduce":
+      return `${op.dayName}: ${op.startMinutes.map(formatTimeOfDay).join(", ")} boşaltılır`;
+  }
+}
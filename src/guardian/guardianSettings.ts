@@ -0,0 +1,82 @@
+import { db, SettingRecord } from '../db/db';
+import { GuardianConfig, GuardianIssueState, GuardianRuleConfig } from './types';
+
+export const GUARDIAN_RULES_KEY = 'guardianRules';
+export const GUARDIAN_ISSUE_STATES_KEY = 'guardianIssueStates';
+
+async function getSetting<T>(key: string): Promise<T | undefined> {
+  try {
+    return (await db.settings.get(key))?.value as T | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function putSetting<T>(key: string, value: T) {
+  const record: SettingRecord<T> = { key, value, updatedAt: Date.now() };
+  await db.settings.put(record);
+}
+
+/** Rule settings and issue states; missing records mean "all defaults". */
+export async function getGuardianConfig(): Promise<GuardianConfig> {
+  const [rules, issueStates] = await Promise.all([
+    getSetting<GuardianConfig['rules']>(GUARDIAN_RULES_KEY),
+    getSetting<GuardianConfig['issueStates']>(GUARDIAN_ISSUE_STATES_KEY),
+  ]);
+  return { rules: rules ?? {}, issueStates: issueStates ?? {} };
+}
+
+export async function patchGuardianRule(ruleId: string, patch: GuardianRuleConfig) {
+  const rules = (await getSetting<GuardianConfig['rules']>(GUARDIAN_RULES_KEY)) ?? {};
+  const current = rules[ruleId] ?? {};
+  await putSetting(GUARDIAN_RULES_KEY, {
+    ...rules,
+    [ruleId]: {
+      ...current,
+      ...patch,
+      thresholds: patch.thresholds ? { ...current.thresholds, ...patch.thresholds } : current.thresholds,
+    },
+  });
+}
+
+/** Drops the user's settings of a rule (back to its defaults). */
+export async function resetGuardianRule(ruleId: string) {
+  const rules = (await getSetting<GuardianConfig['rules']>(GUARDIAN_RULES_KEY)) ?? {};
+  const rest = { ...rules };
+  delete rest[ruleId];
+  await putSetting(GUARDIAN_RULES_KEY, rest);
+}
+
+export async function setIssueState(issueId: string, state: Omit<GuardianIssueState, 'updatedAt'> | null) {
+  const states = (await getSetting<GuardianConfig['issueStates']>(GUARDIAN_ISSUE_STATES_KEY)) ?? {};
+  // Expired snoozes are dropped on every write so the record does not grow forever
+  const now = Date.now();
+  const kept = Object.fromEntries(
+    Object.entries(states).filter(([id, s]) => id !== issueId && (s.status === 'acknowledged' || (s.until ?? 0) > now))
+  );
+  await putSetting(
+    GUARDIAN_ISSUE_STATES_KEY,
+    state ? { ...kept, [issueId]: { ...state, updatedAt: now } } : kept
+  );
+}
+
+/** Drops the issue states `keep` rejects; writes only when something was dropped. */
+export async function pruneIssueStates(keep: (issueId: string, state: GuardianIssueState) => boolean) {
+  const states = (await getSetting<GuardianConfig['issueStates']>(GUARDIAN_ISSUE_STATES_KEY)) ?? {};
+  const kept = Object.fromEntries(Object.entries(states).filter(([id, s]) => keep(id, s)));
+  if (Object.keys(kept).length < Object.keys(states).length) {
+    await putSetting(GUARDIAN_ISSUE_STATES_KEY, kept);
+  }
+}
+
+/** Hides the issue for `ms` milliseconds; returns when it shows up again. */
+export async function snoozeIssue(issueId: string, ms: number) {
+  const until = Date.now() + ms;
+  await setIssueState(issueId, { status: 'snoozed', until });
+  return until;
+}
+
+/** Shows every acknowledged/snoozed issue again. */
+export async function clearIssueStates() {
+  await putSetting(GUARDIAN_ISSUE_STATES_KEY, {});
+}
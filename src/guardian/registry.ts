@@ -0,0 +1,150 @@
+import { DayPlan } from "../types/plan";
+import { Goal, Constraint, Session } from "../types/models";
+import type { PlannerLog } from "../db/db";
+import { WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { FixContext } from "./fixes";
+import { GuardianConfig, GuardianIssue, GuardianIssueState, GuardianRuleConfig, IssueSeverity } from "./types";
+import { BUILT_IN_RULES } from "./rules";
+
+/**
+ * Guardian rule registry. A rule is a module with an id, a default severity
+ * and optional numeric thresholds; the user settings (db.settings, see
+ * guardianSettings.ts) can disable it, override its severity or its thresholds.
+ * runGuardianRules runs the enabled rules in registration order, gives every
+ * issue a stable id and the rule's severity (the user's or the default one),
+ * drops exact duplicates and hides acknowledged/snoozed issues.
+ * A rule that returns an issue with the id of an earlier one (taken from
+ * ctx.issues) adds its policy suggestions to that issue.
+ */
+
+export interface GuardianContext {
+    plan: DayPlan[];
+    goals: Goal[];
+    constraints: Constraint[];
+    sessions: Session[];
+    /** Observer history (FOCUS/POSTPONE/CANCEL logs) for the adherence rules */
+    logs: PlannerLog[];
+    maxStudyMinutesPerDay: number;
+    policy?: WeeklyPlannerPolicy;
+    now: Date;
+    /** Completed minutes per goal (lib/goalProgress) */
+    completed: Map<number, number>;
+    fixContext: FixContext;
+    /** Issues of the rules that ran before (read-only) */
+    issues: readonly GuardianIssue[];
+}
+
+export interface GuardianThreshold {
+    label: string;
+    default: number;
+}
+
+export interface GuardianRule {
+    id: string;
+    /** Turkish label for the rule settings */
+    title: string;
+    defaultSeverity: IssueSeverity;
+    thresholds?: Record<string, GuardianThreshold>;
+    /** Rules that read the policy (window, block lengths) are listed as such in the settings */
+    needsPolicy?: boolean;
+    check(ctx: GuardianContext, thresholds: Record<string, number>): GuardianIssue[];
+}
+
+const registry = new Map<string, GuardianRule>();
+
+/** Adds a rule (or replaces the rule with the same id). */
+export function registerGuardianRule(rule: GuardianRule) {
+    registry.set(rule.id, rule);
+}
+
+export function getGuardianRules(): GuardianRule[] {
+    return [...registry.values()];
+}
+
+BUILT_IN_RULES.forEach(registerGuardianRule);
+
+/** Thresholds of a rule: the defaults overridden by the stored values. */
+export function ruleThresholds(rule: GuardianRule, config?: GuardianRuleConfig): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const [key, threshold] of Object.entries(rule.thresholds ?? {})) {
+        const stored = config?.thresholds?.[key];
+        values[key] = typeof stored === 'number' && Number.isFinite(stored) ? stored : threshold.default;
+    }
+    return values;
+}
+
+/**
+ * Id that stays the same while the issue persists: numbers in the message
+ * (hours, counts) are ignored so an issue does not look new when they change.
+ */
+export function issueId(ruleId: string, issue: GuardianIssue): string {
+    const text = issue.message.replace(/\d+([.,]\d+)?/g, '#');
+    return [ruleId, issue.type, issue.relatedGoalId ?? '', issue.relatedDate ?? '', text].join('|');
+}
+
+/** Whether the user acknowledged the issue or snoozed it until later. */
+export function isIssueHidden(id: string, config: GuardianConfig | undefined, now: Date): boolean {
+    const state = config?.issueStates[id];
+    if (!state) return false;
+    if (state.status === 'acknowledged') return true;
+    return (state.until ?? 0) > now.getTime();
+}
+
+/**
+ * Whether a stored issue state is still needed after analyzing the plan of
+ * `weekKey`: snoozes until they expire, acknowledgements while the issue is
+ * reported. Acknowledgements made in another week (or before states had a
+ * week) are left to that week; issues of a disabled rule are not checked, so
+ * their acknowledgements are kept too.
+ */
+export function isIssueStateLive(
+    id: string,
+    state: GuardianIssueState,
+    presentIds: ReadonlySet<string>,
+    weekKey: string,
+    config: GuardianConfig | undefined,
+    now: Date
+): boolean {
+    if (state.status === 'snoozed') return (state.until ?? 0) > now.getTime();
+    if (state.weekKey !== weekKey || presentIds.has(id)) return true;
+    return Object.entries(config?.rules ?? {}).some(([ruleId, rule]) => rule.enabled === false && id.startsWith(`${ruleId}|`));
+}
+
+export function runGuardianRules(
+    ctx: Omit<GuardianContext, 'issues'>,
+    config?: GuardianConfig
+): { issues: GuardianIssue[]; hidden: GuardianIssue[] } {
+    const all: GuardianIssue[] = [];
+
+    for (const rule of registry.values()) {
+        const ruleConfig = config?.rules[rule.id];
+        if (ruleConfig?.enabled === false) continue;
+
+        for (const issue of rule.check({ ...ctx, issues: [...all] }, ruleThresholds(rule, ruleConfig))) {
+            const base = issue.id ?? issueId(rule.id, issue);
+            // Issues that differ only in their numbers (two overlaps of a day at
+            // other times) share the base id: they are numbered, not dropped.
+            // An issue with an explicit id refers to that earlier issue.
+            const variants = all.filter(i => i.id === base || i.id?.startsWith(`${base}|`));
+            const same = issue.id !== undefined
+                ? variants.find(i => i.id === base)
+                : variants.find(i => i.message === issue.message);
+            if (same) {
+                if (issue.policySuggestions?.length) {
+                    all[all.indexOf(same)] = {
+                        ...same,
+                        policySuggestions: [...(same.policySuggestions ?? []), ...issue.policySuggestions],
+                    };
+                }
+                continue;
+            }
+            const id = variants.length === 0 ? base : `${base}|${variants.length + 1}`;
+            all.push({ ...issue, id, ruleId: rule.id, severity: ruleConfig?.severity ?? rule.defaultSeverity });
+        }
+    }
+
+    return {
+        issues: all.filter(i => !isIssueHidden(i.id as string, config, ctx.now)),
+        hidden: all.filter(i => isIssueHidden(i.id as string, config, ctx.now)),
+    };
+}
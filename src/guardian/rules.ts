@@ -0,0 +1,308 @@
+import type { GuardianRule } from "./registry";
+import { getGoalProgress } from "../lib/goalProgress";
+import { addDays, diffInDays, parseDeadline, toISODate } from "../scheduler/calendar";
+import { occursOn } from "../scheduler/recurrence";
+import { findDependencyCycles } from "../scheduler/dependencies";
+import { WEEK_DAYS, slotMinutesOf } from "../scheduler/weeklyScheduler";
+import {
+    findConstraintOverlaps,
+    findOverlappingSlots,
+    findPolicyViolations,
+    findUnplacedConstraints,
+} from "./conflicts";
+import { checkFeasibility, feasibilityIssue } from "./feasibility";
+import { findInterruptionTrend, findLateNightRuns, findMissedFocusDays, findPostponeStreak } from "./adherence";
+
+/**
+ * Built-in Guardian rules, in the order their issues are listed.
+ */
+
+// 1. Conflicts: the scheduler avoids them, but pinned/moved blocks survive
+// constraint edits and synced or old plans may overlap themselves
+const constraintOverlap: GuardianRule = {
+    id: 'constraint-overlap',
+    title: 'Kısıtla çakışan çalışma',
+    defaultSeverity: 'critical',
+    check: ctx => findConstraintOverlaps(ctx.plan, ctx.constraints, ctx.fixContext),
+};
+
+const slotOverlap: GuardianRule = {
+    id: 'slot-overlap',
+    title: 'Çakışan / tekrarlanan bloklar',
+    defaultSeverity: 'critical',
+    check: ctx => findOverlappingSlots(ctx.plan, ctx.fixContext),
+};
+
+const unplacedConstraint: GuardianRule = {
+    id: 'unplaced-constraint',
+    title: 'Yerleştirilemeyen kısıtlar',
+    defaultSeverity: 'warning',
+    check: ctx => findUnplacedConstraints(ctx.plan, ctx.constraints),
+};
+
+const policyViolation: GuardianRule = {
+    id: 'policy-violation',
+    title: 'Politika ihlalleri',
+    defaultSeverity: 'warning',
+    needsPolicy: true,
+    check: ctx => ctx.policy ? findPolicyViolations(ctx.plan, ctx.goals, ctx.policy, ctx.fixContext) : [],
+};
+
+// 2. Overload
+const overload: GuardianRule = {
+    id: 'overload',
+    title: 'Günlük limit aşımı',
+    defaultSeverity: 'warning',
+    thresholds: {
+        toleranceMinutes: { label: 'Tolerans (dk)', default: 0 },
+    },
+    check: (ctx, { toleranceMinutes }) => ctx.plan.flatMap(day => {
+        const studyMinutes = day.slots.reduce((acc, slot) => {
+            return slot.type === 'study' || slot.type === 'review' ? acc + slotMinutesOf(day) : acc;
+        }, 0);
+        if (studyMinutes <= ctx.maxStudyMinutesPerDay + toleranceMinutes) return [];
+
+        // Fix: free the day's last study slots down to the limit
+        const excessSlots = Math.ceil((studyMinutes - ctx.maxStudyMinutesPerDay) / slotMinutesOf(day));
+        const lastSlots = day.slots.filter(s => s.type === 'study' || s.type === 'review').slice(-excessSlots);
+        return [{
+            type: 'OVERLOAD',
+            severity: 'warning',
+            message: `${day.dayName}: Günlük çalışma limiti aşıldı (${studyMinutes / 60}sa / ${ctx.maxStudyMinutesPerDay / 60}sa).`,
+            relatedDate: day.date ?? day.dayName,
+            suggestedFix: {
+                action: 'reduce',
+                description: 'Bazı çalışma bloklarını başka güne taşıyın veya azaltın.',
+                operation: {
+                    kind: 'reduce',
+                    date: day.date,
+                    dayName: day.dayName,
+                    startMinutes: lastSlots.map(s => s.startMinutes),
+                },
+            },
+        }];
+    }),
+};
+
+const daysUntil = (deadline: Date, now: Date) =>
+    Math.ceil((parseDeadline(deadline).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+// 3. Missed deadlines & exam proximity
+const missedDeadline: GuardianRule = {
+    id: 'missed-deadline',
+    title: 'Süresi dolan hedefler',
+    defaultSeverity: 'critical',
+    thresholds: {
+        graceDays: { label: 'Tolerans (gün)', default: 0 },
+    },
+    check: (ctx, { graceDays }) => ctx.goals.flatMap(g => {
+        if (!g.deadline || g.status === 'completed') return [];
+        const diffDays = daysUntil(g.deadline, ctx.now);
+        if (diffDays >= -graceDays) return [];
+
+        return [{
+            type: 'MISSED_DEADLINE',
+            severity: 'critical',
+            message: `"${g.title}" hedefinin süresi dolmuş (${Math.abs(diffDays)} gün önce).`,
+            relatedGoalId: g.id,
+            suggestedFix: {
+                action: 'ignore', // Or maybe reschedule?
+                description: 'Hedefi tamamlandı olarak işaretleyin veya yeni bir tarih belirleyin.',
+            },
+        }];
+    }),
+};
+
+const examProximity: GuardianRule = {
+    id: 'exam-proximity',
+    title: 'Yaklaşan son tarih',
+    defaultSeverity: 'warning',
+    thresholds: {
+        daysBefore: { label: 'Son kaç gün', default: 3 },
+        minPlannedRatio: { label: 'Min. planlanan oran', default: 0.5 },
+    },
+    check: (ctx, { daysBefore, minPlannedRatio }) => ctx.goals.flatMap(g => {
+        if (!g.deadline || g.status === 'completed') return [];
+        const diffDays = daysUntil(g.deadline, ctx.now);
+        if (diffDays < 0 || diffDays > daysBefore) return [];
+
+        // Check if we have enough blocks scheduled for this goal
+        const assignedMinutes = ctx.plan.reduce(
+            (sum, d) => sum + d.slots.filter(s => s.label === g.title).length * slotMinutesOf(d),
+            0
+        );
+        const neededMinutes = getGoalProgress(g, ctx.completed).remainingMinutes;
+        // If assigned is significantly less than target in this crunch time
+        if (assignedMinutes >= neededMinutes * minPlannedRatio) return [];
+
+        return [{
+            type: 'EXAM_PROXIMITY',
+            severity: 'warning',
+            message: `"${g.title}" için son ${diffDays} gün! Planlanan çalışma yetersiz görünüyor.`,
+            relatedGoalId: g.id,
+            suggestedFix: {
+                action: 'move',
+                description: 'Bu hedefe daha fazla öncelik verin.',
+            },
+        }];
+    }),
+};
+
+// 4. Days off that make a deadline unreachable
+// Capacity = days left before the deadline x daily limit; the goal is only
+// flagged when it would fit without the days off.
+const dayOffInfeasible: GuardianRule = {
+    id: 'day-off-infeasible',
+    title: 'İzin günü yüzünden yetişmeyen hedefler',
+    defaultSeverity: 'critical',
+    check: ctx => {
+        const daysOff = ctx.constraints.filter(c => c.type === 'day_off' && !c.isDeleted);
+        if (daysOff.length === 0) return [];
+
+        return ctx.goals.flatMap(g => {
+            if (!g.deadline || g.status === 'completed' || g.status === 'postponed') return [];
+
+            const remaining = getGoalProgress(g, ctx.completed).remainingMinutes;
+            const daysLeft = diffInDays(ctx.now, parseDeadline(g.deadline));
+            if (remaining <= 0 || daysLeft <= 0) return [];
+
+            const offDates: string[] = [];
+            for (let k = 0; k < daysLeft; k++) {
+                const date = addDays(ctx.now, k);
+                if (daysOff.some(c => occursOn(c, date, WEEK_DAYS))) offDates.push(toISODate(date));
+            }
+
+            const max = ctx.maxStudyMinutesPerDay;
+            const capacity = (daysLeft - offDates.length) * max;
+            if (offDates.length === 0 || remaining <= capacity || remaining > daysLeft * max) return [];
+
+            return [{
+                type: 'DAY_OFF_INFEASIBLE',
+                severity: 'critical',
+                message: `"${g.title}" izin günleri (${offDates.length} gün) yüzünden son tarihe yetişmiyor: ${remaining / 60}sa gerekli, ${capacity / 60}sa kapasite var.`,
+                relatedGoalId: g.id,
+                relatedDate: offDates[0],
+                suggestedFix: {
+                    action: 'move',
+                    description: 'İzin gününü son tarihten sonraya kaydırın veya hedefin süresini/son tarihini güncelleyin.',
+                },
+            }];
+        });
+    },
+};
+
+// 4b. Goals that do not fit before their deadline (needs the policy's window).
+// A goal already flagged for its days off only gets the suggestions: the issue
+// is returned with its id, so the registry merges them into it.
+const goalFeasibility: GuardianRule = {
+    id: 'goal-feasibility',
+    title: 'Son tarihe sığmayan hedefler',
+    defaultSeverity: 'critical',
+    needsPolicy: true,
+    check: ctx => {
+        if (!ctx.policy) return [];
+        return checkFeasibility(ctx.goals, ctx.constraints, ctx.policy, ctx.sessions, ctx.now).flatMap(report => {
+            const dayOff = ctx.issues.find(i => i.type === 'DAY_OFF_INFEASIBLE' && i.relatedGoalId === report.goalId);
+            if (!dayOff) return [feasibilityIssue(report)];
+            return [{ ...dayOff, policySuggestions: report.suggestions }];
+        });
+    },
+};
+
+// 5. Dependency cycles: the scheduler ignores these links, so the order is not guaranteed
+const dependencyCycle: GuardianRule = {
+    id: 'dependency-cycle',
+    title: 'Bağımlılık döngüleri',
+    defaultSeverity: 'warning',
+    check: ctx => {
+        const titleOf = (id: number) => ctx.goals.find(g => g.id === id)?.title ?? `#${id}`;
+        return findDependencyCycles(ctx.goals.filter(g => !g.isDeleted)).map(cycle => ({
+            type: 'DEPENDENCY_CYCLE',
+            severity: 'warning',
+            message: `Hedef bağımlılıkları döngü oluşturuyor: ${[...cycle, cycle[0]].map(titleOf).join(' → ')}. Bu bağlar planlamada yok sayıldı.`,
+            relatedGoalId: cycle[0],
+            suggestedFix: {
+                action: 'ignore',
+                description: 'Döngüdeki bağımlılıklardan birini kaldırın.',
+            },
+        }));
+    },
+};
+
+// 6. Burnout / adherence: read the observer history instead of the plan
+const postponeStreak: GuardianRule = {
+    id: 'postpone-streak',
+    title: 'Art arda erteleme / iptal',
+    defaultSeverity: 'warning',
+    thresholds: {
+        minStreak: { label: 'Min. seri', default: 3 },
+        lookbackDays: { label: 'Geriye (gün)', default: 14 },
+    },
+    check: (ctx, thresholds) => findPostponeStreak(ctx.logs, ctx.policy, {
+        minStreak: thresholds.minStreak,
+        lookbackDays: thresholds.lookbackDays,
+    }, ctx.now),
+};
+
+const missedFocus: GuardianRule = {
+    id: 'missed-focus',
+    title: 'Planlanıp çalışılmayan günler',
+    defaultSeverity: 'warning',
+    thresholds: {
+        minDays: { label: 'Min. gün', default: 2 },
+        lookbackDays: { label: 'Geriye (gün)', default: 7 },
+    },
+    check: (ctx, { minDays, lookbackDays }) =>
+        findMissedFocusDays(ctx.logs, ctx.sessions, ctx.policy, { minDays, lookbackDays }, ctx.now),
+};
+
+const interruptionRate: GuardianRule = {
+    id: 'interruption-rate',
+    title: 'Artan oturum kesintileri',
+    defaultSeverity: 'warning',
+    thresholds: {
+        windowDays: { label: 'Dönem (gün)', default: 7 },
+        minSessions: { label: 'Min. oturum', default: 4 },
+        minRate: { label: 'Min. oran', default: 0.3 },
+        minIncrease: { label: 'Min. artış', default: 0.1 },
+    },
+    check: (ctx, thresholds) => findInterruptionTrend(ctx.sessions, ctx.policy, {
+        windowDays: thresholds.windowDays,
+        minSessions: thresholds.minSessions,
+        minRate: thresholds.minRate,
+        minIncrease: thresholds.minIncrease,
+    }, ctx.now),
+};
+
+const lateNight: GuardianRule = {
+    id: 'late-night',
+    title: 'Gece geç saat çalışmaları',
+    defaultSeverity: 'warning',
+    thresholds: {
+        lateHour: { label: 'Geç saat', default: 23 },
+        minNights: { label: 'Min. gece', default: 3 },
+        lookbackDays: { label: 'Geriye (gün)', default: 14 },
+    },
+    check: (ctx, thresholds) => findLateNightRuns(ctx.sessions, ctx.logs, ctx.policy, {
+        lateHour: thresholds.lateHour,
+        minNights: thresholds.minNights,
+        lookbackDays: thresholds.lookbackDays,
+    }, ctx.now),
+};
+
+export const BUILT_IN_RULES: GuardianRule[] = [
+    constraintOverlap,
+    slotOverlap,
+    unplacedConstraint,
+    policyViolation,
+    overload,
+    missedDeadline,
+    examProximity,
+    dayOffInfeasible,
+    goalFeasibility,
+    dependencyCycle,
+    postponeStreak,
+    missedFocus,
+    interruptionRate,
+    lateNight,
+];
@@ -1,14 +1,61 @@
 
+import type { WeeklyPlannerPolicy } from '../tuner/weeklyPlannerPolicy';
+
 export type IssueType =
     | 'CONFLICT'
     | 'OVERLOAD'
     | 'EXAM_PROXIMITY'
     | 'MISSED_DEADLINE'
-    | 'POLICY_VIOLATION';
+    | 'POLICY_VIOLATION'
+    | 'DAY_OFF_INFEASIBLE'
+    | 'GOAL_INFEASIBLE'
+    | 'DEPENDENCY_CYCLE'
+    | 'POSTPONE_STREAK'
+    | 'MISSED_FOCUS'
+    | 'INTERRUPTION_RATE'
+    | 'LATE_NIGHT';
 
 export type IssueSeverity = 'info' | 'warning' | 'critical';
 
+/** A slot position in a plan: the date when the plan has one, else the day name. */
+export interface SlotRef {
+    date?: string; // YYYY-MM-DD
+    dayName: string;
+    startMinutes: number;
+}
+
+/**
+ * Executable plan transformation behind a suggested fix (see guardian/fixes.ts).
+ * - move: `slots` consecutive slots starting at `from` go to the free run at `to`
+ * - reduce: the listed slots of one day are freed (duplicate entries are dropped)
+ * - split: the first `keepSlots` slots stay, the rest of the block goes to `to`
+ */
+export type FixOperation =
+    | { kind: 'move'; from: SlotRef; slots: number; to: SlotRef }
+    | { kind: 'reduce'; date?: string; dayName: string; startMinutes: number[] }
+    | { kind: 'split'; from: SlotRef; slots: number; keepSlots: number; to: SlotRef };
+
+/** A change that alone makes an infeasible goal fit (see guardian/feasibility.ts). */
+export interface PolicySuggestion {
+    /** Policy fields to change; absent when the change is on the goal itself */
+    patch?: Partial<WeeklyPlannerPolicy>;
+    description: string;
+}
+
+/** What a history-based issue was derived from (see guardian/adherence.ts). */
+export interface IssueEvidence {
+    /** db.logs ids */
+    eventIds?: number[];
+    sessionIds?: number[];
+    dates?: string[]; // YYYY-MM-DD
+    counts: Record<string, number>;
+}
+
 export interface GuardianIssue {
+    /** Stable across runs (see guardian/registry.ts issueId); set by the rule runner */
+    id?: string;
+    /** Id of the Guardian rule that reported it */
+    ruleId?: string;
     type: IssueType;
     severity: IssueSeverity;
     message: string;
@@ -17,5 +64,31 @@ export interface GuardianIssue {
     suggestedFix?: {
         action: 'move' | 'reduce' | 'split' | 'ignore';
         description: string;
+        /** Set when the fix can be applied to the plan in one click */
+        operation?: FixOperation;
     };
+    policySuggestions?: PolicySuggestion[];
+    evidence?: IssueEvidence;
+}
+
+/** Per-rule settings stored in db.settings ('guardianRules'); unset fields use the rule defaults. */
+export interface GuardianRuleConfig {
+    enabled?: boolean;
+    severity?: IssueSeverity;
+    thresholds?: Record<string, number>;
+}
+
+/** A user decision on one issue, stored in db.settings ('guardianIssueStates'). */
+export interface GuardianIssueState {
+    status: 'acknowledged' | 'snoozed';
+    /** Snoozed issues come back after this time (ms) */
+    until?: number;
+    /** Week the issue was acknowledged in; only that week's analysis prunes it */
+    weekKey?: string;
+    updatedAt: number;
+}
+
+export interface GuardianConfig {
+    rules: Record<string, GuardianRuleConfig>;
+    issueStates: Record<string, GuardianIssueState>;
 }
@@ -8,6 +8,8 @@
 
 import { db, Goal, Constraint, Session, PlannerLog } from '../db/db';
 import { DayPlan, Slot } from '../types/plan';
+import { slotMinutesOf } from '../scheduler/weeklyScheduler';
+import { parseDeadline } from '../scheduler/calendar';
 
 // ============ TYPES ============
 
@@ -189,7 +191,7 @@ export async function importFromJSON(
             const { id, ...goalData } = goal;
             await db.goals.add({
                 ...goalData,
-                deadline: goalData.deadline ? new Date(goalData.deadline) : undefined,
+                deadline: goalData.deadline ? parseDeadline(goalData.deadline) : undefined,
                 status: goalData.status || 'active',
                 isDeleted: false,
                 updatedAt: Date.now()
@@ -302,8 +304,9 @@ export function weeklyPlanToICS(plan: DayPlan[], weekStartDate?: Date): string {
     const events: string[] = [];
 
     plan.forEach((day, dayIndex) => {
-        const dayDate = new Date(monday);
-        dayDate.setDate(monday.getDate() + dayIndex);
+        // Dated plans carry their own day; older plans are laid out from Monday
+        const dayDate = day.date ? new Date(`${day.date}T00:00:00`) : new Date(monday);
+        if (!day.date) dayDate.setDate(monday.getDate() + dayIndex);
 
         // Group contiguous slots of the same type/label into single events
         let currentEvent: { type: string; label?: string; priority?: string; startMinutes: number; endMinutes: number } | null = null;
@@ -323,8 +326,8 @@ export function weeklyPlanToICS(plan: DayPlan[], weekStartDate?: Date): string {
                 currentEvent.type === slot.type &&
                 currentEvent.label === slot.label &&
                 currentEvent.endMinutes === slot.startMinutes) {
-                // Extend the event (30 minute slots)
-                currentEvent.endMinutes = slot.startMinutes + 30;
+                // Extend the event by one slot (slot size comes from the plan)
+                currentEvent.endMinutes = slot.startMinutes + slotMinutesOf(day);
             } else {
                 // End previous event and start a new one
                 if (currentEvent) {
@@ -335,7 +338,7 @@ export function weeklyPlanToICS(plan: DayPlan[], weekStartDate?: Date): string {
                     label: slot.label,
                     priority: slot.priority,
                     startMinutes: slot.startMinutes,
-                    endMinutes: slot.startMinutes + 30
+                    endMinutes: slot.startMinutes + slotMinutesOf(day)
                 };
             }
         });
@@ -377,9 +380,11 @@ function createICSEvent(
 
     const summary = event.type === 'study'
         ? `📚 ${event.label || 'Çalışma'}`
-        : event.type === 'busy'
-            ? `🚫 ${event.label || 'Meşgul'}`
-            : event.label || 'Etkinlik';
+        : event.type === 'review'
+            ? `🔁 ${event.label || 'Çalışma'} (tekrar)`
+            : event.type === 'busy'
+                ? `🚫 ${event.label || 'Meşgul'}`
+                : event.label || 'Etkinlik';
 
     const priorityLabel = event.priority === 'high' ? 'YÜKSEK'
         : event.priority === 'medium' ? 'ORTA'
@@ -387,7 +392,7 @@ function createICSEvent(
                 : '';
 
     const description = [
-        `Tip: ${event.type === 'study' ? 'Çalışma' : 'Kısıt'}`,
+        `Tip: ${event.type === 'study' ? 'Çalışma' : event.type === 'review' ? 'Tekrar' : 'Kısıt'}`,
         priorityLabel ? `Öncelik: ${priorityLabel}` : '',
         'SELF Learning Framework tarafından oluşturuldu'
     ].filter(Boolean).join('\\n');
@@ -400,7 +405,11 @@ function createICSEvent(
         `DTEND:${formatICSDate(endDate)}`,
         `SUMMARY:${escapeICSText(summary)}`,
         `DESCRIPTION:${escapeICSText(description)}`,
-        event.type === 'study' ? 'CATEGORIES:STUDY,EDUCATION' : 'CATEGORIES:BUSY,BLOCKED',
+        event.type === 'study'
+            ? 'CATEGORIES:STUDY,EDUCATION'
+            : event.type === 'review'
+                ? 'CATEGORIES:STUDY,REVIEW'
+                : 'CATEGORIES:BUSY,BLOCKED',
         event.priority === 'high' ? 'PRIORITY:1' : event.priority === 'medium' ? 'PRIORITY:5' : 'PRIORITY:9',
         'STATUS:CONFIRMED',
         'END:VEVENT'
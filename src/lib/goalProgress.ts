@@ -0,0 +1,63 @@
+/**
+ * Goal Progress Service
+ *
+ * Computes how much of each goal is already done from completed sessions.
+ * Pure functions only (no Dexie), so the scheduler, GuardianAgent and the
+ * UI all derive "remaining effort" the same way.
+ */
+
+import type { Goal, Session } from '../types/models';
+
+export interface GoalProgress {
+    goalId?: number;
+    targetMinutes: number;
+    completedMinutes: number;
+    remainingMinutes: number;
+    /** 0..1 */
+    ratio: number;
+}
+
+/**
+ * Sums completed session minutes per goal id.
+ * Interrupted sessions do not count towards progress.
+ */
+export function completedMinutesByGoal(sessions: Session[]): Map<number, number> {
+    const totals = new Map<number, number>();
+    for (const s of sessions) {
+        if (s.status !== 'completed') continue;
+        totals.set(s.goalId, (totals.get(s.goalId) || 0) + (s.duration || 0));
+    }
+    return totals;
+}
+
+/**
+ * Progress for a single goal. A goal marked 'completed' has nothing remaining.
+ */
+export function getGoalProgress(goal: Goal, completed: Map<number, number>): GoalProgress {
+    const targetMinutes = (goal.targetHours || 0) * 60;
+    const completedMinutes = goal.id !== undefined ? completed.get(goal.id) || 0 : 0;
+    const remainingMinutes = goal.status === 'completed'
+        ? 0
+        : Math.max(0, targetMinutes - completedMinutes);
+
+    return {
+        goalId: goal.id,
+        targetMinutes,
+        completedMinutes,
+        remainingMinutes,
+        ratio: targetMinutes > 0 ? Math.min(1, completedMinutes / targetMinutes) : 0,
+    };
+}
+
+/**
+ * Progress for a list of goals, keyed by goal id.
+ */
+export function computeGoalProgress(goals: Goal[], sessions: Session[]): Map<number, GoalProgress> {
+    const completed = completedMinutesByGoal(sessions);
+    const result = new Map<number, GoalProgress>();
+    for (const g of goals) {
+        if (g.id === undefined) continue;
+        result.set(g.id, getGoalProgress(g, completed));
+    }
+    return result;
+}
@@ -0,0 +1,84 @@
+import { db, PlanRecord } from '../db/db';
+import { DayPlan } from '../types/plan';
+import { addDays, startOfWeek, toISODate } from '../scheduler/calendar';
+
+/**
+ * Persisted weekly plans, one record per week (keyed by the week's Monday).
+ */
+
+export function weekKeyFor(date: Date = new Date()): string {
+  return toISODate(startOfWeek(date));
+}
+
+/** Week keys of `weeks` consecutive weeks starting with the week of `from`. */
+export function horizonWeekKeys(from: Date, weeks: number): string[] {
+  const monday = startOfWeek(from);
+  return Array.from({ length: Math.max(1, weeks) }, (_, w) => toISODate(addDays(monday, w * 7)));
+}
+
+/**
+ * Groups a multi-week plan into one chunk per week key. Days without a date
+ * (plans stored before dates existed) cannot be assigned and are dropped.
+ */
+export function splitPlanByWeek(days: DayPlan[]): Map<string, DayPlan[]> {
+  const weeks = new Map<string, DayPlan[]>();
+  for (const day of days) {
+    if (!day.date) continue;
+    const key = weekKeyFor(new Date(`${day.date}T00:00:00`));
+    weeks.set(key, [...(weeks.get(key) ?? []), day]);
+  }
+  return weeks;
+}
+
+/**
+ * The scheduler only plans from today on and rebuilds earlier days empty;
+ * when a week is saved again, its past days keep their stored slots so the
+ * record still shows what was planned for them.
+ */
+export function keepPastDays(stored: DayPlan[] | undefined, days: DayPlan[], today: string): DayPlan[] {
+  if (!stored) return days;
+  const storedByDate = new Map(stored.filter((d) => d.date).map((d) => [d.date as string, d]));
+  return days.map((day) => (day.date && day.date < today && storedByDate.get(day.date)) || day);
+}
+
+export async function getPlan(weekKey: string): Promise<PlanRecord | undefined> {
+  try {
+    return await db.plans.get(weekKey);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Stored plans of the given weeks, in the same order; missing weeks are skipped. */
+export async function getPlans(weekKeys: string[]): Promise<PlanRecord[]> {
+  try {
+    const records = await db.plans.bulkGet(weekKeys);
+    return records.filter((r): r is PlanRecord => !!r);
+  } catch {
+    return [];
+  }
+}
+
+/** Saves a week; without `scoringKey` the stored one is kept (edits and fixes do not re-score). */
+export async function savePlan(weekKey: string, days: DayPlan[], scoringKey?: string) {
+  const record: PlanRecord = {
+    weekKey,
+    days,
+    scoringKey: scoringKey ?? (await getPlan(weekKey))?.scoringKey,
+    updatedAt: Date.now(),
+  };
+  await db.plans.put(record);
+}
+
+/** Drops every pin of the week so the next regeneration is fully automatic. */
+export async function clearPinnedSlots(weekKey: string) {
+  const current = await getPlan(weekKey);
+  if (!current) return;
+  await savePlan(
+    weekKey,
+    current.days.map((d) => ({
+      ...d,
+      slots: d.slots.map((s) => ({ ...s, pinned: false })),
+    }))
+  );
+}
@@ -420,7 +420,7 @@ export class SyncAgent {
     }
 
     /**
-     * Core Sync Logic - syncs goals, constraints, and settings (policies)
+     * Core Sync Logic - syncs goals, constraints, settings (policies) and weekly plans
      */
     async sync(): Promise<void> {
         if (this.isSyncing) return;
@@ -435,6 +435,7 @@ export class SyncAgent {
             const goals = await db.goals.toArray();
             const constraints = await db.constraints.toArray();
             const settings = await db.settings.toArray();
+            const plans = await db.plans.toArray();
 
             const packet = {
                 type: 'SYNC_DATA',
@@ -442,7 +443,8 @@ export class SyncAgent {
                 payload: {
                     goals: goals,
                     constraints: constraints,
-                    settings: settings
+                    settings: settings,
+                    plans: plans
                 },
                 timestamp: Date.now()
             };
@@ -450,7 +452,7 @@ export class SyncAgent {
             const message = JSON.stringify(packet);
             this.broadcast(message);
 
-            console.log(`[SyncAgent] Broadcasting ${goals.length} goals, ${constraints.length} constraints, ${settings.length} settings`);
+            console.log(`[SyncAgent] Broadcasting ${goals.length} goals, ${constraints.length} constraints, ${settings.length} settings, ${plans.length} plans`);
 
         } catch (err) {
             console.error('[SyncAgent] Sync error:', err);
@@ -473,7 +475,7 @@ export class SyncAgent {
     }
 
     /**
-     * Handles incoming sync messages - processes goals, constraints, and settings
+     * Handles incoming sync messages - processes goals, constraints, settings and weekly plans
      */
     async handleMessage(msg: string, fromPeerId: string): Promise<void> {
         // Set flag to prevent auto-sync while receiving data
@@ -574,6 +576,25 @@ export class SyncAgent {
                     syncedData.settings = incomingSettings;
                 }
 
+                // ===== PLANS (weekly plans incl. pinned slots) =====
+                if (data.payload.plans) {
+                    const incomingPlans = data.payload.plans;
+                    const localPlans = await db.plans.toArray();
+
+                    // Plans use 'weekKey' as unique identifier; LWW like settings
+                    for (const remotePlan of incomingPlans) {
+                        if (!remotePlan.weekKey || !Array.isArray(remotePlan.days)) continue;
+
+                        const localPlan = localPlans.find(p => p.weekKey === remotePlan.weekKey);
+
+                        if (!localPlan || remotePlan.updatedAt > (localPlan.updatedAt || 0)) {
+                            await db.plans.put(remotePlan);
+                            console.log(`[SyncAgent] Updated plan '${remotePlan.weekKey}' from ${fromPeerId}`);
+                        }
+                    }
+                    syncedData.plans = incomingPlans;
+                }
+
                 this.emit({ type: 'data', peerId: fromPeerId, data: syncedData });
 
                 // BIDIRECTIONAL SYNC: Send our data back to the peer if this was an initial sync request
@@ -602,6 +623,7 @@ export class SyncAgent {
             const goals = await db.goals.toArray();
             const constraints = await db.constraints.toArray();
             const settings = await db.settings.toArray();
+            const plans = await db.plans.toArray();
 
             const packet = {
                 type: 'SYNC_DATA',
@@ -610,7 +632,8 @@ export class SyncAgent {
                 payload: {
                     goals: goals,
                     constraints: constraints,
-                    settings: settings
+                    settings: settings,
+                    plans: plans
                 },
                 timestamp: Date.now()
             };
@@ -0,0 +1,56 @@
+/**
+ * What-if Scenarios
+ *
+ * A scenario describes hypothetical changes (policy fields, new goals,
+ * postponed goals, disabled constraints) that are previewed in the planner
+ * sandbox before anything is written. Pure functions only (no Dexie): the
+ * inputs are copied, the stored goals/constraints/policy are never touched.
+ */
+
+import type { Goal, Constraint } from '../types/models';
+import type { WeeklyPlannerPolicy } from '../tuner/weeklyPlannerPolicy';
+
+export interface WhatIfScenario {
+    policyPatch: Partial<WeeklyPlannerPolicy>;
+    /** Hypothetical goals; they get temporary negative ids in the preview */
+    newGoals: Goal[];
+    postponedGoalIds: number[];
+    disabledConstraintIds: number[];
+}
+
+export const EMPTY_SCENARIO: WhatIfScenario = {
+    policyPatch: {},
+    newGoals: [],
+    postponedGoalIds: [],
+    disabledConstraintIds: [],
+};
+
+export function isEmptyScenario(scenario: WhatIfScenario): boolean {
+    return Object.keys(scenario.policyPatch).length === 0 &&
+        scenario.newGoals.length === 0 &&
+        scenario.postponedGoalIds.length === 0 &&
+        scenario.disabledConstraintIds.length === 0;
+}
+
+/**
+ * Scheduler inputs of a scenario, as copies of the current ones.
+ */
+export function scenarioInputs(
+    goals: Goal[],
+    constraints: Constraint[],
+    policy: WeeklyPlannerPolicy,
+    scenario: WhatIfScenario
+): { goals: Goal[]; constraints: Constraint[]; policy: WeeklyPlannerPolicy } {
+    return {
+        goals: [
+            ...goals.map(g => scenario.postponedGoalIds.includes(g.id as number)
+                ? { ...g, status: 'postponed' as const }
+                : { ...g }),
+            ...scenario.newGoals.map((g, i) => ({ ...g, id: -(i + 1), status: g.status ?? 'active' as const })),
+        ],
+        constraints: constraints
+            .filter(c => !scenario.disabledConstraintIds.includes(c.id as number))
+            .map(c => ({ ...c })),
+        policy: { ...policy, ...scenario.policyPatch },
+    };
+}
@@ -4,6 +4,7 @@ export const EVENT_TYPES = {
     CONSTRAINT_CREATED: "CONSTRAINT_CREATED",
     CONSTRAINT_DELETED: "CONSTRAINT_DELETED",
     SCHEDULER_RUN: "SCHEDULER_RUN",
+    PLAN_REPAIRED: "PLAN_REPAIRED",
     SLOT_MOVED: "SLOT_MOVED",
     FOCUS: "FOCUS",
     POSTPONE: "POSTPONE",
@@ -11,6 +12,11 @@ export const EVENT_TYPES = {
     TUNER_POLICY_UPDATED: "TUNER_POLICY_UPDATED",
     TUNER_POLICY_APPLIED: "TUNER_POLICY_APPLIED",
     GUARDIAN_WARNING: "GUARDIAN_WARNING",
+    GUARDIAN_FIX_APPLIED: "GUARDIAN_FIX_APPLIED",
+    GUARDIAN_FIX_UNDONE: "GUARDIAN_FIX_UNDONE",
+    GUARDIAN_ISSUE_ACKNOWLEDGED: "GUARDIAN_ISSUE_ACKNOWLEDGED",
+    GUARDIAN_ISSUE_SNOOZED: "GUARDIAN_ISSUE_SNOOZED",
+    GUARDIAN_RULE_UPDATED: "GUARDIAN_RULE_UPDATED",
 } as const;
 
 export type PlannerEventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
@@ -0,0 +1,38 @@
+import { db } from '../db/db';
+import { EVENT_TYPES } from '../observer/events';
+import { observerAgent } from '../observer/observerAgent';
+import { reviewStepForFocus } from './spacedRepetition';
+
+/** Applies a FOCUS session of `goalId` to its spaced-repetition reviews. */
+export async function recordFocusForReview(goalId: number, focusedAt: Date = new Date()) {
+  await db.transaction('rw', db.reviews, async () => {
+    const items = await db.reviews.where('goalId').equals(goalId).toArray();
+    const { complete, next } = reviewStepForFocus(goalId, focusedAt, items);
+    const now = Date.now();
+
+    if (complete?.id !== undefined) {
+      await db.reviews.update(complete.id, { status: 'done', doneAt: now, updatedAt: now });
+    }
+    if (next) {
+      await db.reviews.add({ ...next, updatedAt: now });
+    }
+  });
+}
+
+let unsubscribe: (() => void) | null = null;
+
+/** Subscribes to FOCUS events once per page; safe to call from several components. */
+export function startReviewAgent() {
+  if (unsubscribe) return;
+
+  unsubscribe = observerAgent.subscribe(EVENT_TYPES.FOCUS, (event) => {
+    const goalId = Number(event.payload?.goalId);
+    if (!Number.isFinite(goalId)) return;
+
+    const completedAt = event.payload?.completedAt;
+    const focusedAt = new Date(completedAt ?? event.ts);
+    recordFocusForReview(goalId, isNaN(focusedAt.getTime()) ? new Date() : focusedAt).catch((err) =>
+      console.error('Review update failed:', err)
+    );
+  });
+}
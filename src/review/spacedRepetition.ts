@@ -0,0 +1,47 @@
+import type { ReviewItem } from "../types/models";
+import { addDays, toISODate } from "../scheduler/calendar";
+
+/**
+ * Spaced repetition in the spirit of SM-2: every goal has at most one pending
+ * review. Studying the goal (a FOCUS session) on or after its due date counts
+ * as the review and schedules the next one with a longer interval; studying
+ * without a pending review starts a new chain at the first interval.
+ */
+
+export const REVIEW_INTERVAL_DAYS = [1, 3, 7, 14];
+
+export interface ReviewStep {
+  /** Pending review completed by this session */
+  complete?: ReviewItem;
+  /** Review to add */
+  next?: ReviewItem;
+}
+
+function reviewAt(goalId: number, step: number, from: Date): ReviewItem {
+  const intervalDays = REVIEW_INTERVAL_DAYS[step];
+  return {
+    goalId,
+    step,
+    intervalDays,
+    dueDate: toISODate(addDays(from, intervalDays)),
+    status: "pending",
+  };
+}
+
+/** What a FOCUS session of `goalId` at `focusedAt` changes in the goal's reviews. */
+export function reviewStepForFocus(goalId: number, focusedAt: Date, items: ReviewItem[]): ReviewStep {
+  const pending = items
+    .filter((r) => r.goalId === goalId && r.status === "pending")
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))[0];
+
+  if (!pending) return { next: reviewAt(goalId, 0, focusedAt) };
+
+  // Not due yet: the material is still fresh, the chain stays as it is.
+  if (pending.dueDate > toISODate(focusedAt)) return {};
+
+  const step = pending.step + 1;
+  return {
+    complete: pending,
+    next: step < REVIEW_INTERVAL_DAYS.length ? reviewAt(goalId, step, focusedAt) : undefined,
+  };
+}
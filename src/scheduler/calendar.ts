@@ -0,0 +1,62 @@
+/**
+ * Small date helpers for the scheduler (local time, Monday-first weeks).
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/** Monday 00:00 of the week containing `date`. */
+export function startOfWeek(date: Date): Date {
+  const d = startOfDay(date);
+  const dayOfWeek = d.getDay();
+  d.setDate(d.getDate() - (dayOfWeek === 0 ? 6 : dayOfWeek - 1));
+  return d;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/**
+ * Local midnight of a goal deadline. Date-only strings ("YYYY-MM-DD", e.g. from
+ * imported or synced goals) are local dates here, not UTC as `new Date(string)`
+ * reads them, so the scheduler and the Guardian put a deadline on the same day.
+ */
+export function parseDeadline(deadline: Date | string): Date {
+  if (typeof deadline === "string" && /^\d{4}-\d{2}-\d{2}$/.test(deadline)) return new Date(`${deadline}T00:00:00`);
+  return startOfDay(new Date(deadline));
+}
+
+/** Whole calendar days from `from` to `to` (DST-safe). */
+export function diffInDays(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+/** "HH:mm" -> minutes since midnight; undefined for empty or malformed input. */
+export function parseTimeOfDay(value?: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? "");
+  if (!match) return undefined;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) return undefined;
+  return h * 60 + m;
+}
+
+/** Minutes since midnight -> "HH:mm". */
+export function formatTimeOfDay(minutes: number): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/** Local YYYY-MM-DD. */
+export function toISODate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,60 @@
+import type { Goal } from "../types/models";
+
+/**
+ * Goal dependencies (Goal.dependsOn). A dependent goal is only scheduled
+ * after the hours of all its prerequisites are scheduled or completed.
+ *
+ * Links to missing (deleted) goals are ignored. Links inside a cycle cannot
+ * be satisfied; the scheduler ignores them and the Guardian reports the cycle.
+ */
+
+/** Dependency cycles as goal id paths, e.g. [1, 2, 3] for 1 → 2 → 3 → 1. */
+export function findDependencyCycles(goals: Goal[]): number[][] {
+  const byId = new Map(goals.filter((g) => g.id !== undefined).map((g) => [g.id as number, g]));
+  const state = new Map<number, "visiting" | "done">();
+  const path: number[] = [];
+  const cycles: number[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (id: number) => {
+    state.set(id, "visiting");
+    path.push(id);
+    for (const next of byId.get(id)?.dependsOn ?? []) {
+      if (!byId.has(next)) continue;
+      if (state.get(next) === "visiting") {
+        const cycle = path.slice(path.indexOf(next));
+        const key = [...cycle].sort((a, b) => a - b).join(",");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of byId.keys()) if (!state.has(id)) visit(id);
+  return cycles;
+}
+
+/** Prerequisite ids per goal id, without links to missing goals or inside cycles. */
+export function prerequisitesByGoal(goals: Goal[]): Map<number, number[]> {
+  const ids = new Set(goals.filter((g) => g.id !== undefined).map((g) => g.id as number));
+  const cyclic = new Set<string>();
+  for (const cycle of findDependencyCycles(goals)) {
+    cycle.forEach((id, i) => cyclic.add(`${id}>${cycle[(i + 1) % cycle.length]}`));
+  }
+
+  const prerequisites = new Map<number, number[]>();
+  for (const g of goals) {
+    if (g.id === undefined) continue;
+    const links = (g.dependsOn ?? []).filter(
+      (p) => p !== g.id && ids.has(p) && !cyclic.has(`${g.id}>${p}`)
+    );
+    if (links.length > 0) prerequisites.set(g.id, links);
+  }
+  return prerequisites;
+}
@@ -0,0 +1,218 @@
+import type { Goal } from "../types/models";
+import { DayPlan, Slot } from "../types/plan";
+import { WeeklyPlannerPolicy, bucketForHour } from "../tuner/weeklyPlannerPolicy";
+import { ScoreBreakdown, SchedulerRule, SlotRationale, createRationale } from "./rules";
+import { WhyNotCandidate, WhyNotOptions, WhyNotReport } from "./types";
+import { parseDeadline, toISODate } from "./calendar";
+import { bucketWeight, examAdjustedPolicy } from "./objective";
+import {
+  addedContextSwitches,
+  breakSlotsFor,
+  maxConsecutiveSlotsFor,
+  respectsStudyRhythm,
+  studyKey,
+} from "./studyRhythm";
+import { dayFactor, isForbiddenSlot, windowFactor } from "./goalPreferences";
+import { prerequisitesByGoal } from "./dependencies";
+import { completedMinutesByGoal, getGoalProgress } from "../lib/goalProgress";
+
+/**
+ * Why-not explanations: replays the greedy scheduler's checks for one goal
+ * against a finished plan. Every block start of the plan (or of one day or
+ * slot) becomes a candidate with its score and the first rule that rejects
+ * it, so the UI can answer "why did this goal not get more time here?".
+ *
+ * The checks run on the final plan, not during the run: a candidate can be
+ * "available" simply because the scheduler took a higher-scoring slot first
+ * or kept the goal's weekly pace.
+ */
+
+// Plan positions for dependency order: day * DAY_SPAN + slot
+const DAY_SPAN = 10000;
+
+const slotOfGoal = (goal: Goal) => (slot: Slot) =>
+  slot.type === "study" && (slot.goalId !== undefined ? slot.goalId === goal.id : slot.label === goal.title);
+
+export function explainGoal(
+  goal: Goal,
+  plan: DayPlan[],
+  policy: WeeklyPlannerPolicy,
+  options: WhyNotOptions = {}
+): WhyNotReport {
+  const now = options.now ?? new Date();
+  const today = toISODate(now);
+  const goals = options.goals ?? [goal];
+  const { policy: effectivePolicy } = examAdjustedPolicy(goals, policy, now);
+  const switchPenalty = Math.max(0, effectivePolicy.contextSwitchPenalty ?? 0);
+  const ofGoal = slotOfGoal(goal);
+
+  // Remaining effort not covered by study slots of the plan
+  const completed = completedMinutesByGoal(options.sessions ?? []);
+  const unplannedOf = (g: Goal) => {
+    const planned = plan.reduce(
+      (sum, day) => sum + day.slots.filter(slotOfGoal(g)).length * (day.slotMinutes ?? policy.slotMinutes),
+      0
+    );
+    return Math.max(0, getGoalProgress(g, completed).remainingMinutes - planned);
+  };
+  const unplannedMinutes = unplannedOf(goal);
+
+  // A prerequisite blocks everything before the end of its last block, or
+  // everything while some of its hours are still unplanned.
+  const prerequisites = (goal.id !== undefined ? prerequisitesByGoal(goals).get(goal.id) ?? [] : [])
+    .map((id) => goals.find((g) => g.id === id))
+    .filter((p): p is Goal => p !== undefined)
+    .map((p) => {
+      let endsAt = -1;
+      plan.forEach((day, d) =>
+        day.slots.forEach((slot, s) => {
+          if (slotOfGoal(p)(slot)) endsAt = d * DAY_SPAN + s + 1;
+        })
+      );
+      return { title: p.title, endsAt: unplannedOf(p) > 0 ? Infinity : endsAt };
+    });
+
+  const deadline = goal.deadline ? toISODate(parseDeadline(goal.deadline)) : undefined;
+  const candidates: WhyNotCandidate[] = [];
+
+  plan.forEach((day, d) => {
+    if (options.date && day.date !== options.date) return;
+
+    const slotMinutes = day.slotMinutes ?? policy.slotMinutes;
+    const maxPerDaySlots = Math.floor((effectivePolicy.maxStudyMinutesPerDay || 0) / slotMinutes);
+    const maxRunSlots = maxConsecutiveSlotsFor(effectivePolicy, slotMinutes);
+    const breakSlots = breakSlotsFor(effectivePolicy, slotMinutes);
+    const minSlots = Math.max(1, Math.ceil((goal.minBlockMinutes ?? 0) / slotMinutes));
+    const maxDaySlots = goal.maxMinutesPerDay ? Math.floor(goal.maxMinutesPerDay / slotMinutes) : Infinity;
+    const keyAt = (i: number) => studyKey(day.slots[i]);
+    const goalKey = goal.id !== undefined ? `#${goal.id}` : goal.title;
+    const usedSlots = day.slots.filter((s) => s.type === "study" || s.type === "review").length;
+    const goalSlots = day.slots.filter(ofGoal).length;
+    const dayWeight = dayFactor(goal, day.dayName, effectivePolicy);
+
+    day.slots.forEach((slot, s) => {
+      if (
+        options.startMinutes !== undefined &&
+        !(slot.startMinutes <= options.startMinutes && options.startMinutes < slot.startMinutes + slotMinutes)
+      ) {
+        return;
+      }
+
+      // Same block length and score as the greedy pass (weeklyScheduler.ts)
+      const bucket = bucketForHour(Math.floor(slot.startMinutes / 60), effectivePolicy);
+      const desiredMinutes =
+        goal.preferredBlockMinutes ??
+        (bucket === "evening"
+          ? effectivePolicy.eveningStudyBlockMinutes
+          : effectivePolicy.baseStudyBlockMinutes);
+      const len = Math.min(
+        Math.max(minSlots, Math.round(desiredMinutes / slotMinutes)),
+        maxRunSlots,
+        day.slots.length - s
+      );
+      const block = day.slots.slice(s, s + len);
+
+      let forbidden = false;
+      let windowSum = 0;
+      for (const b of block) {
+        forbidden ||= isForbiddenSlot(goal, b.startMinutes, slotMinutes);
+        windowSum += windowFactor(goal, b.startMinutes, slotMinutes, effectivePolicy);
+      }
+      const windowWeight = windowSum / len;
+      const switches = switchPenalty > 0 ? addedContextSwitches(keyAt, day.slots.length, s, len, goalKey) : 0;
+      const weight = bucketWeight(bucket, effectivePolicy);
+      const timePenalty = (s / day.slots.length) * 0.08;
+      const score = weight * windowWeight * dayWeight - timePenalty - switches * switchPenalty;
+      const scoreBreakdown: ScoreBreakdown = {
+        bucketWeight: weight,
+        windowFactor: windowWeight,
+        dayFactor: dayWeight,
+        timePenalty,
+        switchPenalty: switches * switchPenalty,
+        total: score,
+      };
+
+      const details: SlotRationale["details"] = {
+        goalTitle: goal.title,
+        dayName: day.dayName,
+        date: day.date,
+        startMinutes: slot.startMinutes,
+        blockLength: len * slotMinutes,
+        bucket,
+        score,
+      };
+      const reject = (rule: SchedulerRule, extra: SlotRationale["details"] = {}) => ({
+        status: "rejected" as const,
+        rationale: createRationale(rule, { ...details, ...extra }),
+      });
+      const waitingFor = prerequisites.find((p) => d * DAY_SPAN + s < p.endsAt);
+
+      let verdict: Pick<WhyNotCandidate, "status" | "rationale">;
+      if (ofGoal(slot)) {
+        verdict = {
+          status: "placed",
+          rationale: slot.rationale ?? createRationale(SchedulerRule.GOAL_BLOCK_BEST_SCORE, details),
+        };
+      } else if (goal.status === "postponed") {
+        verdict = reject(SchedulerRule.GOAL_POSTPONED_SKIPPED);
+      } else if (day.date && day.date < today) {
+        verdict = reject(SchedulerRule.SLOT_IN_PAST);
+      } else if (deadline && day.date && day.date >= deadline) {
+        verdict = reject(SchedulerRule.SLOT_AFTER_DEADLINE, { deadline });
+      } else if (slot.type === "busy") {
+        verdict = reject(
+          slot.rationale?.rule === SchedulerRule.CONSTRAINT_DAY_OFF
+            ? SchedulerRule.CONSTRAINT_DAY_OFF
+            : SchedulerRule.CONSTRAINT_BLOCKED_SLOT,
+          { constraintTitle: slot.label }
+        );
+      } else if (slot.type !== "free") {
+        verdict = reject(SchedulerRule.SLOT_ALREADY_OCCUPIED, { occupiedBy: slot.label });
+      } else if (forbidden) {
+        verdict = reject(SchedulerRule.SLOT_FORBIDDEN_WINDOW);
+      } else if (len < minSlots || block.some((b) => b.type !== "free")) {
+        verdict = reject(SchedulerRule.SLOT_NOT_CONTIGUOUS, { minBlockMinutes: goal.minBlockMinutes });
+      } else if (usedSlots + len > maxPerDaySlots) {
+        verdict = reject(SchedulerRule.DAILY_STUDY_LIMIT_REACHED, {
+          dailyLimit: (maxPerDaySlots * slotMinutes) / 60,
+          usedToday: (usedSlots * slotMinutes) / 60,
+        });
+      } else if (goalSlots + len > maxDaySlots) {
+        verdict = reject(SchedulerRule.GOAL_DAILY_CAP_REACHED, { maxMinutesPerDay: goal.maxMinutesPerDay });
+      } else if (!respectsStudyRhythm(keyAt, s, len, breakSlots, Infinity)) {
+        verdict = reject(SchedulerRule.STUDY_BREAK_BUFFER, { breakMinutes: effectivePolicy.breakMinutes });
+      } else if (!respectsStudyRhythm(keyAt, s, len, 0, maxRunSlots)) {
+        verdict = reject(SchedulerRule.STUDY_MAX_CONSECUTIVE_REACHED, {
+          maxConsecutiveMinutes: effectivePolicy.maxConsecutiveStudyMinutes,
+        });
+      } else if (waitingFor) {
+        verdict = reject(SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY, { prerequisiteTitle: waitingFor.title });
+      } else {
+        verdict = {
+          status: "available",
+          rationale: createRationale(
+            unplannedMinutes > 0 ? SchedulerRule.CANDIDATE_LOWER_SCORE : SchedulerRule.GOAL_HOURS_FULLY_PLANNED,
+            details
+          ),
+        };
+      }
+
+      candidates.push({
+        date: day.date,
+        dayName: day.dayName,
+        startMinutes: slot.startMinutes,
+        blockMinutes: len * slotMinutes,
+        score,
+        scoreBreakdown,
+        ...verdict,
+      });
+    });
+  });
+
+  const rejectedBy: WhyNotReport["rejectedBy"] = {};
+  for (const c of candidates) {
+    if (c.status === "rejected") rejectedBy[c.rationale.rule] = (rejectedBy[c.rationale.rule] ?? 0) + 1;
+  }
+
+  return { goalId: goal.id, goalTitle: goal.title, unplannedMinutes, candidates, rejectedBy };
+}
@@ -0,0 +1,84 @@
+import type { Goal, TimeWindow } from "../types/models";
+import { WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { parseTimeOfDay } from "./calendar";
+
+/**
+ * Per-goal time preferences: forbidden windows are hard (a block never
+ * touches them), preferred windows and preferred/avoided days only scale the
+ * block score together with the global bucket weights.
+ */
+
+export type GoalTimePreferences = Pick<
+  Goal,
+  "preferredWindows" | "forbiddenWindows" | "preferredDays" | "avoidedDays"
+>;
+
+const windowRange = (w: TimeWindow) => {
+  const start = parseTimeOfDay(w.startTime);
+  const end = parseTimeOfDay(w.endTime);
+  return start === undefined || end === undefined || end <= start ? undefined : { start, end };
+};
+
+/** Whether the slot [startMinutes, startMinutes + slotMinutes) overlaps a forbidden window. */
+export function isForbiddenSlot(
+  prefs: GoalTimePreferences | undefined,
+  startMinutes: number,
+  slotMinutes: number
+): boolean {
+  return (prefs?.forbiddenWindows ?? []).some((w) => {
+    const range = windowRange(w);
+    return !!range && startMinutes < range.end && range.start < startMinutes + slotMinutes;
+  });
+}
+
+/** policy.preferredWindowWeight if the slot lies inside a preferred window, else 1. */
+export function windowFactor(
+  prefs: GoalTimePreferences | undefined,
+  startMinutes: number,
+  slotMinutes: number,
+  policy: WeeklyPlannerPolicy
+): number {
+  const inside = (prefs?.preferredWindows ?? []).some((w) => {
+    const range = windowRange(w);
+    return !!range && range.start <= startMinutes && startMinutes + slotMinutes <= range.end;
+  });
+  return inside ? policy.preferredWindowWeight ?? 1 : 1;
+}
+
+export function dayFactor(
+  prefs: GoalTimePreferences | undefined,
+  dayName: string,
+  policy: WeeklyPlannerPolicy
+): number {
+  if (prefs?.avoidedDays?.includes(dayName)) return policy.avoidedDayWeight ?? 1;
+  if (prefs?.preferredDays?.includes(dayName)) return policy.preferredDayWeight ?? 1;
+  return 1;
+}
+
+/** Combined preference multiplier of one slot. */
+export function preferenceFactor(
+  prefs: GoalTimePreferences | undefined,
+  dayName: string,
+  startMinutes: number,
+  slotMinutes: number,
+  policy: WeeklyPlannerPolicy
+): number {
+  return windowFactor(prefs, startMinutes, slotMinutes, policy) * dayFactor(prefs, dayName, policy);
+}
+
+/** Preferences by goal id, for code that only sees slots. */
+export function preferencesByGoal(goals: Goal[]): Map<number, GoalTimePreferences> {
+  return new Map(
+    goals
+      .filter((g) => g.id !== undefined)
+      .map((g) => [
+        g.id as number,
+        {
+          preferredWindows: g.preferredWindows,
+          forbiddenWindows: g.forbiddenWindows,
+          preferredDays: g.preferredDays,
+          avoidedDays: g.avoidedDays,
+        },
+      ])
+  );
+}
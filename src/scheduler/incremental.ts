@@ -0,0 +1,385 @@
+import type { Goal, Constraint } from "../types/models";
+import { DayPlan, Slot } from "../types/plan";
+import { DEFAULT_WEEKLY_PLANNER_POLICY, WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { SchedulerRule, SlotRationale, createRationale } from "./rules";
+import { BlockMove, PlacedBlock, ScheduleResult, SchedulerOptions } from "./types";
+import { SLOT_MINUTES, schedule, slotMinutesOf } from "./weeklyScheduler";
+import { parseDeadline, toISODate } from "./calendar";
+import { isForbiddenSlot } from "./goalPreferences";
+import { prerequisitesByGoal } from "./dependencies";
+import { StudyKeyAt, breakSlotsFor, maxConsecutiveSlotsFor, respectsStudyRhythm, studyKey } from "./studyRhythm";
+import { completedMinutesByGoal, getGoalProgress } from "../lib/goalProgress";
+
+/**
+ * Incremental replanning: repairs the stored plan (options.pinned) after a
+ * change instead of rebuilding it, so blocks the user already committed to
+ * stay where they are.
+ *
+ * 1. Constraints and user pins are laid out on an empty plan.
+ * 2. Every unpinned study block of the stored plan from today on is kept if it
+ *    still holds: goal active, before its deadline, slots still free, outside
+ *    its forbidden windows, with the break and consecutive-study limits
+ *    (studyRhythm.ts) towards the blocks kept before it, within the daily caps
+ *    and the remaining effort (a block over the remaining effort is shortened
+ *    if its start still meets the goal's minimum block). Blocks of a goal that
+ *    start before the end of a prerequisite (Goal.dependsOn) are dropped, all
+ *    of them while the prerequisite still has hours to place. Pending review
+ *    slots are kept the same way.
+ * 3. The greedy pass places whatever is left around the kept blocks.
+ * 4. Every block that differs from the stored plan is reported in `moves`.
+ *
+ * Kept blocks are not re-scored; a plan made with other scoring settings
+ * (strategy or weights, see scoringKey) is rebuilt instead of repaired, as is
+ * every plan in policy.replanMode 'full'.
+ */
+
+interface StoredBlock extends PlacedBlock {
+  goalKey?: number | string;
+  goalTitle: string;
+  goalId?: number;
+  slots: Slot[];
+}
+
+const slotKey = (date: string | undefined, startMinutes: number) => `${date}|${startMinutes}`;
+const goalKeyOf = (slot: Slot) => slot.goalId ?? slot.label;
+
+/**
+ * Policy fields that decide where blocks go (strategy, bucket windows and
+ * weights, preference and priority weights). Plans store it so a change of
+ * any of them forces a full rebuild.
+ */
+export function scoringKey(policy: WeeklyPlannerPolicy): string {
+  return JSON.stringify([
+    policy.schedulerStrategy,
+    policy.localSearchIterations,
+    policy.contextSwitchPenalty,
+    policy.morningStartHour,
+    policy.morningEndHour,
+    policy.eveningStartHour,
+    policy.eveningEndHour,
+    policy.morningWeight,
+    policy.middayWeight,
+    policy.eveningWeight,
+    policy.preferredWindowWeight,
+    policy.preferredDayWeight,
+    policy.avoidedDayWeight,
+    policy.examWindowDays,
+    policy.examMorningBoost,
+    policy.examEveningPenalty,
+    policy.priorityWeights,
+  ]);
+}
+
+/**
+ * Whether the stored plan can be repaired: it has unpinned study, the same
+ * slot size and (when known) was planned with the same scoring settings.
+ */
+export function canRepair(policy: WeeklyPlannerPolicy, options: SchedulerOptions): boolean {
+  const slotMinutes = options.slotMinutes ?? policy.slotMinutes ?? SLOT_MINUTES;
+  const previous = options.pinned ?? [];
+  return (
+    (options.pinnedScoringKey === undefined || options.pinnedScoringKey === scoringKey(policy)) &&
+    previous.some((day) => day.slots.some((s) => s.type === "study" && !s.pinned)) &&
+    previous.every((day) => slotMinutesOf(day) === slotMinutes)
+  );
+}
+
+/** Study blocks of a plan from `fromDate` on (consecutive slots of one goal). */
+function blocksOf(
+  plan: DayPlan[],
+  fromDate: string,
+  include: (slot: Slot, day: DayPlan) => boolean
+): StoredBlock[] {
+  const blocks: StoredBlock[] = [];
+  for (const day of plan) {
+    if (!day.date || day.date < fromDate) continue;
+    for (let s = 0; s < day.slots.length; ) {
+      const slot = day.slots[s];
+      if (slot.type !== "study" || !include(slot, day)) {
+        s++;
+        continue;
+      }
+      let len = 1;
+      while (
+        day.slots[s + len]?.type === "study" &&
+        include(day.slots[s + len], day) &&
+        goalKeyOf(day.slots[s + len]) === goalKeyOf(slot)
+      ) {
+        len++;
+      }
+      blocks.push({
+        date: day.date,
+        dayName: day.dayName,
+        startMinutes: slot.startMinutes,
+        minutes: len * slotMinutesOf(day),
+        goalKey: goalKeyOf(slot),
+        goalTitle: slot.label ?? "",
+        goalId: slot.goalId,
+        slots: day.slots.slice(s, s + len),
+      });
+      s += len;
+    }
+  }
+  return blocks;
+}
+
+const placedBlock = ({ date, dayName, startMinutes, minutes }: PlacedBlock): PlacedBlock => ({
+  date,
+  dayName,
+  startMinutes,
+  minutes,
+});
+
+export function replan(
+  goals: Goal[] = [],
+  constraints: Constraint[] = [],
+  policy: WeeklyPlannerPolicy = DEFAULT_WEEKLY_PLANNER_POLICY,
+  options: SchedulerOptions = {},
+  refine?: (result: ScheduleResult) => ScheduleResult
+): ScheduleResult {
+  const previous = options.pinned ?? [];
+  const slotMinutes = options.slotMinutes ?? policy.slotMinutes ?? SLOT_MINUTES;
+  const today = toISODate(options.now ?? new Date());
+  const maxPerDaySlots = Math.floor((policy.maxStudyMinutesPerDay || 0) / slotMinutes);
+  const breakSlots = breakSlotsFor(policy, slotMinutes);
+  const maxRunSlots = maxConsecutiveSlotsFor(policy, slotMinutes);
+
+  // 1) Constraints and user pins of the new inputs
+  const layout = schedule([], constraints, policy, options).plan;
+  const layoutByDate = new Map(layout.map((day) => [day.date, day]));
+
+  const goalOf = (slot: Slot) =>
+    goals.find((g) => (slot.goalId !== undefined ? g.id === slot.goalId : g.title === slot.label));
+
+  // Study already fixed by the user counts towards caps and remaining effort
+  const usedSlots = new Map<string | undefined, number>();
+  const goalDaySlots = new Map<string, number>();
+  const completed = completedMinutesByGoal(options.sessions ?? []);
+  const budget = new Map(goals.map((g) => [g, getGoalProgress(g, completed).remainingMinutes]));
+  for (const day of layout) {
+    for (const slot of day.slots) {
+      if (!slot.pinned || (slot.type !== "study" && slot.type !== "review")) continue;
+      usedSlots.set(day.date, (usedSlots.get(day.date) ?? 0) + 1);
+      const goal = goalOf(slot);
+      if (slot.type !== "study" || !goal) continue;
+      budget.set(goal, (budget.get(goal) ?? 0) - slotMinutes);
+      const key = `${day.date}|${goal.id ?? goal.title}`;
+      goalDaySlots.set(key, (goalDaySlots.get(key) ?? 0) + 1);
+    }
+  }
+
+  const kept = new Map<string, Slot>();
+  const keep = (date: string | undefined, slots: Slot[]) => {
+    for (const slot of slots) kept.set(slotKey(date, slot.startMinutes), slot);
+    usedSlots.set(date, (usedSlots.get(date) ?? 0) + slots.length);
+  };
+  // Study of a day as seen by the rhythm checks: user pins and kept blocks
+  const studyKeyAt = (day: DayPlan): StudyKeyAt => (index) => {
+    const slot = day.slots[index];
+    if (!slot) return undefined;
+    return studyKey(kept.get(slotKey(day.date, slot.startMinutes)) ?? (slot.pinned ? slot : undefined));
+  };
+
+  // 2a) Pending reviews stay on their slot while it is free
+  const pendingReviews = new Set(
+    (options.reviews ?? []).filter((r) => r.status === "pending").map((r) => r.id)
+  );
+  for (const day of previous) {
+    if (!day.date || day.date < today) continue;
+    for (const slot of day.slots) {
+      if (slot.type !== "review" || slot.pinned || !pendingReviews.has(slot.reviewId)) continue;
+      const target = layoutByDate.get(day.date)?.slots.find((s) => s.startMinutes === slot.startMinutes);
+      if (target?.type !== "free" || (usedSlots.get(day.date) ?? 0) + 1 > maxPerDaySlots) continue;
+      keep(day.date, [slot]);
+    }
+  }
+
+  // 2b) Study blocks, in time order so the earliest keep their hours
+  const dropped: { block: StoredBlock; rationale: SlotRationale; keptSlots: number }[] = [];
+  const keptBlocks: { block: StoredBlock; goal: Goal; slots: Slot[] }[] = [];
+  for (const block of blocksOf(previous, today, (slot) => !slot.pinned)) {
+    const layoutDay = layoutByDate.get(block.date);
+    if (!layoutDay) continue;
+
+    const goal = goalOf(block.slots[0]);
+    const details: SlotRationale["details"] = {
+      goalTitle: block.goalTitle,
+      dayName: block.dayName,
+      date: block.date,
+      startMinutes: block.startMinutes,
+      blockLength: block.minutes,
+    };
+    const len = block.slots.length;
+    const targets = block.slots.map((p) => layoutDay.slots.find((s) => s.startMinutes === p.startMinutes));
+    const taken = targets.find((s) => s && s.type !== "free");
+    const goalDayKey = `${block.date}|${goal?.id ?? goal?.title}`;
+    const deadline = goal?.deadline ? toISODate(parseDeadline(goal.deadline)) : undefined;
+
+    let keepSlots = 0;
+    let rationale: SlotRationale | undefined;
+    if (!goal || goal.status === "completed") {
+      rationale = createRationale(SchedulerRule.REPLAN_GOAL_REMOVED, details);
+    } else if (goal.status === "postponed") {
+      rationale = createRationale(SchedulerRule.GOAL_POSTPONED_SKIPPED, details);
+    } else if (deadline && block.date && block.date >= deadline) {
+      rationale = createRationale(SchedulerRule.SLOT_AFTER_DEADLINE, { ...details, deadline });
+    } else if (targets.some((s) => !s)) {
+      rationale = createRationale(SchedulerRule.REPLAN_SLOT_UNAVAILABLE, details);
+    } else if (taken) {
+      rationale = taken.type === "busy"
+        ? createRationale(
+            taken.rationale?.rule === SchedulerRule.CONSTRAINT_DAY_OFF
+              ? SchedulerRule.CONSTRAINT_DAY_OFF
+              : SchedulerRule.CONSTRAINT_BLOCKED_SLOT,
+            { ...details, constraintTitle: taken.label }
+          )
+        : createRationale(SchedulerRule.SLOT_ALREADY_OCCUPIED, { ...details, occupiedBy: taken.label });
+    } else if (block.slots.some((p) => isForbiddenSlot(goal, p.startMinutes, slotMinutes))) {
+      rationale = createRationale(SchedulerRule.SLOT_FORBIDDEN_WINDOW, details);
+    } else if (
+      !respectsStudyRhythm(
+        studyKeyAt(layoutDay),
+        layoutDay.slots.findIndex((s) => s.startMinutes === block.startMinutes),
+        len,
+        breakSlots,
+        maxRunSlots
+      )
+    ) {
+      rationale = breakSlots === 0 || len > maxRunSlots
+        ? createRationale(SchedulerRule.STUDY_MAX_CONSECUTIVE_REACHED, {
+            ...details,
+            maxConsecutiveMinutes: policy.maxConsecutiveStudyMinutes,
+          })
+        : createRationale(SchedulerRule.STUDY_BREAK_BUFFER, { ...details, breakMinutes: policy.breakMinutes });
+    } else if ((usedSlots.get(block.date) ?? 0) + len > maxPerDaySlots) {
+      rationale = createRationale(SchedulerRule.DAILY_STUDY_LIMIT_REACHED, {
+        ...details,
+        dailyLimit: (maxPerDaySlots * slotMinutes) / 60,
+        usedToday: ((usedSlots.get(block.date) ?? 0) * slotMinutes) / 60,
+      });
+    } else if (
+      goal.maxMinutesPerDay &&
+      ((goalDaySlots.get(goalDayKey) ?? 0) + len) * slotMinutes > goal.maxMinutesPerDay
+    ) {
+      rationale = createRationale(SchedulerRule.GOAL_DAILY_CAP_REACHED, {
+        ...details,
+        maxMinutesPerDay: goal.maxMinutesPerDay,
+      });
+    } else {
+      const fits = Math.ceil(Math.max(0, budget.get(goal) ?? 0) / slotMinutes);
+      const minSlots = Math.max(1, Math.ceil((goal.minBlockMinutes ?? 0) / slotMinutes));
+      keepSlots = fits >= len ? len : fits >= minSlots ? fits : 0;
+      if (keepSlots < len) rationale = createRationale(SchedulerRule.GOAL_HOURS_FULLY_PLANNED, details);
+    }
+
+    if (goal && keepSlots > 0) {
+      keep(block.date, block.slots.slice(0, keepSlots));
+      keptBlocks.push({ block, goal, slots: block.slots.slice(0, keepSlots) });
+      budget.set(goal, (budget.get(goal) ?? 0) - keepSlots * slotMinutes);
+      goalDaySlots.set(goalDayKey, (goalDaySlots.get(goalDayKey) ?? 0) + keepSlots);
+    }
+    if (rationale) dropped.push({ block, rationale, keptSlots: keepSlots });
+  }
+
+  // 2c) Prerequisite order. Positions compare as "date|minutes" strings.
+  const position = (date: string | undefined, minutes: number) => `${date}|${String(minutes).padStart(4, "0")}`;
+  const prerequisites = prerequisitesByGoal(goals);
+  const endOf = (goal: Goal) => {
+    const ends = keptBlocks
+      .filter((k) => k.goal === goal)
+      .map((k) => position(k.block.date, k.block.startMinutes + k.slots.length * slotMinutes));
+    for (const day of layout) {
+      for (const slot of day.slots) {
+        if (slot.pinned && slot.type === "study" && goalOf(slot) === goal) {
+          ends.push(position(day.date, slot.startMinutes + slotMinutes));
+        }
+      }
+    }
+    return ends.sort().at(-1) ?? "";
+  };
+  // Dropping a goal's blocks gives it hours to place again, which blocks its
+  // own dependents in turn: repeat until nothing changes
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const entry of [...keptBlocks]) {
+      const start = position(entry.block.date, entry.block.startMinutes);
+      const blocking = (entry.goal.id !== undefined ? prerequisites.get(entry.goal.id) ?? [] : [])
+        .map((id) => goals.find((g) => g.id === id) as Goal)
+        .find((p) => p.status !== "completed" && ((budget.get(p) ?? 0) > 0 || start < endOf(p)));
+      if (!blocking) continue;
+
+      for (const slot of entry.slots) kept.delete(slotKey(entry.block.date, slot.startMinutes));
+      usedSlots.set(entry.block.date, (usedSlots.get(entry.block.date) ?? 0) - entry.slots.length);
+      budget.set(entry.goal, (budget.get(entry.goal) ?? 0) + entry.slots.length * slotMinutes);
+      const goalDayKey = `${entry.block.date}|${entry.goal.id ?? entry.goal.title}`;
+      goalDaySlots.set(goalDayKey, (goalDaySlots.get(goalDayKey) ?? 0) - entry.slots.length);
+      keptBlocks.splice(keptBlocks.indexOf(entry), 1);
+
+      const rationale = createRationale(SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY, {
+        goalTitle: entry.block.goalTitle,
+        prerequisiteTitle: blocking.title,
+        dayName: entry.block.dayName,
+        date: entry.block.date,
+      });
+      const shortened = dropped.find((d) => d.block === entry.block);
+      if (shortened) Object.assign(shortened, { rationale, keptSlots: 0 });
+      else dropped.push({ block: entry.block, rationale, keptSlots: 0 });
+      changed = true;
+    }
+  }
+
+  // 3) Greedy fill around the kept slots (passed as temporary pins); `refine`
+  // (the local search) only moves the new blocks while the kept ones are pinned
+  const pinned = layout.map((day) => ({
+    ...day,
+    slots: day.slots.map((slot) => {
+      const stored = kept.get(slotKey(day.date, slot.startMinutes));
+      return stored ? { ...stored, pinned: true } : slot;
+    }),
+  }));
+  const filled = schedule(goals, constraints, policy, { ...options, pinned });
+  const result = refine ? refine(filled) : filled;
+  for (const day of result.plan) {
+    for (const slot of day.slots) {
+      const stored = kept.get(slotKey(day.date, slot.startMinutes));
+      if (!stored) continue;
+      slot.pinned = false;
+      slot.rationale = stored.rationale ?? slot.rationale;
+    }
+  }
+
+  // 4) Moves: dropped blocks are paired with the goal's new blocks in time order
+  const added = blocksOf(
+    result.plan,
+    today,
+    (slot, day) => !slot.pinned && !kept.has(slotKey(day.date, slot.startMinutes))
+  );
+  const moves: BlockMove[] = [];
+  for (const { block, rationale, keptSlots } of dropped) {
+    const base = { goalId: block.goalId, goalTitle: block.goalTitle, from: placedBlock(block), rationale };
+    if (keptSlots > 0) {
+      moves.push({ ...base, kind: "shortened", to: { ...placedBlock(block), minutes: keptSlots * slotMinutes } });
+      continue;
+    }
+    const next = added.findIndex((b) => b.goalKey === block.goalKey);
+    if (next === -1) {
+      moves.push({ ...base, kind: "removed" });
+    } else {
+      moves.push({ ...base, kind: "moved", to: placedBlock(added[next]) });
+      added.splice(next, 1);
+    }
+  }
+  for (const block of added) {
+    moves.push({
+      goalId: block.goalId,
+      goalTitle: block.goalTitle,
+      kind: "added",
+      to: placedBlock(block),
+      rationale: block.slots[0].rationale ?? createRationale(SchedulerRule.GOAL_BLOCK_BEST_SCORE, {
+        goalTitle: block.goalTitle,
+      }),
+    });
+  }
+
+  return { ...result, moves };
+}
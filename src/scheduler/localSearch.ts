@@ -0,0 +1,347 @@
+import type { Goal } from "../types/models";
+import { DayPlan, Slot } from "../types/plan";
+import { WeeklyPlannerPolicy, bucketForHour } from "../tuner/weeklyPlannerPolicy";
+import { SchedulerRule, createRationale } from "./rules";
+import { ScheduleResult } from "./types";
+import { parseDeadline, toISODate } from "./calendar";
+import { bucketWeight, examAdjustedPolicy, scorePlan, slotValue } from "./objective";
+import { dayFactor, isForbiddenSlot, preferenceFactor, preferencesByGoal, windowFactor } from "./goalPreferences";
+import { prerequisitesByGoal } from "./dependencies";
+import {
+  breakSlotsFor,
+  countContextSwitches,
+  markBreakSlots,
+  maxConsecutiveSlotsFor,
+  respectsStudyRhythm,
+  studyKey,
+} from "./studyRhythm";
+
+/**
+ * Local search strategy.
+ *
+ * Starts from the greedy plan and relocates whole study blocks with simulated
+ * annealing to maximize the shared objective (see objective.ts). A move keeps
+ * every hard rule of the greedy plan:
+ * - only free slots are used, so constraints and pinned slots stay untouched
+ * - the daily study cap, the goal's own daily cap, breaks and the
+ *   consecutive-study limit are respected
+ * - blocks never enter their goal's forbidden windows
+ * - a goal's blocks stay after its prerequisites' blocks (Goal.dependsOn)
+ * - blocks stay in their week (weekly pacing) and before their goal's deadline
+ * - nothing is moved onto days before today
+ * Subject changes created or removed by a move count in its score.
+ */
+
+export interface LocalSearchOptions {
+  /** Number of moves to try. Defaults to policy.localSearchIterations. */
+  iterations?: number;
+  /** PRNG seed; the same seed and inputs always give the same plan. */
+  seed?: number;
+  now?: Date;
+  /** Called every PROGRESS_EVERY moves with the done share (0..1). */
+  onProgress?: (progress: number) => void;
+}
+
+interface Block {
+  day: number;
+  start: number;
+  len: number;
+  goalId?: number;
+  label?: string;
+  priority?: Goal["priority"];
+  /** Slots as the greedy pass left them, restored when the block does not move. */
+  original: Slot[];
+  originDay: number;
+  originStart: number;
+}
+
+const INITIAL_TEMPERATURE = 0.3;
+const FINAL_TEMPERATURE = 0.001;
+const PROGRESS_EVERY = 250;
+
+// Small seeded PRNG (mulberry32) so every device computes the same plan.
+function createRandom(seed: number) {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Non-pinned runs of study slots of the same goal. */
+function collectBlocks(plan: DayPlan[]): Block[] {
+  const blocks: Block[] = [];
+  plan.forEach((day, d) => {
+    let s = 0;
+    while (s < day.slots.length) {
+      const slot = day.slots[s];
+      if (slot.type !== "study" || slot.pinned) {
+        s++;
+        continue;
+      }
+      let len = 1;
+      while (
+        s + len < day.slots.length &&
+        day.slots[s + len].type === "study" &&
+        !day.slots[s + len].pinned &&
+        day.slots[s + len].goalId === slot.goalId &&
+        day.slots[s + len].label === slot.label
+      ) {
+        len++;
+      }
+      blocks.push({
+        day: d,
+        start: s,
+        len,
+        goalId: slot.goalId,
+        label: slot.label,
+        priority: slot.priority,
+        original: day.slots.slice(s, s + len).map((x) => ({ ...x })),
+        originDay: d,
+        originStart: s,
+      });
+      s += len;
+    }
+  });
+  return blocks;
+}
+
+export function optimizeSchedule(
+  base: ScheduleResult,
+  goals: Goal[],
+  policy: WeeklyPlannerPolicy,
+  options: LocalSearchOptions = {}
+): ScheduleResult & { movedBlocks: number } {
+  const now = options.now ?? new Date();
+  const { policy: effectivePolicy } = examAdjustedPolicy(goals, policy, now);
+  const iterations = Math.max(0, Math.round(options.iterations ?? policy.localSearchIterations ?? 0));
+  const random = createRandom(options.seed ?? 1);
+  const today = toISODate(now);
+
+  const plan: DayPlan[] = base.plan.map((d) => ({ ...d, slots: d.slots.map((s) => ({ ...s })) }));
+  const blocks = collectBlocks(plan);
+  const unchanged = { ...base, strategy: "local_search" as const, movedBlocks: 0 };
+  if (blocks.length === 0 || iterations === 0) return unchanged;
+
+  const slotMinutesOf = (d: number) => plan[d].slotMinutes ?? policy.slotMinutes;
+  const deadlines = new Map(
+    goals
+      .filter((g) => g.id !== undefined && g.deadline)
+      .map((g) => [g.id as number, toISODate(parseDeadline(g.deadline as Date))])
+  );
+
+  // Occupancy: -1 fixed (busy / pinned / day off), 0 free, k + 1 = blocks[k]
+  const occupancy = plan.map((day) => day.slots.map((s): number => (s.type === "free" ? 0 : -1)));
+  const studyMinutes = plan.map((day, d) =>
+    day.slots.filter((s) => s.type === "study" || s.type === "review").length * slotMinutesOf(d)
+  );
+  blocks.forEach((b, k) => {
+    for (let i = 0; i < b.len; i++) occupancy[b.day][b.start + i] = k + 1;
+  });
+
+  // Goal keys of the blocks and of fixed (pinned) study slots
+  const blockKeys = blocks.map((b) => studyKey(b.original[0]));
+  const fixedKeys = plan.map((day) => day.slots.map((s) => (s.pinned ? studyKey(s) : undefined)));
+  const switchPenalty = Math.max(0, effectivePolicy.contextSwitchPenalty ?? 0);
+
+  // Study key at a slot of day d, ignoring block k (and placing it at `at` if given)
+  const keyAt = (d: number, k: number, at?: number) => (i: number) => {
+    if (at !== undefined && i >= at && i < at + blocks[k].len) return blockKeys[k];
+    const o = occupancy[d][i];
+    if (o === undefined || o === 0 || o === k + 1) return undefined;
+    return o === -1 ? fixedKeys[d][i] : blockKeys[o - 1];
+  };
+  const switchesOf = (d: number, k: number, at?: number) =>
+    countContextSwitches(keyAt(d, k, at), plan[d].slots.length);
+
+  // Per-goal daily cap (Goal.maxMinutesPerDay)
+  const goalDayCaps = new Map(
+    goals
+      .filter((g) => g.id !== undefined && g.maxMinutesPerDay)
+      .map((g) => [g.id as number, g.maxMinutesPerDay as number])
+  );
+  const fitsGoalDayCap = (b: Block, k: number, d: number) => {
+    const cap = b.goalId !== undefined ? goalDayCaps.get(b.goalId) : undefined;
+    if (cap === undefined) return true;
+    const key = keyAt(d, k);
+    let slots = b.len;
+    for (let i = 0; i < plan[d].slots.length; i++) if (key(i) === blockKeys[k]) slots++;
+    return slots * slotMinutesOf(d) <= cap;
+  };
+
+  const allowedDay = (b: Block, d: number) => {
+    const date = plan[d]?.date;
+    if (!date || Math.floor(d / 7) !== Math.floor(b.originDay / 7)) return false;
+    if (date < today) return false;
+    const deadline = b.goalId !== undefined ? deadlines.get(b.goalId) : undefined;
+    return !deadline || date < deadline;
+  };
+
+  const preferences = preferencesByGoal(goals);
+  const prefsOf = (b: Block) => (b.goalId !== undefined ? preferences.get(b.goalId) : undefined);
+
+  const value = (b: Block, d: number, start: number) => {
+    let v = 0;
+    for (let i = 0; i < b.len; i++) {
+      const startMinutes = plan[d].slots[start + i].startMinutes;
+      const preference = preferenceFactor(prefsOf(b), plan[d].dayName, startMinutes, slotMinutesOf(d), effectivePolicy);
+      v += slotValue(startMinutes, slotMinutesOf(d), b.priority, effectivePolicy, preference);
+    }
+    return v;
+  };
+  // Dependency order: positions as day * DAY_SPAN + slot, compared across days
+  const DAY_SPAN = 10000;
+  const prerequisites = prerequisitesByGoal(goals);
+  const dependents = new Map<number, number[]>();
+  prerequisites.forEach((prereqs, id) =>
+    prereqs.forEach((p) => dependents.set(p, [...(dependents.get(p) ?? []), id]))
+  );
+  const orderBounds = (b: Block) => {
+    let lower = -Infinity;
+    let upper = Infinity;
+    if (b.goalId === undefined) return { lower, upper };
+    const before = prerequisites.get(b.goalId) ?? [];
+    const after = dependents.get(b.goalId) ?? [];
+    for (const o of blocks) {
+      if (o.goalId === undefined || o === b) continue;
+      if (before.includes(o.goalId)) lower = Math.max(lower, o.day * DAY_SPAN + o.start + o.len);
+      if (after.includes(o.goalId)) upper = Math.min(upper, o.day * DAY_SPAN + o.start);
+    }
+    return { lower, upper };
+  };
+
+  const forbiddenAt = (b: Block, d: number, start: number) => {
+    for (let i = 0; i < b.len; i++) {
+      if (isForbiddenSlot(prefsOf(b), plan[d].slots[start + i].startMinutes, slotMinutesOf(d))) return true;
+    }
+    return false;
+  };
+
+  let current = 0;
+  let best = 0;
+  let bestPositions: { day: number; start: number }[] | null = null;
+  let temperature = INITIAL_TEMPERATURE;
+  const cooling = Math.pow(FINAL_TEMPERATURE / INITIAL_TEMPERATURE, 1 / iterations);
+
+  for (let it = 0; it < iterations; it++, temperature *= cooling) {
+    if (it % PROGRESS_EVERY === 0) options.onProgress?.(it / iterations);
+    const k = Math.floor(random() * blocks.length);
+    const b = blocks[k];
+    const d = Math.floor(b.originDay / 7) * 7 + Math.floor(random() * 7);
+    if (!allowedDay(b, d)) continue;
+    if (d !== b.day && studyMinutes[d] + b.len * slotMinutesOf(d) > effectivePolicy.maxStudyMinutesPerDay) continue;
+    if (d !== b.day && !fitsGoalDayCap(b, k, d)) continue;
+
+    const { lower, upper } = orderBounds(b);
+    const breakSlots = breakSlotsFor(effectivePolicy, slotMinutesOf(d));
+    const maxRunSlots = maxConsecutiveSlotsFor(effectivePolicy, slotMinutesOf(d));
+    const candidates: number[] = [];
+    for (let s = 0; s + b.len <= plan[d].slots.length; s++) {
+      let fits = true;
+      for (let i = 0; i < b.len && fits; i++) {
+        const o = occupancy[d][s + i];
+        fits = o === 0 || o === k + 1;
+      }
+      fits = fits && d * DAY_SPAN + s >= lower && d * DAY_SPAN + s + b.len <= upper;
+      fits = fits && respectsStudyRhythm(keyAt(d, k), s, b.len, breakSlots, maxRunSlots) && !forbiddenAt(b, d, s);
+      if (fits && !(d === b.day && s === b.start)) candidates.push(s);
+    }
+    if (candidates.length === 0) continue;
+
+    const start = candidates[Math.floor(random() * candidates.length)];
+    let delta = value(b, d, start) - value(b, b.day, b.start);
+    if (switchPenalty > 0) {
+      const before = switchesOf(b.day, k, b.start) + (d !== b.day ? switchesOf(d, k) : 0);
+      const after = (d !== b.day ? switchesOf(b.day, k) : 0) + switchesOf(d, k, start);
+      delta -= (after - before) * switchPenalty;
+    }
+    // Strictly better moves are always taken, worse ones with a shrinking probability.
+    if (!(delta > 1e-9 || (delta < 0 && random() < Math.exp(delta / temperature)))) continue;
+
+    for (let i = 0; i < b.len; i++) occupancy[b.day][b.start + i] = 0;
+    studyMinutes[b.day] -= b.len * slotMinutesOf(b.day);
+    b.day = d;
+    b.start = start;
+    for (let i = 0; i < b.len; i++) occupancy[d][start + i] = k + 1;
+    studyMinutes[d] += b.len * slotMinutesOf(d);
+
+    current += delta;
+    if (current > best + 1e-9) {
+      best = current;
+      bestPositions = blocks.map((x) => ({ day: x.day, start: x.start }));
+    }
+  }
+
+  options.onProgress?.(1);
+  if (!bestPositions) return unchanged;
+
+  // Rebuild from the best layout found
+  for (const b of blocks) {
+    for (let i = 0; i < b.len; i++) {
+      const slot = plan[b.originDay].slots[b.originStart + i];
+      plan[b.originDay].slots[b.originStart + i] = {
+        startMinutes: slot.startMinutes,
+        type: "free",
+        rationale: createRationale(SchedulerRule.SLOT_FREE_AVAILABLE),
+      };
+    }
+  }
+
+  const rationales = [...base.rationales];
+  let movedBlocks = 0;
+  blocks.forEach((b, k) => {
+    const { day, start } = bestPositions![k];
+    if (day === b.originDay && start === b.originStart) {
+      b.original.forEach((slot, i) => (plan[day].slots[start + i] = slot));
+      return;
+    }
+
+    movedBlocks++;
+    const startMinutes = plan[day].slots[start].startMinutes;
+    const bucket = bucketForHour(Math.floor(startMinutes / 60), effectivePolicy);
+    let windowSum = 0;
+    for (let i = 0; i < b.len; i++) {
+      windowSum += windowFactor(prefsOf(b), plan[day].slots[start + i].startMinutes, slotMinutesOf(day), effectivePolicy);
+    }
+    const rationale = createRationale(SchedulerRule.GOAL_BLOCK_OPTIMIZED, {
+      goalTitle: b.label,
+      priority: b.priority,
+      dayName: plan[day].dayName,
+      date: plan[day].date,
+      startMinutes,
+      blockLength: b.len * slotMinutesOf(day),
+      bucket,
+      score: value(b, day, start),
+      scoreBreakdown: {
+        bucketWeight: bucketWeight(bucket, effectivePolicy),
+        windowFactor: windowSum / b.len,
+        dayFactor: dayFactor(prefsOf(b), plan[day].dayName, effectivePolicy),
+        total: value(b, day, start),
+      },
+    });
+    rationales.push(rationale);
+    for (let i = 0; i < b.len; i++) {
+      plan[day].slots[start + i] = {
+        ...plan[day].slots[start + i],
+        type: "study",
+        label: b.label,
+        priority: b.priority,
+        goalId: b.goalId,
+        rationale,
+      };
+    }
+  });
+
+  markBreakSlots(plan, effectivePolicy);
+
+  return {
+    plan,
+    rationales,
+    unplaced: base.unplaced,
+    strategy: "local_search",
+    objective: scorePlan(plan, effectivePolicy, goals),
+    movedBlocks,
+  };
+}
@@ -0,0 +1,93 @@
+import type { Goal } from "../types/models";
+import { DayPlan } from "../types/plan";
+import {
+  TimeOfDayBucket,
+  WeeklyPlannerPolicy,
+  bucketForHour,
+  clamp,
+} from "../tuner/weeklyPlannerPolicy";
+import { DAY_MS, parseDeadline } from "./calendar";
+import { countContextSwitches, studyKey } from "./studyRhythm";
+import { preferenceFactor, preferencesByGoal } from "./goalPreferences";
+
+/**
+ * Plan objective shared by every scheduling strategy, so their results can be
+ * compared: each study hour is worth bucket weight * goal priority weight
+ * (* the goal's own window/day preferences, see goalPreferences.ts), minus
+ * policy.contextSwitchPenalty for every subject change within a day.
+ */
+
+/**
+ * Exam heuristic: if any goal deadline is within policy.examWindowDays,
+ * mornings are boosted and evenings penalized.
+ */
+export function examAdjustedPolicy(
+  goals: Goal[],
+  policy: WeeklyPlannerPolicy,
+  now: Date
+): { policy: WeeklyPlannerPolicy; examSoon: boolean } {
+  const examSoon = goals.some((g) => {
+    if (!g.deadline) return false;
+    const diffDays = (parseDeadline(g.deadline).getTime() - now.getTime()) / DAY_MS;
+    return diffDays >= 0 && diffDays <= policy.examWindowDays;
+  });
+  if (!examSoon) return { policy, examSoon };
+
+  return {
+    examSoon,
+    policy: {
+      ...policy,
+      morningWeight: clamp(policy.morningWeight + policy.examMorningBoost, 0.5, 3),
+      eveningWeight: clamp(policy.eveningWeight - policy.examEveningPenalty, 0.3, 3),
+    },
+  };
+}
+
+export function bucketWeight(bucket: TimeOfDayBucket, policy: WeeklyPlannerPolicy): number {
+  if (bucket === "morning") return policy.morningWeight;
+  if (bucket === "evening") return policy.eveningWeight;
+  return policy.middayWeight;
+}
+
+/**
+ * Value of one study slot starting at `startMinutes`. `preference` is the
+ * goal's preference multiplier for the slot (see preferenceFactor).
+ */
+export function slotValue(
+  startMinutes: number,
+  slotMinutes: number,
+  priority: Goal["priority"] | undefined,
+  policy: WeeklyPlannerPolicy,
+  preference = 1
+): number {
+  const bucket = bucketForHour(Math.floor(startMinutes / 60), policy);
+  const weight = priority ? policy.priorityWeights?.[priority] ?? 1 : 1;
+  return (slotMinutes / 60) * bucketWeight(bucket, policy) * weight * preference;
+}
+
+/** Penalty of the subject changes in one day. */
+export function contextSwitchCost(day: DayPlan, policy: WeeklyPlannerPolicy): number {
+  const penalty = policy.contextSwitchPenalty ?? 0;
+  if (penalty <= 0) return 0;
+  return penalty * countContextSwitches((i) => studyKey(day.slots[i]), day.slots.length);
+}
+
+/**
+ * Objective value of a plan (higher is better). `policy` should already be
+ * exam-adjusted (see examAdjustedPolicy) so it matches what the strategy used.
+ */
+export function scorePlan(plan: DayPlan[], policy: WeeklyPlannerPolicy, goals: Goal[] = []): number {
+  const preferences = preferencesByGoal(goals);
+  let score = 0;
+  for (const day of plan) {
+    const slotMinutes = day.slotMinutes ?? policy.slotMinutes;
+    for (const slot of day.slots) {
+      if (slot.type !== "study") continue;
+      const prefs = slot.goalId !== undefined ? preferences.get(slot.goalId) : undefined;
+      const preference = preferenceFactor(prefs, day.dayName, slot.startMinutes, slotMinutes, policy);
+      score += slotValue(slot.startMinutes, slotMinutes, slot.priority, policy, preference);
+    }
+    score -= contextSwitchCost(day, policy);
+  }
+  return Math.round(score * 100) / 100;
+}
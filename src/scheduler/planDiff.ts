@@ -0,0 +1,108 @@
+import { DayPlan, Slot, SlotType } from "../types/plan";
+import { slotMinutesOf } from "./weeklyScheduler";
+
+/**
+ * Slot-level differences between two plans, matched by date and time so plans
+ * with different slot sizes or horizons can be compared. Consecutive slots
+ * with the same change are merged into one range.
+ */
+
+export interface SlotContent {
+  type: SlotType;
+  label?: string;
+  goalId?: number;
+  constraintId?: number;
+}
+
+export interface SlotChange {
+  date?: string; // YYYY-MM-DD
+  dayName: string;
+  startMinutes: number;
+  endMinutes: number;
+  /** undefined: the time is outside the plan (other horizon or day window) */
+  before?: SlotContent;
+  after?: SlotContent;
+}
+
+const contentOf = (slot: Slot | undefined): SlotContent | undefined =>
+  slot && { type: slot.type, label: slot.label, goalId: slot.goalId, constraintId: slot.constraintId };
+
+const sameContent = (a?: SlotContent, b?: SlotContent) =>
+  (a?.type ?? "free") === (b?.type ?? "free") &&
+  (a?.type === "free" ||
+    (a?.goalId === b?.goalId && a?.constraintId === b?.constraintId && a?.label === b?.label));
+
+const dayKey = (day: DayPlan) => day.date ?? day.dayName;
+
+function slotAt(day: DayPlan | undefined, minutes: number): Slot | undefined {
+  if (!day) return undefined;
+  return day.slots.find((s) => s.startMinutes <= minutes && minutes < s.startMinutes + slotMinutesOf(day));
+}
+
+export function diffPlans(before: DayPlan[], after: DayPlan[]): SlotChange[] {
+  const beforeByDay = new Map(before.map((d) => [dayKey(d), d]));
+  const afterByDay = new Map(after.map((d) => [dayKey(d), d]));
+  const keys = [...new Set([...beforeByDay.keys(), ...afterByDay.keys()])].sort();
+  const changes: SlotChange[] = [];
+
+  for (const key of keys) {
+    const b = beforeByDay.get(key);
+    const a = afterByDay.get(key);
+    const day = (a ?? b) as DayPlan;
+
+    // Every slot boundary of either plan, so differing slot sizes line up
+    const bounds = new Set<number>();
+    for (const d of [b, a]) {
+      if (!d) continue;
+      for (const s of d.slots) {
+        bounds.add(s.startMinutes);
+        bounds.add(s.startMinutes + slotMinutesOf(d));
+      }
+    }
+    const points = [...bounds].sort((x, y) => x - y);
+
+    let open: SlotChange | undefined;
+    for (let i = 0; i < points.length - 1; i++) {
+      const beforeSlot = contentOf(slotAt(b, points[i]));
+      const afterSlot = contentOf(slotAt(a, points[i]));
+      const changed = !sameContent(beforeSlot, afterSlot);
+
+      if (
+        changed &&
+        open &&
+        open.endMinutes === points[i] &&
+        sameContent(open.before, beforeSlot) &&
+        sameContent(open.after, afterSlot)
+      ) {
+        open.endMinutes = points[i + 1];
+        continue;
+      }
+      if (open) changes.push(open);
+      open = changed
+        ? {
+            date: day.date,
+            dayName: day.dayName,
+            startMinutes: points[i],
+            endMinutes: points[i + 1],
+            before: beforeSlot,
+            after: afterSlot,
+          }
+        : undefined;
+    }
+    if (open) changes.push(open);
+  }
+  return changes;
+}
+
+/** Planned study minutes per goal (goal id, or label for plans without ids). */
+export function studyMinutesByGoal(plan: DayPlan[]): Map<number | string, number> {
+  const minutes = new Map<number | string, number>();
+  for (const day of plan) {
+    for (const slot of day.slots) {
+      if (slot.type !== "study") continue;
+      const key = slot.goalId ?? slot.label ?? "";
+      minutes.set(key, (minutes.get(key) ?? 0) + slotMinutesOf(day));
+    }
+  }
+  return minutes;
+}
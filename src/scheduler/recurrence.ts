@@ -0,0 +1,102 @@
+import type { Constraint } from "../types/models";
+import { BusyInterval } from "./types";
+import { addDays, diffInDays, parseTimeOfDay, startOfWeek, toISODate } from "./calendar";
+
+/**
+ * Constraint recurrence (RRULE-style subset: FREQ=WEEKLY;INTERVAL;BYDAY;UNTIL)
+ * and its expansion into concrete busy intervals of a planning week.
+ *
+ * Constraints without `recurrence` keep their old meaning:
+ * - a specific `day` repeats on that day every week
+ * - 'Genel' + startTime/endTime repeats every day
+ * - 'Genel' without a time is a weekly total that is not tied to a date
+ */
+
+// Interval counting needs a fixed week 0 when no startDate is given.
+const EPOCH_MONDAY = new Date(1970, 0, 5);
+
+/** Exact [start, end) minutes of a constraint with a valid startTime/endTime pair. */
+export function fixedTimeRange(c: Constraint): { start: number; end: number } | undefined {
+  const start = parseTimeOfDay(c.startTime);
+  const end = parseTimeOfDay(c.endTime);
+  if (start === undefined || end === undefined || end <= start) return undefined;
+  return { start, end };
+}
+
+/**
+ * Whether the constraint is tied to concrete dates. Undated constraints are a
+ * weekly total the scheduler may distribute over any day.
+ */
+export function isDatedConstraint(c: Constraint, dayNames: string[]): boolean {
+  return !!c.recurrence || dayNames.includes(c.day) || !!fixedTimeRange(c);
+}
+
+/**
+ * Whether a dated constraint occurs on `date` (exceptions excluded).
+ * Always false for undated constraints.
+ */
+export function occursOn(c: Constraint, date: Date, dayNames: string[]): boolean {
+  const iso = toISODate(date);
+  if (c.exceptions?.includes(iso)) return false;
+
+  const dayName = dayNames[diffInDays(startOfWeek(date), date)];
+  const rule = c.recurrence;
+
+  if (!rule) {
+    if (dayNames.includes(c.day)) return c.day === dayName;
+    return !!fixedTimeRange(c);
+  }
+
+  const byDay = rule.byDay?.length ? rule.byDay : dayNames.includes(c.day) ? [c.day] : dayNames;
+  if (!byDay.includes(dayName)) return false;
+  if (rule.startDate && iso < rule.startDate) return false;
+  if (rule.until && iso > rule.until) return false;
+
+  const anchor = rule.startDate ? new Date(`${rule.startDate}T00:00:00`) : EPOCH_MONDAY;
+  const weeks = Math.floor(diffInDays(startOfWeek(anchor), startOfWeek(date)) / 7);
+  return weeks % Math.max(1, rule.interval ?? 1) === 0;
+}
+
+/**
+ * Concrete busy intervals of one constraint in the week starting on `weekStart`.
+ * Returns undefined for undated constraints (see isDatedConstraint).
+ */
+export function expandConstraint(
+  c: Constraint,
+  weekStart: Date,
+  dayNames: string[]
+): BusyInterval[] | undefined {
+  if (!isDatedConstraint(c, dayNames)) return undefined;
+
+  const monday = startOfWeek(weekStart);
+  const range = fixedTimeRange(c);
+  const intervals: BusyInterval[] = [];
+
+  dayNames.forEach((dayName, dayIndex) => {
+    const date = addDays(monday, dayIndex);
+    if (!occursOn(c, date, dayNames)) return;
+    intervals.push({
+      constraintId: c.id,
+      title: c.title,
+      date: toISODate(date),
+      dayIndex,
+      dayName,
+      startMinutes: range?.start,
+      endMinutes: range?.end,
+      minutes: range ? range.end - range.start : Math.round((c.duration || 0) * 60),
+    });
+  });
+
+  return intervals;
+}
+
+/** Busy intervals of every dated constraint in the given week, ordered by day. */
+export function expandConstraints(
+  constraints: Constraint[],
+  weekStart: Date,
+  dayNames: string[]
+): BusyInterval[] {
+  return constraints
+    .flatMap((c) => expandConstraint(c, weekStart, dayNames) ?? [])
+    .sort((a, b) => a.dayIndex - b.dayIndex || (a.startMinutes ?? 0) - (b.startMinutes ?? 0));
+}
@@ -5,23 +5,57 @@
  * rule enum'ları ve rationale tipleri.
  */
 
+import { formatTimeOfDay } from './calendar';
+
 export enum SchedulerRule {
     // Constraint-related rules
     CONSTRAINT_BLOCKED_SLOT = 'CONSTRAINT_BLOCKED_SLOT',
     CONSTRAINT_SPECIFIC_DAY = 'CONSTRAINT_SPECIFIC_DAY',
     CONSTRAINT_GENERAL_DISTRIBUTION = 'CONSTRAINT_GENERAL_DISTRIBUTION',
+    CONSTRAINT_FIXED_TIME = 'CONSTRAINT_FIXED_TIME',
+    CONSTRAINT_DAY_OFF = 'CONSTRAINT_DAY_OFF',
     
     // Goal allocation rules
     DAILY_STUDY_LIMIT_REACHED = 'DAILY_STUDY_LIMIT_REACHED',
     HIGH_PRIORITY_GOAL_ALLOCATED_EARLIER = 'HIGH_PRIORITY_GOAL_ALLOCATED_EARLIER',
     GOAL_ROUND_ROBIN_DISTRIBUTION = 'GOAL_ROUND_ROBIN_DISTRIBUTION',
     GOAL_POSTPONED_SKIPPED = 'GOAL_POSTPONED_SKIPPED',
+    GOAL_UNPLACED_NO_CAPACITY = 'GOAL_UNPLACED_NO_CAPACITY',
+    GOAL_FRAGMENT_BELOW_MINIMUM = 'GOAL_FRAGMENT_BELOW_MINIMUM',
+    GOAL_DEFERRED_BY_DEPENDENCY = 'GOAL_DEFERRED_BY_DEPENDENCY',
+
+    // Deadline rules
+    GOAL_DEADLINE_FRONT_LOADED = 'GOAL_DEADLINE_FRONT_LOADED',
+    GOAL_UNPLACED_BEFORE_DEADLINE = 'GOAL_UNPLACED_BEFORE_DEADLINE',
+    GOAL_SPREAD_ACROSS_HORIZON = 'GOAL_SPREAD_ACROSS_HORIZON',
     
     // Block-based placement rules
     GOAL_BLOCK_PLACED_MORNING = 'GOAL_BLOCK_PLACED_MORNING',
     GOAL_BLOCK_PLACED_MIDDAY = 'GOAL_BLOCK_PLACED_MIDDAY',
     GOAL_BLOCK_PLACED_EVENING = 'GOAL_BLOCK_PLACED_EVENING',
     GOAL_BLOCK_BEST_SCORE = 'GOAL_BLOCK_BEST_SCORE',
+    GOAL_BLOCK_OPTIMIZED = 'GOAL_BLOCK_OPTIMIZED',
+
+    // Study rhythm rules
+    STUDY_BREAK_BUFFER = 'STUDY_BREAK_BUFFER',
+    STUDY_MAX_CONSECUTIVE_REACHED = 'STUDY_MAX_CONSECUTIVE_REACHED',
+    STUDY_CONTEXT_SWITCH_PENALIZED = 'STUDY_CONTEXT_SWITCH_PENALIZED',
+
+    // Spaced repetition
+    REVIEW_SPACED_REPETITION = 'REVIEW_SPACED_REPETITION',
+
+    // Why-not explanations (see explain.ts)
+    SLOT_IN_PAST = 'SLOT_IN_PAST',
+    SLOT_AFTER_DEADLINE = 'SLOT_AFTER_DEADLINE',
+    SLOT_NOT_CONTIGUOUS = 'SLOT_NOT_CONTIGUOUS',
+    SLOT_FORBIDDEN_WINDOW = 'SLOT_FORBIDDEN_WINDOW',
+    GOAL_DAILY_CAP_REACHED = 'GOAL_DAILY_CAP_REACHED',
+    GOAL_HOURS_FULLY_PLANNED = 'GOAL_HOURS_FULLY_PLANNED',
+    CANDIDATE_LOWER_SCORE = 'CANDIDATE_LOWER_SCORE',
+
+    // Incremental replanning (see incremental.ts)
+    REPLAN_GOAL_REMOVED = 'REPLAN_GOAL_REMOVED',
+    REPLAN_SLOT_UNAVAILABLE = 'REPLAN_SLOT_UNAVAILABLE',
     
     // Exam heuristic rules
     EXAM_WINDOW_ACTIVE = 'EXAM_WINDOW_ACTIVE',
@@ -30,6 +64,20 @@ export enum SchedulerRule {
     // Slot state rules
     SLOT_FREE_AVAILABLE = 'SLOT_FREE_AVAILABLE',
     SLOT_ALREADY_OCCUPIED = 'SLOT_ALREADY_OCCUPIED',
+    SLOT_PINNED_BY_USER = 'SLOT_PINNED_BY_USER',
+}
+
+/**
+ * How a block placement scored: bucket weight * window factor * day factor,
+ * minus the earlier-in-day tie breaker and the context-switch penalty.
+ */
+export interface ScoreBreakdown {
+    bucketWeight: number;
+    windowFactor: number;
+    dayFactor: number;
+    timePenalty?: number;
+    switchPenalty?: number;
+    total: number;
 }
 
 export interface SlotRationale {
@@ -39,15 +87,35 @@ export interface SlotRationale {
         constraintTitle?: string;
         goalTitle?: string;
         dayName?: string;
+        date?: string; // YYYY-MM-DD
         hour?: number;
         startMinutes?: number;
+        endMinutes?: number;
         priority?: 'low' | 'medium' | 'high';
+        priorityWeight?: number;
+        displacedGoalTitle?: string;
         dailyLimit?: number;
         usedToday?: number;
         bucket?: 'morning' | 'midday' | 'evening';
         blockLength?: number;
         score?: number;
         examWindowDays?: number;
+        unplacedMinutes?: number;
+        deadline?: string; // YYYY-MM-DD
+        daysToDeadline?: number;
+        weeklyQuotaMinutes?: number;
+        deferredMinutes?: number;
+        breakMinutes?: number;
+        maxConsecutiveMinutes?: number;
+        contextSwitches?: number;
+        switchPenalty?: number;
+        minBlockMinutes?: number;
+        prerequisiteTitle?: string;
+        reviewIntervalDays?: number;
+        reviewDueDate?: string; // YYYY-MM-DD
+        occupiedBy?: string;
+        maxMinutesPerDay?: number;
+        scoreBreakdown?: ScoreBreakdown;
     };
 }
 
@@ -67,11 +135,17 @@ export function createRationale(rule: SchedulerRule, details?: SlotRationale['de
         case SchedulerRule.CONSTRAINT_GENERAL_DISTRIBUTION:
             message = `${details?.constraintTitle || 'Kısıt'} haftaya dağıtıldı`;
             break;
+        case SchedulerRule.CONSTRAINT_FIXED_TIME:
+            message = `${details?.constraintTitle || 'Kısıt'} sabit saatine yerleştirildi (${details?.dayName || ''} ${formatTimeOfDay(details?.startMinutes ?? 0)}-${formatTimeOfDay(details?.endMinutes ?? 0)})`;
+            break;
+        case SchedulerRule.CONSTRAINT_DAY_OFF:
+            message = `${details?.dayName || ''} izin günü (${details?.constraintTitle || 'Kısıt'}): gün tamamen kapatıldı, çalışma yükü diğer günlere dağıtıldı`;
+            break;
         case SchedulerRule.DAILY_STUDY_LIMIT_REACHED:
             message = `Günlük çalışma limiti aşıldı (${details?.usedToday || 0}/${details?.dailyLimit || 0} saat)`;
             break;
         case SchedulerRule.HIGH_PRIORITY_GOAL_ALLOCATED_EARLIER:
-            message = `Yüksek öncelikli hedef (${details?.goalTitle || ''}) daha erken saatlere yerleştirildi`;
+            message = `Öncelikli hedef (${details?.goalTitle || ''}) ${details?.displacedGoalTitle ? `${details.displacedGoalTitle} hedefinden önce ` : ''}daha erken yerleştirildi (${details?.priority || ''}, ağırlık: ${details?.priorityWeight ?? 'N/A'})`;
             break;
         case SchedulerRule.GOAL_ROUND_ROBIN_DISTRIBUTION:
             message = `${details?.goalTitle || 'Hedef'} round-robin dağıtımı ile yerleştirildi`;
@@ -79,11 +153,36 @@ export function createRationale(rule: SchedulerRule, details?: SlotRationale['de
         case SchedulerRule.GOAL_POSTPONED_SKIPPED:
             message = `Ertelenen hedef atlandı: ${details?.goalTitle || ''}`;
             break;
+        case SchedulerRule.GOAL_UNPLACED_NO_CAPACITY:
+            message = `${details?.goalTitle || 'Hedef'} için haftada yer kalmadı (${details?.unplacedMinutes || 0} dk yerleştirilemedi)`;
+            break;
+        case SchedulerRule.GOAL_FRAGMENT_BELOW_MINIMUM:
+            message = `${details?.goalTitle || 'Hedef'} için kalan ${details?.unplacedMinutes || 0} dk, en kısa blok süresinin (${details?.minBlockMinutes || 0} dk) altında kaldığı için yerleştirilmedi`;
+            break;
+        case SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY:
+            message = details?.unplacedMinutes
+                ? `${details?.goalTitle || 'Hedef'} ön koşulu (${details?.prerequisiteTitle || ''}) planda tamamlanamadığı için ertelendi (${details.unplacedMinutes} dk yerleştirilemedi)`
+                : `${details?.goalTitle || 'Hedef'} ön koşulu (${details?.prerequisiteTitle || ''}) bitene kadar ertelendi`;
+            break;
+        case SchedulerRule.GOAL_DEADLINE_FRONT_LOADED:
+            message = `${details?.goalTitle || 'Hedef'} son tarihe (${details?.deadline || ''}) ${details?.daysToDeadline ?? 0} gün kaldığı için öne alındı`;
+            break;
+        case SchedulerRule.GOAL_UNPLACED_BEFORE_DEADLINE:
+            message = `${details?.goalTitle || 'Hedef'} son tarihten (${details?.deadline || ''}) önce sığmadı (${details?.unplacedMinutes || 0} dk yerleştirilemedi)`;
+            break;
+        case SchedulerRule.GOAL_SPREAD_ACROSS_HORIZON:
+            message = details?.deferredMinutes
+                ? `${details?.goalTitle || 'Hedef'} son tarihe (${details?.deadline || ''}) kadar yayıldı; ${details.deferredMinutes} dk plan ufkunun sonrasına bırakıldı`
+                : `${details?.goalTitle || 'Hedef'} haftalık payına ulaştı (${details?.weeklyQuotaMinutes || 0} dk), kalanı sonraki haftalara yayıldı`;
+            break;
         case SchedulerRule.SLOT_FREE_AVAILABLE:
             message = 'Boş slot mevcut';
             break;
         case SchedulerRule.SLOT_ALREADY_OCCUPIED:
-            message = 'Slot zaten dolu';
+            message = `Slot zaten dolu${details?.occupiedBy ? `: ${details.occupiedBy}` : ''}`;
+            break;
+        case SchedulerRule.SLOT_PINNED_BY_USER:
+            message = `Kullanıcı tarafından sabitlendi: ${details?.goalTitle || details?.constraintTitle || ''}`;
             break;
         case SchedulerRule.GOAL_BLOCK_PLACED_MORNING:
             message = `${details?.goalTitle || 'Hedef'} sabah bloğu olarak yerleştirildi (${details?.blockLength || 0} dk)`;
@@ -97,6 +196,50 @@ export function createRationale(rule: SchedulerRule, details?: SlotRationale['de
         case SchedulerRule.GOAL_BLOCK_BEST_SCORE:
             message = `${details?.goalTitle || 'Hedef'} en iyi skor ile yerleştirildi (skor: ${details?.score?.toFixed(2) || 'N/A'}, ${details?.bucket || ''})`;
             break;
+        case SchedulerRule.GOAL_BLOCK_OPTIMIZED:
+            message = `${details?.goalTitle || 'Hedef'} yerel arama ile daha değerli bir slota taşındı (${details?.blockLength || 0} dk, ${details?.bucket || ''}, skor: ${details?.score?.toFixed(2) || 'N/A'})`;
+            break;
+        case SchedulerRule.STUDY_BREAK_BUFFER:
+            message = `Mola: çalışma blokları arasında en az ${details?.breakMinutes || 0} dk boşluk bırakıldı`;
+            break;
+        case SchedulerRule.STUDY_MAX_CONSECUTIVE_REACHED:
+            message = `${details?.goalTitle || 'Hedef'} bloğu kesintisiz çalışma sınırına takıldı (${details?.blockLength || 0} dk, en fazla ${details?.maxConsecutiveMinutes || 0} dk)`;
+            break;
+        case SchedulerRule.STUDY_CONTEXT_SWITCH_PENALIZED:
+            message = `${details?.dayName || ''} gününde ${details?.goalTitle || 'hedef'} için konu değişimi (${details?.contextSwitches || 0} geçiş, ceza: ${details?.switchPenalty?.toFixed(2) || '0.00'})`;
+            break;
+        case SchedulerRule.REVIEW_SPACED_REPETITION:
+            message = details?.unplacedMinutes
+                ? `${details?.goalTitle || 'Hedef'} tekrarı (vade: ${details?.reviewDueDate || ''}) plana sığmadı`
+                : `${details?.goalTitle || 'Hedef'} için aralıklı tekrar (${details?.reviewIntervalDays || 0} gün sonra, ${details?.blockLength || 0} dk)${details?.reviewDueDate && details.reviewDueDate !== details.date ? `; vadesi ${details.reviewDueDate} idi` : ''}`;
+            break;
+        case SchedulerRule.SLOT_IN_PAST:
+            message = `${details?.dayName || ''} ${details?.date || ''} geçmişte kaldı; çalışma bugünden itibaren planlanır`;
+            break;
+        case SchedulerRule.SLOT_AFTER_DEADLINE:
+            message = `${details?.goalTitle || 'Hedef'} son tarihinden (${details?.deadline || ''}) sonra planlanmaz`;
+            break;
+        case SchedulerRule.SLOT_NOT_CONTIGUOUS:
+            message = `${formatTimeOfDay(details?.startMinutes ?? 0)} itibarıyla ${details?.blockLength || 0} dk kesintisiz boş yer yok`;
+            break;
+        case SchedulerRule.SLOT_FORBIDDEN_WINDOW:
+            message = `${details?.goalTitle || 'Hedef'} için bu saatler yasak pencereye denk geliyor`;
+            break;
+        case SchedulerRule.GOAL_DAILY_CAP_REACHED:
+            message = `${details?.goalTitle || 'Hedef'} için günlük üst sınır (${details?.maxMinutesPerDay || 0} dk) bu bloğa yer bırakmıyor`;
+            break;
+        case SchedulerRule.GOAL_HOURS_FULLY_PLANNED:
+            message = `${details?.goalTitle || 'Hedef'} için kalan tüm saatler zaten planlandı`;
+            break;
+        case SchedulerRule.CANDIDATE_LOWER_SCORE:
+            message = `Uygun aday, ancak daha yüksek skorlu slotlar ya da haftalık pay tercih edildi (skor: ${details?.score?.toFixed(2) || 'N/A'})`;
+            break;
+        case SchedulerRule.REPLAN_GOAL_REMOVED:
+            message = `${details?.goalTitle || 'Hedef'} artık planlanmıyor (silindi veya tamamlandı)`;
+            break;
+        case SchedulerRule.REPLAN_SLOT_UNAVAILABLE:
+            message = `${details?.dayName || ''} ${formatTimeOfDay(details?.startMinutes ?? 0)} artık planlama penceresinin dışında`;
+            break;
         case SchedulerRule.EXAM_WINDOW_ACTIVE:
             message = `Sınav penceresi aktif (${details?.examWindowDays || 0} gün içinde)`;
             break;
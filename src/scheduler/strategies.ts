@@ -0,0 +1,70 @@
+import type { Goal, Constraint } from "../types/models";
+import { DEFAULT_WEEKLY_PLANNER_POLICY, WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { ScheduleResult, SchedulerOptions, SchedulerProgress, StrategyComparison } from "./types";
+import { schedule } from "./weeklyScheduler";
+import { optimizeSchedule } from "./localSearch";
+import { canRepair, replan } from "./incremental";
+
+/**
+ * Strategy entry points. `schedule` (greedy) stays the baseline; the local
+ * search strategy refines its result. In incremental replan mode a stored plan
+ * (options.pinned) is repaired instead of rebuilt.
+ */
+
+const placedMinutes = (result: ScheduleResult) =>
+  result.plan.reduce(
+    (sum, day) =>
+      sum + day.slots.filter((s) => s.type === "study").length * (day.slotMinutes ?? 0),
+    0
+  );
+
+/**
+ * Runs the strategy selected in policy.schedulerStrategy. In incremental mode
+ * the local search refines the repaired plan (moving only the new blocks).
+ */
+export function scheduleWithStrategy(
+  goals: Goal[] = [],
+  constraints: Constraint[] = [],
+  policy: WeeklyPlannerPolicy = DEFAULT_WEEKLY_PLANNER_POLICY,
+  options: SchedulerOptions = {},
+  onProgress?: (progress: SchedulerProgress) => void
+): ScheduleResult {
+  const optimize = (base: ScheduleResult): ScheduleResult => {
+    onProgress?.({ phase: "greedy", progress: 1 });
+    if (policy.schedulerStrategy !== "local_search") return base;
+    return optimizeSchedule(base, goals, policy, {
+      now: options.now,
+      onProgress: (progress) => onProgress?.({ phase: "local_search", progress }),
+    });
+  };
+
+  onProgress?.({ phase: "greedy", progress: 0 });
+  if (policy.replanMode === "incremental" && canRepair(policy, options)) {
+    return replan(goals, constraints, policy, options, optimize);
+  }
+  return optimize(schedule(goals, constraints, policy, options));
+}
+
+/** Runs every strategy on the same inputs and reports their objective values. */
+export function compareStrategies(
+  goals: Goal[] = [],
+  constraints: Constraint[] = [],
+  policy: WeeklyPlannerPolicy = DEFAULT_WEEKLY_PLANNER_POLICY,
+  options: SchedulerOptions = {}
+): StrategyComparison {
+  const greedy = schedule(goals, constraints, policy, options);
+  const optimized = optimizeSchedule(greedy, goals, policy, { now: options.now });
+
+  return {
+    greedy: {
+      objective: greedy.objective ?? 0,
+      placedMinutes: placedMinutes(greedy),
+      movedBlocks: 0,
+    },
+    local_search: {
+      objective: optimized.objective ?? 0,
+      placedMinutes: placedMinutes(optimized),
+      movedBlocks: optimized.movedBlocks,
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { DayPlan, Slot } from "../types/plan";
+import { WeeklyPlannerPolicy } from "../tuner/weeklyPlannerPolicy";
+import { SchedulerRule, createRationale } from "./rules";
+
+/**
+ * Study rhythm rules shared by the strategies:
+ * - breaks: at least policy.breakMinutes of non-study time between two blocks
+ * - max consecutive study: no study run longer than policy.maxConsecutiveStudyMinutes
+ * - context switches: subject changes within a day, penalized in the objective
+ *
+ * Slot positions are passed as a lookup (`keyAt`) returning the goal key of a
+ * study slot and undefined otherwise, so the greedy pass (Slot arrays) and the
+ * local search (occupancy arrays) can share the checks.
+ */
+
+export type StudyKeyAt = (index: number) => string | undefined;
+
+/** Identifies the goal of a study slot; plans stored without goal ids fall back to the label. */
+export function studyKey(slot: Slot | undefined): string | undefined {
+  if (!slot || slot.type !== "study") return undefined;
+  return slot.goalId !== undefined ? `#${slot.goalId}` : slot.label ?? "";
+}
+
+export function breakSlotsFor(policy: WeeklyPlannerPolicy, slotMinutes: number): number {
+  return Math.max(0, Math.ceil((policy.breakMinutes ?? 0) / slotMinutes));
+}
+
+export function maxConsecutiveSlotsFor(policy: WeeklyPlannerPolicy, slotMinutes: number): number {
+  const minutes = policy.maxConsecutiveStudyMinutes;
+  if (!minutes || minutes <= 0) return Infinity;
+  return Math.max(1, Math.floor(minutes / slotMinutes));
+}
+
+/**
+ * Whether a block at [start, start + len) keeps the break and the
+ * consecutive-study limit towards the study already in the day.
+ */
+export function respectsStudyRhythm(
+  keyAt: StudyKeyAt,
+  start: number,
+  len: number,
+  breakSlots: number,
+  maxConsecutiveSlots: number
+): boolean {
+  if (len > maxConsecutiveSlots) return false;
+  for (let i = 1; i <= breakSlots; i++) {
+    if (keyAt(start - i) !== undefined || keyAt(start + len - 1 + i) !== undefined) return false;
+  }
+
+  // Without a break, adjacent blocks form a single run.
+  let run = len;
+  for (let i = start - 1; keyAt(i) !== undefined; i--) run++;
+  for (let i = start + len; keyAt(i) !== undefined; i++) run++;
+  return run <= maxConsecutiveSlots;
+}
+
+/** Subject changes in a day (study slots in time order). */
+export function countContextSwitches(keyAt: StudyKeyAt, slotCount: number): number {
+  let switches = 0;
+  let previous: string | undefined;
+  for (let i = 0; i < slotCount; i++) {
+    const key = keyAt(i);
+    if (key === undefined) continue;
+    if (previous !== undefined && key !== previous) switches++;
+    previous = key;
+  }
+  return switches;
+}
+
+/**
+ * Subject changes added by placing a block of `key` at [start, start + len).
+ * 0 next to the same goal, 1 at the edge of another goal, 2 between two.
+ */
+export function addedContextSwitches(
+  keyAt: StudyKeyAt,
+  slotCount: number,
+  start: number,
+  len: number,
+  key: string
+): number {
+  const before = countContextSwitches(keyAt, slotCount);
+  const after = countContextSwitches(
+    (i) => (i >= start && i < start + len ? key : keyAt(i)),
+    slotCount
+  );
+  return after - before;
+}
+
+/** Explains free slots kept as breaks next to study blocks (and clears stale ones). */
+export function markBreakSlots(plan: DayPlan[], policy: WeeklyPlannerPolicy) {
+  for (const day of plan) {
+    const breakSlots = breakSlotsFor(policy, day.slotMinutes ?? policy.slotMinutes);
+    if (breakSlots === 0) continue;
+
+    // Study reachable from `s` over free slots only, within the break length
+    const nearStudy = (s: number, step: number) => {
+      for (let i = 1; i <= breakSlots; i++) {
+        const slot = day.slots[s + step * i];
+        if (studyKey(slot) !== undefined) return true;
+        if (!slot || slot.type !== "free") return false;
+      }
+      return false;
+    };
+
+    day.slots.forEach((slot, s) => {
+      if (slot.type === "free" && (nearStudy(s, -1) || nearStudy(s, 1))) {
+        slot.rationale = createRationale(SchedulerRule.STUDY_BREAK_BUFFER, {
+          dayName: day.dayName,
+          date: day.date,
+          startMinutes: slot.startMinutes,
+          breakMinutes: policy.breakMinutes,
+        });
+      } else if (slot.rationale?.rule === SchedulerRule.STUDY_BREAK_BUFFER) {
+        // The neighbouring block moved away (local search)
+        slot.rationale = createRationale(SchedulerRule.SLOT_FREE_AVAILABLE);
+      }
+    });
+  }
+}
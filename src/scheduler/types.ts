@@ -0,0 +1,148 @@
+import type { Goal, ReviewItem, Session } from "../types/models";
+import { DayPlan } from "../types/plan";
+import type { SchedulerStrategy } from "../tuner/weeklyPlannerPolicy";
+import { ScoreBreakdown, SchedulerRule, SlotRationale } from "./rules";
+
+/**
+ * Scheduler public types.
+ *
+ * The scheduler is a pure function: (goals, constraints, policy, options) -> result.
+ * Nothing in this folder may import React or Dexie.
+ */
+
+export interface SchedulerOptions {
+  /** Reference "now" used by deadline heuristics. Defaults to the current time. */
+  now?: Date;
+  /** Day labels of the planning week (Monday first). */
+  dayNames?: string[];
+  /** Any date in the first planned week. Defaults to `now`. */
+  startDate?: Date;
+  /** Number of consecutive weeks to plan. Defaults to policy.planningHorizonWeeks. */
+  horizonWeeks?: number;
+  /** Planning window start hour (24h, inclusive). Overrides policy.dayStartHour and dayWindows. */
+  startHour?: number;
+  /** Planning window end hour (24h, exclusive). Overrides policy.dayEndHour and dayWindows. */
+  endHour?: number;
+  /** Slot resolution in minutes. Defaults to policy.slotMinutes. */
+  slotMinutes?: number;
+  /** Recorded sessions; completed ones reduce each goal's remaining effort. */
+  sessions?: Session[];
+  /** Previous plan (matched by date); its pinned slots are copied as-is and count towards goals/constraints. */
+  pinned?: DayPlan[];
+  /**
+   * scoringKey of the policy `pinned` was planned with. When it differs from
+   * the current policy's, incremental mode rebuilds instead of repairing.
+   */
+  pinnedScoringKey?: string;
+  /** Pending spaced-repetition reviews; placed as "review" slots on their due day. */
+  reviews?: ReviewItem[];
+}
+
+/** One concrete occurrence of a dated constraint (see recurrence.ts). */
+export interface BusyInterval {
+  constraintId?: number;
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** 0 = Monday */
+  dayIndex: number;
+  dayName: string;
+  /** Only set for timed constraints; untimed ones are placed by the heuristic on that day. */
+  startMinutes?: number;
+  endMinutes?: number;
+  minutes: number;
+}
+
+/** A goal (or part of it) the scheduler could not fit into the plan. */
+export interface UnplacedGoal {
+  goalId?: number;
+  goalTitle: string;
+  unplacedMinutes: number;
+  reason: SchedulerRule;
+  rationale: SlotRationale;
+}
+
+export interface ScheduleResult {
+  /** One DayPlan per date, `horizonWeeks * 7` days starting on a Monday. */
+  plan: DayPlan[];
+  /** Every decision taken during the run, in order (one entry per placed block/constraint). */
+  rationales: SlotRationale[];
+  unplaced: UnplacedGoal[];
+  /** Strategy that produced the plan. */
+  strategy?: SchedulerStrategy;
+  /** Objective value of the plan (see objective.ts); higher is better. */
+  objective?: number;
+  /** Set by incremental replanning: blocks that differ from the stored plan (see incremental.ts). */
+  moves?: BlockMove[];
+}
+
+/** A study block of a plan, for move reports. */
+export interface PlacedBlock {
+  date?: string; // YYYY-MM-DD
+  dayName: string;
+  startMinutes: number;
+  minutes: number;
+}
+
+/**
+ * A block that did not stay where it was: moved elsewhere, removed, newly
+ * added or shortened. `rationale` says why (for added blocks: their placement).
+ */
+export interface BlockMove {
+  goalId?: number;
+  goalTitle: string;
+  kind: "moved" | "removed" | "added" | "shortened";
+  from?: PlacedBlock;
+  to?: PlacedBlock;
+  rationale: SlotRationale;
+}
+
+/** Progress of a running strategy; `progress` is the 0..1 share of the current phase. */
+export interface SchedulerProgress {
+  phase: SchedulerStrategy;
+  progress: number;
+}
+
+/** Objective of each strategy on the same inputs, for side-by-side comparison. */
+export type StrategyComparison = Record<
+  SchedulerStrategy,
+  { objective: number; placedMinutes: number; movedBlocks: number }
+>;
+
+/** Inputs of a why-not explanation besides the goal and the plan (see explain.ts). */
+export interface WhyNotOptions {
+  /** All goals, for dependencies and the exam heuristic. Defaults to the explained goal. */
+  goals?: Goal[];
+  /** Recorded sessions; completed ones reduce the goal's remaining effort. */
+  sessions?: Session[];
+  /** Reference "now"; days before it are history. Defaults to the current time. */
+  now?: Date;
+  /** Only explain this day (YYYY-MM-DD). */
+  date?: string;
+  /** Only explain the block starting in this slot (requires `date`). */
+  startMinutes?: number;
+}
+
+/** A block start the scheduler could have used for the goal. */
+export interface WhyNotCandidate {
+  date?: string; // YYYY-MM-DD
+  dayName: string;
+  startMinutes: number;
+  blockMinutes: number;
+  /** placed: the goal is there; available: allowed but not chosen; rejected: a rule forbids it */
+  status: "placed" | "available" | "rejected";
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  /** Why the candidate has its status */
+  rationale: SlotRationale;
+}
+
+export interface WhyNotReport {
+  goalId?: number;
+  goalTitle: string;
+  /** Remaining effort not covered by study slots in the plan */
+  unplannedMinutes: number;
+  candidates: WhyNotCandidate[];
+  /** Number of rejected candidates per rule */
+  rejectedBy: Partial<Record<SchedulerRule, number>>;
+}
@@ -0,0 +1,910 @@
+import type { Goal, Constraint } from "../types/models";
+import { Slot, DayPlan } from "../types/plan";
+import {
+  DEFAULT_WEEKLY_PLANNER_POLICY,
+  TimeOfDayBucket,
+  WeeklyPlannerPolicy,
+  bucketForHour,
+  dayWindowFor,
+} from "../tuner/weeklyPlannerPolicy";
+import { ScoreBreakdown, SchedulerRule, SlotRationale, createRationale } from "./rules";
+import { ScheduleResult, SchedulerOptions, UnplacedGoal } from "./types";
+import { addDays, diffInDays, parseDeadline, startOfWeek, toISODate } from "./calendar";
+import { expandConstraint } from "./recurrence";
+import { bucketWeight as bucketWeightFor, examAdjustedPolicy, scorePlan } from "./objective";
+import {
+  addedContextSwitches,
+  breakSlotsFor,
+  markBreakSlots,
+  maxConsecutiveSlotsFor,
+  respectsStudyRhythm,
+  studyKey,
+} from "./studyRhythm";
+import { dayFactor, isForbiddenSlot, windowFactor } from "./goalPreferences";
+import { prerequisitesByGoal } from "./dependencies";
+import { completedMinutesByGoal, getGoalProgress } from "../lib/goalProgress";
+
+export const WEEK_DAYS = [
+  "Pazartesi",
+  "Salı",
+  "Çarşamba",
+  "Perşembe",
+  "Cuma",
+  "Cumartesi",
+  "Pazar",
+];
+
+// Defaults only; the actual window and slot size come from the policy.
+export const START_HOUR = DEFAULT_WEEKLY_PLANNER_POLICY.dayStartHour;
+export const END_HOUR = DEFAULT_WEEKLY_PLANNER_POLICY.dayEndHour; // end boundary (exclusive)
+export const SLOT_MINUTES = DEFAULT_WEEKLY_PLANNER_POLICY.slotMinutes;
+
+/** Slot length of a planned day; plans stored before slot sizes were configurable used 30. */
+export function slotMinutesOf(day: DayPlan): number {
+  return day.slotMinutes ?? SLOT_MINUTES;
+}
+
+// ---------------- Baseline Scheduler (rules + heuristics) ----------------
+
+/**
+ * Build a date-anchored plan (one or more weeks) from goals and constraints.
+ * Rules:
+ * - Start with all slots "free", then copy pinned (manually edited) slots
+ * - Constraints are expanded into the dates they occur on (recurrence,
+ *   exceptions); timed ones block exactly their time range, the others are
+ *   placed on evening slots first (Respecting 'day' if exists)
+ * - 'day_off' constraints close their whole day; study goes to the other days
+ * - Distribute remaining study hours from today on; the next goal is
+ *   picked by priority weight * remaining share * deadline urgency
+ *   (round-robin on ties)
+ * - Goals with a deadline are only placed on days before the deadline day
+ *   and get a weekly quota so the work is spread until the deadline
+ * - Max X study minutes per day (policy.maxStudyMinutesPerDay)
+ * - Pending spaced-repetition reviews get a short "review" block on their
+ *   due day (overdue ones from today on) before any study is placed; they
+ *   count towards the daily cap
+ * - Per-goal block settings: preferred block length, a minimum block length
+ *   (shorter fragments are never placed but reported as unplaced) and a
+ *   per-day cap
+ * - Per-goal time preferences: forbidden windows are never used, preferred
+ *   windows and days scale the block score (see goalPreferences.ts)
+ * - Goals with prerequisites (Goal.dependsOn) start only after the last block
+ *   of every prerequisite; cyclic links are ignored (see dependencies.ts)
+ * - Blocks keep a break between them, no study run exceeds
+ *   policy.maxConsecutiveStudyMinutes and subject changes within a day
+ *   cost policy.contextSwitchPenalty (see studyRhythm.ts)
+ * - Whatever does not fit is reported in `unplaced`
+ */
+export function schedule(
+  goals: Goal[] = [],
+  constraints: Constraint[] = [],
+  policy: WeeklyPlannerPolicy = DEFAULT_WEEKLY_PLANNER_POLICY,
+  options: SchedulerOptions = {}
+): ScheduleResult {
+  const weekDays = options.dayNames ?? WEEK_DAYS;
+  const slotMinutes = options.slotMinutes ?? policy.slotMinutes ?? SLOT_MINUTES;
+  const nowDate = options.now ?? new Date();
+  const weekStart = startOfWeek(options.startDate ?? nowDate);
+  const horizonWeeks = Math.max(1, Math.round(options.horizonWeeks ?? policy.planningHorizonWeeks ?? 1));
+  const daysPerWeek = weekDays.length;
+  // Days before today are history: constraints are drawn, no study is placed.
+  const firstPlannableDay = Math.max(0, diffInDays(weekStart, nowDate));
+
+  // Explicit start/end hours override the policy's (per-weekday) windows.
+  const windowOf = (d: number) => {
+    const window = dayWindowFor(policy, d % daysPerWeek);
+    return {
+      startHour: options.startHour ?? window.startHour,
+      endHour: options.endHour ?? window.endHour,
+    };
+  };
+  const rationales: SlotRationale[] = [];
+  const unplaced: UnplacedGoal[] = [];
+
+  // 1) Initialize all slots as "free"
+  const days: DayPlan[] = Array.from({ length: horizonWeeks * daysPerWeek }, (_, d) => {
+    const { startHour, endHour } = windowOf(d);
+    return {
+      date: toISODate(addDays(weekStart, d)),
+      dayName: weekDays[d % daysPerWeek],
+      slotMinutes,
+      slots: Array.from(
+        { length: Math.max(0, Math.floor(((endHour - startHour) * 60) / slotMinutes)) },
+        (_, i): Slot => ({
+          startMinutes: startHour * 60 + i * slotMinutes,
+          type: "free",
+          rationale: createRationale(SchedulerRule.SLOT_FREE_AVAILABLE),
+        })
+      ),
+    };
+  });
+
+  // 1b) Pinned slots from the previous plan stay exactly where the user put them
+  (options.pinned ?? []).forEach((pinnedDay, index) => {
+    // Match by date; plans stored before dates existed fall back to the index.
+    const d = pinnedDay.date ? days.findIndex((day) => day.date === pinnedDay.date) : index;
+    if (!days[d]) return;
+    for (const p of pinnedDay.slots) {
+      if (!p.pinned || p.type === "free") continue;
+      // Containing slot, so pins survive a change of slot size; pins outside the window are dropped.
+      const slot = days[d].slots.find(
+        (s) => s.startMinutes <= p.startMinutes && p.startMinutes < s.startMinutes + slotMinutes
+      );
+      if (!slot || slot.pinned) continue;
+      slot.type = p.type;
+      slot.label = p.label;
+      slot.priority = p.priority;
+      slot.goalId = p.goalId;
+      slot.constraintId = p.constraintId;
+      slot.reviewId = p.reviewId;
+      slot.pinned = true;
+      slot.rationale = createRationale(SchedulerRule.SLOT_PINNED_BY_USER, {
+        goalTitle: p.type === "study" || p.type === "review" ? p.label : undefined,
+        constraintTitle: p.type === "busy" ? p.label : undefined,
+        dayName: days[d].dayName,
+        date: days[d].date,
+        startMinutes: p.startMinutes,
+      });
+    }
+  });
+
+  // Pinned slots are matched by id, falling back to the label for older plans.
+  const countPinned = (
+    type: "study" | "busy",
+    id: number | undefined,
+    title: string,
+    range: DayPlan[] = days
+  ) =>
+    range
+      .flatMap((day) => day.slots)
+      .filter((slot) => {
+        if (!slot.pinned || slot.type !== type) return false;
+        const slotId = type === "study" ? slot.goalId : slot.constraintId;
+        return slotId !== undefined ? slotId === id : slot.label === title;
+      }).length;
+
+  // 2) Place constraints (each constraint keeps its own title and day), every week
+  const busySlot = (slot: Slot, c: Constraint, rationale: SlotRationale) => {
+    slot.type = "busy";
+    slot.label = c.title;
+    slot.priority = undefined;
+    slot.constraintId = c.id;
+    slot.rationale = rationale;
+  };
+
+  for (let w = 0; w < horizonWeeks; w++) {
+    const week = days.slice(w * daysPerWeek, (w + 1) * daysPerWeek);
+    const weekDate = addDays(weekStart, w * daysPerWeek);
+    const expanded = constraints.map((c) => ({
+      c,
+      intervals: expandConstraint(c, weekDate, weekDays),
+    }));
+    const busyConstraints = expanded.filter(({ c }) => c.type !== "day_off");
+
+    // Days off first: they close the whole day, goals only go to the other days
+    for (const { c, intervals } of expanded) {
+      if (c.type !== "day_off") continue;
+      for (const interval of intervals ?? []) {
+        const day = week[interval.dayIndex];
+        const rationale = createRationale(SchedulerRule.CONSTRAINT_DAY_OFF, {
+          constraintTitle: c.title,
+          dayName: day.dayName,
+          date: day.date,
+        });
+        day.slots.forEach((slot) => {
+          if (slot.type === "free") busySlot(slot, c, rationale);
+        });
+        rationales.push(rationale);
+      }
+    }
+
+    // 2a) Timed occurrences first, so the heuristic below cannot take their slots
+    for (const { c, intervals } of busyConstraints) {
+      for (const interval of intervals ?? []) {
+        if (interval.startMinutes === undefined || interval.endMinutes === undefined) continue;
+        const day = week[interval.dayIndex];
+        const rationale = createRationale(SchedulerRule.CONSTRAINT_FIXED_TIME, {
+          constraintTitle: c.title,
+          dayName: day.dayName,
+          date: day.date,
+          startMinutes: interval.startMinutes,
+          endMinutes: interval.endMinutes,
+        });
+        let placed = false;
+        for (const slot of day.slots) {
+          // Any slot overlapping the range is blocked (ranges may not align with slots)
+          if (slot.startMinutes >= interval.endMinutes || slot.startMinutes + slotMinutes <= interval.startMinutes) continue;
+          if (slot.type !== "free") continue;
+          busySlot(slot, c, rationale);
+          placed = true;
+        }
+        if (placed) rationales.push(rationale);
+      }
+    }
+
+    // 2b) Untimed occurrences on a known day (e.g. every Tuesday)
+    // Heuristic: Akşamdan geriye doğru boş yer ara (slot bazlı)
+    for (const { c, intervals } of busyConstraints) {
+      for (const interval of intervals ?? []) {
+        if (interval.startMinutes !== undefined) continue;
+        const day = week[interval.dayIndex];
+        let remainingSlots =
+          Math.round(interval.minutes / slotMinutes) - countPinned("busy", c.id, c.title, [day]);
+
+        for (let s = day.slots.length - 1; s >= 0 && remainingSlots > 0; s--) {
+          const slot = day.slots[s];
+          if (slot.type === "free") {
+            busySlot(slot, c, createRationale(SchedulerRule.CONSTRAINT_SPECIFIC_DAY, {
+              constraintTitle: c.title,
+              dayName: day.dayName,
+              date: day.date,
+              startMinutes: slot.startMinutes,
+            }));
+            rationales.push(slot.rationale!);
+            remainingSlots--;
+          } else if (!slot.pinned) {
+            slot.rationale = createRationale(SchedulerRule.SLOT_ALREADY_OCCUPIED);
+          }
+        }
+      }
+    }
+
+    // 2c) Undated constraints ('Genel'): weekly total, round-robin over the days
+    for (const { c, intervals } of busyConstraints) {
+      if (intervals) continue;
+      let remainingSlots =
+        Math.round(((c.duration || 0) * 60) / slotMinutes) -
+        countPinned("busy", c.id, c.title, week);
+
+      // k = slots counted back from each day's own window end (windows may differ per day)
+      const longestDay = Math.max(...week.map((day) => day.slots.length));
+      for (let k = 0; k < longestDay && remainingSlots > 0; k++) {
+        // Tüm günlere (Pzt->Paz) sırayla bak (Round-robin)
+        for (let d = 0; d < week.length && remainingSlots > 0; d++) {
+          const slot = week[d].slots[week[d].slots.length - 1 - k];
+          if (slot?.type === "free" && !c.exceptions?.includes(week[d].date ?? "")) {
+            busySlot(slot, c, createRationale(SchedulerRule.CONSTRAINT_GENERAL_DISTRIBUTION, {
+              constraintTitle: c.title,
+              dayName: week[d].dayName,
+              date: week[d].date,
+              startMinutes: slot.startMinutes,
+            }));
+            rationales.push(slot.rationale!);
+            remainingSlots--;
+          }
+        }
+      }
+    }
+  }
+
+  // 3) Distribute goals across the remaining free slots.
+  // Remaining effort = target minus completed sessions (see lib/goalProgress).
+  const completed = completedMinutesByGoal(options.sessions ?? []);
+  const goalStates = goals.map((g) => ({
+    id: g.id,
+    title: g.title,
+    priority: g.priority,
+    status: g.status,
+    targetMinutes: (g.targetHours || 0) * 60,
+    remainingMinutes:
+      getGoalProgress(g, completed).remainingMinutes -
+      countPinned("study", g.id, g.title) * slotMinutes,
+    deadline: g.deadline ? parseDeadline(g.deadline) : undefined,
+    // Last day index the goal may use (the deadline day itself is excluded).
+    lastDayIndex: g.deadline
+      ? diffInDays(weekStart, parseDeadline(g.deadline)) - 1
+      : Infinity,
+    // Weekly pacing for deadline goals (recomputed at every week boundary).
+    weekQuotaMinutes: Infinity,
+    placedThisWeekMinutes: 0,
+    // Per-goal block settings, in slots
+    minSlots: Math.max(1, Math.ceil((g.minBlockMinutes ?? 0) / slotMinutes)),
+    preferredMinutes: g.preferredBlockMinutes,
+    maxDaySlots: g.maxMinutesPerDay ? Math.floor(g.maxMinutesPerDay / slotMinutes) : Infinity,
+    placedTodaySlots: 0,
+    minBlockMinutes: g.minBlockMinutes,
+    // Time windows and day preferences (see goalPreferences.ts)
+    prefs: g,
+    // Where the goal's last block ends once all its hours are placed
+    // (-Infinity: nothing left to place from the start).
+    finishedDay: Infinity,
+    finishedSlot: 0,
+    prerequisites: [] as number[],
+    dependencyReported: false,
+  }));
+
+  // Where each goal's last pinned block ends: a goal whose hours are all
+  // pinned finishes there, not before the plan starts
+  const lastPinned = goalStates.map((g) => {
+    let end = { day: -Infinity, slot: 0 };
+    days.forEach((day, d) =>
+      day.slots.forEach((slot, s) => {
+        if (!slot.pinned || slot.type !== "study") return;
+        if (g.id !== undefined ? slot.goalId === g.id : slot.label === g.title) end = { day: d, slot: s + 1 };
+      })
+    );
+    return end;
+  });
+
+  // Dependencies as goal state indices
+  const prerequisites = prerequisitesByGoal(goals);
+  goalStates.forEach((g, index) => {
+    if (g.status === "completed") g.finishedDay = -Infinity;
+    else if (g.remainingMinutes <= 0) {
+      g.finishedDay = lastPinned[index].day;
+      g.finishedSlot = lastPinned[index].slot;
+    }
+    g.prerequisites = (g.id !== undefined ? prerequisites.get(g.id) ?? [] : [])
+      .map((id) => goalStates.findIndex((o) => o.id === id))
+      .filter((i) => i !== -1);
+  });
+
+  if (goalStates.length === 0) {
+    return { plan: days, rationales, unplaced, strategy: "greedy", objective: 0 };
+  }
+
+  // Exam heuristic: if any active goal deadline is near, bias mornings more.
+  const { policy: effectivePolicy, examSoon } = examAdjustedPolicy(goals, policy, nowDate);
+
+  if (examSoon) {
+    rationales.push(
+      createRationale(SchedulerRule.EXAM_WINDOW_ACTIVE, {
+        examWindowDays: policy.examWindowDays,
+      })
+    );
+  }
+
+  const bucketWeight = (bucket: TimeOfDayBucket) => bucketWeightFor(bucket, effectivePolicy);
+
+  const priorityWeight = (priority: Goal["priority"]) =>
+    effectivePolicy.priorityWeights?.[priority] ?? 1;
+
+  const isContiguousFree = (slots: Slot[], start: number, len: number) => {
+    for (let i = 0; i < len; i++) {
+      if (!slots[start + i] || slots[start + i].type !== "free") return false;
+    }
+    return true;
+  };
+
+  const placeBlock = (
+    daySlots: Slot[],
+    start: number,
+    len: number,
+    goal: { id?: number; title: string; priority: Goal["priority"] }
+  ) => {
+    for (let i = 0; i < len; i++) {
+      daySlots[start + i].type = "study";
+      daySlots[start + i].label = goal.title;
+      daySlots[start + i].priority = goal.priority;
+      daySlots[start + i].goalId = goal.id;
+    }
+  };
+
+  const placedRule: Record<TimeOfDayBucket, SchedulerRule> = {
+    morning: SchedulerRule.GOAL_BLOCK_PLACED_MORNING,
+    midday: SchedulerRule.GOAL_BLOCK_PLACED_MIDDAY,
+    evening: SchedulerRule.GOAL_BLOCK_PLACED_EVENING,
+  };
+
+  const maxPerDaySlots = Math.floor(
+    (effectivePolicy.maxStudyMinutesPerDay || 0) / slotMinutes
+  );
+  const breakSlots = breakSlotsFor(effectivePolicy, slotMinutes);
+  const maxRunSlots = maxConsecutiveSlotsFor(effectivePolicy, slotMinutes);
+  const switchPenalty = Math.max(0, effectivePolicy.contextSwitchPenalty ?? 0);
+
+  const isActive = (i: number, day: number) =>
+    goalStates[i].remainingMinutes > 0 &&
+    goalStates[i].status !== "postponed" &&
+    day <= goalStates[i].lastDayIndex &&
+    goalStates[i].placedThisWeekMinutes < goalStates[i].weekQuotaMinutes;
+
+  // Deadline urgency: >1 when the goal has fewer days left than the horizon,
+  // so its remaining hours get front-loaded before the deadline.
+  const urgency = (i: number, day: number) => {
+    const last = goalStates[i].lastDayIndex;
+    if (last >= days.length - 1) return 1;
+    return (days.length - day) / (last - day + 1);
+  };
+
+  // Spread a deadline goal evenly over the weeks left until its deadline
+  // (which may lie beyond the horizon) instead of cramming the first week.
+  const startWeek = (w: number) => {
+    for (const g of goalStates) {
+      g.placedThisWeekMinutes = 0;
+      const weeksLeft = Number.isFinite(g.lastDayIndex)
+        ? Math.floor(g.lastDayIndex / daysPerWeek) + 1 - w
+        : 1;
+      g.weekQuotaMinutes = weeksLeft > 1
+        ? Math.ceil(g.remainingMinutes / weeksLeft / slotMinutes) * slotMinutes
+        : Infinity;
+    }
+  };
+
+  // Study minutes still available from `day` through `lastDay` (inclusive).
+  const capacityUntil = (day: number, lastDay: number, usedToday: number) => {
+    let minutes = 0;
+    for (let k = day; k <= Math.min(lastDay, days.length - 1); k++) {
+      const free = days[k].slots.filter((s) => s.type === "free").length;
+      const left = maxPerDaySlots - (k === day ? usedToday : 0);
+      minutes += Math.max(0, Math.min(left, free)) * slotMinutes;
+    }
+    return minutes;
+  };
+
+  // Slack = capacity before the deadline minus this goal's and earlier-due goals' demand.
+  const slackMinutes = (i: number, day: number, usedToday: number) => {
+    const last = goalStates[i].lastDayIndex;
+    const demand = goalStates.reduce(
+      (sum, o, j) => (isActive(j, day) && o.lastDayIndex <= last ? sum + o.remainingMinutes : sum),
+      0
+    );
+    return capacityUntil(day, last, usedToday) - demand;
+  };
+  const maxBlockMinutes = Math.max(
+    effectivePolicy.baseStudyBlockMinutes,
+    effectivePolicy.eveningStudyBlockMinutes
+  );
+
+  // 2d) Spaced-repetition reviews (see review/spacedRepetition.ts): one short
+  // block per review in the best-weighted free slots of its due day; a full
+  // day moves the review to the next one.
+  const reviewSlots = Math.max(1, Math.ceil((effectivePolicy.reviewBlockMinutes ?? 0) / slotMinutes));
+  const pinnedReviews = new Set(
+    days.flatMap((day) => day.slots).filter((s) => s.pinned && s.type === "review").map((s) => s.reviewId)
+  );
+  const pendingReviews = (options.reviews ?? [])
+    .filter((r) => r.status === "pending" && !pinnedReviews.has(r.id))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  for (const review of pendingReviews) {
+    const goal = goals.find((g) => g.id === review.goalId);
+    if (!goal || goal.status === "postponed") continue;
+
+    const dueDay = diffInDays(weekStart, new Date(`${review.dueDate}T00:00:00`));
+    let placed = false;
+    for (let d = Math.max(firstPlannableDay, dueDay); d < days.length && !placed; d++) {
+      const daySlots = days[d].slots;
+      const used = daySlots.filter((s) => s.type === "review" || (s.pinned && s.type === "study")).length;
+      if (used + reviewSlots > maxPerDaySlots) continue;
+
+      let bestStart = -1;
+      let bestScore = -Infinity;
+      for (let s = 0; s + reviewSlots <= daySlots.length; s++) {
+        if (!isContiguousFree(daySlots, s, reviewSlots)) continue;
+        let forbidden = false;
+        for (let i = 0; i < reviewSlots; i++) {
+          forbidden ||= isForbiddenSlot(goal, daySlots[s + i].startMinutes, slotMinutes);
+        }
+        if (forbidden) continue;
+        const bucket = bucketForHour(Math.floor(daySlots[s].startMinutes / 60), effectivePolicy);
+        const score = bucketWeight(bucket) - (s / daySlots.length) * 0.08;
+        if (score > bestScore) {
+          bestScore = score;
+          bestStart = s;
+        }
+      }
+      if (bestStart === -1) continue;
+
+      const rationale = createRationale(SchedulerRule.REVIEW_SPACED_REPETITION, {
+        goalTitle: goal.title,
+        dayName: days[d].dayName,
+        date: days[d].date,
+        startMinutes: daySlots[bestStart].startMinutes,
+        blockLength: reviewSlots * slotMinutes,
+        reviewIntervalDays: review.intervalDays,
+        reviewDueDate: review.dueDate,
+      });
+      for (let i = 0; i < reviewSlots; i++) {
+        const slot = daySlots[bestStart + i];
+        slot.type = "review";
+        slot.label = goal.title;
+        slot.priority = goal.priority;
+        slot.goalId = goal.id;
+        slot.reviewId = review.id;
+        slot.rationale = rationale;
+      }
+      rationales.push(rationale);
+      placed = true;
+    }
+
+    // Due beyond the horizon: planned by a later run.
+    if (!placed && dueDay < days.length) {
+      rationales.push(
+        createRationale(SchedulerRule.REVIEW_SPACED_REPETITION, {
+          goalTitle: goal.title,
+          reviewIntervalDays: review.intervalDays,
+          reviewDueDate: review.dueDate,
+          unplacedMinutes: reviewSlots * slotMinutes,
+        })
+      );
+    }
+  }
+
+  let currentGoalIndex = 0;
+  // Goals that cannot take another block today (own daily cap or no fitting slot)
+  const doneToday = new Set<number>();
+
+  // First slot of `day` a goal may use after its prerequisites, -1 if not today.
+  const readyFrom = (i: number, day: number) => {
+    let from = 0;
+    for (const p of goalStates[i].prerequisites) {
+      if (goalStates[p].finishedDay > day) return -1;
+      if (goalStates[p].finishedDay === day) from = Math.max(from, goalStates[p].finishedSlot);
+    }
+    return from;
+  };
+  const pendingPrerequisite = (i: number) =>
+    goalStates[i].prerequisites.find((p) => goalStates[p].finishedDay === Infinity);
+
+  const canPlaceToday = (i: number, day: number) =>
+    isActive(i, day) && !doneToday.has(i) && readyFrom(i, day) !== -1;
+
+  for (let d = firstPlannableDay; d < days.length; d++) {
+    if (d === firstPlannableDay || d % daysPerWeek === 0) startWeek(Math.floor(d / daysPerWeek));
+
+    // Pinned study blocks and reviews already use part of the daily cap.
+    let usedTodaySlots = days[d].slots.filter(
+      (s) => s.type === "review" || (s.pinned && s.type === "study")
+    ).length;
+    doneToday.clear();
+    for (const g of goalStates) {
+      g.placedTodaySlots = days[d].slots.filter(
+        (s) => s.pinned && s.type === "study" && (g.id !== undefined ? s.goalId === g.id : s.label === g.title)
+      ).length;
+    }
+
+    // Explain (once) why a goal waits for its prerequisites.
+    goalStates.forEach((g, i) => {
+      if (g.dependencyReported || !isActive(i, d) || readyFrom(i, d) !== -1) return;
+      const waitingFor = pendingPrerequisite(i);
+      g.dependencyReported = true;
+      rationales.push(
+        createRationale(SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY, {
+          goalTitle: g.title,
+          prerequisiteTitle: waitingFor !== undefined ? goalStates[waitingFor].title : undefined,
+          dayName: days[d].dayName,
+          date: days[d].date,
+        })
+      );
+    });
+
+    // Keep placing blocks until we can't.
+    while (usedTodaySlots < maxPerDaySlots) {
+      // Stop if no remaining goals for this day
+      if (!goalStates.some((_, i) => canPlaceToday(i, d))) break;
+
+      // Round-robin candidate: the goal that would be next without priorities.
+      let rrIndex = currentGoalIndex;
+      while (!canPlaceToday(rrIndex, d)) rrIndex = (rrIndex + 1) % goalStates.length;
+
+      // Pick by weight * remaining share * day preference (* urgency), ties keep round-robin order.
+      // The priority-only pick is kept to explain which factor decided.
+      let pickIndex = rrIndex;
+      let pickScore = -Infinity;
+      let priorityPickIndex = rrIndex;
+      let priorityPickScore = -Infinity;
+      for (let k = 0; k < goalStates.length; k++) {
+        const i = (rrIndex + k) % goalStates.length;
+        if (!canPlaceToday(i, d)) continue;
+        const share = goalStates[i].remainingMinutes / goalStates[i].targetMinutes;
+        const pScore =
+          priorityWeight(goalStates[i].priority) * share * dayFactor(goalStates[i].prefs, days[d].dayName, effectivePolicy);
+        if (pScore > priorityPickScore) {
+          priorityPickScore = pScore;
+          priorityPickIndex = i;
+        }
+        if (pScore * urgency(i, d) > pickScore) {
+          pickScore = pScore * urgency(i, d);
+          pickIndex = i;
+        }
+      }
+
+      // Slack check: a deadline goal that could not afford another goal's
+      // block first is critical; critical goals go earliest-deadline-first.
+      let criticalIndex = -1;
+      for (let i = 0; i < goalStates.length; i++) {
+        if (!canPlaceToday(i, d) || goalStates[i].lastDayIndex >= days.length) continue;
+        if (slackMinutes(i, d, usedTodaySlots) >= maxBlockMinutes) continue;
+        if (criticalIndex === -1 || goalStates[i].lastDayIndex < goalStates[criticalIndex].lastDayIndex) {
+          criticalIndex = i;
+        }
+      }
+      if (criticalIndex !== -1) pickIndex = criticalIndex;
+      currentGoalIndex = pickIndex;
+
+      const g = goalStates[currentGoalIndex];
+      const daySlots = days[d].slots;
+      const keyAt = (i: number) => studyKey(daySlots[i]);
+      const goalKey = g.id !== undefined ? `#${g.id}` : g.title;
+      const firstSlot = readyFrom(currentGoalIndex, d);
+
+      // Find best block placement in this day for this goal.
+      let bestStart = -1;
+      let bestLen = 0;
+      let bestScore = -Infinity;
+      let bestBucket: TimeOfDayBucket = "midday";
+      let bestSwitches = 0;
+      let bestCapped = false;
+      let bestBreakdown: ScoreBreakdown | undefined;
+      const dayWeight = dayFactor(g.prefs, days[d].dayName, effectivePolicy);
+
+      for (let s = firstSlot; s < daySlots.length; s++) {
+        if (daySlots[s].type !== "free") continue;
+
+        const startMinutes = daySlots[s].startMinutes;
+        const hour = Math.floor(startMinutes / 60);
+        const bucket = bucketForHour(hour, effectivePolicy);
+
+        // Block length: the goal's preferred length, else depends on bucket (evening shorter).
+        const desiredMinutes =
+          g.preferredMinutes ??
+          (bucket === "evening"
+            ? effectivePolicy.eveningStudyBlockMinutes
+            : effectivePolicy.baseStudyBlockMinutes);
+        const desiredSlots = Math.max(
+          g.minSlots,
+          Math.round(desiredMinutes / slotMinutes)
+        );
+
+        // The weekly quota may be overshot up to the minimum block, the remaining effort not.
+        const remainingSlotsForGoal = Math.min(
+          Math.ceil(g.remainingMinutes / slotMinutes),
+          Math.max(
+            g.minSlots,
+            Math.ceil((g.weekQuotaMinutes - g.placedThisWeekMinutes) / slotMinutes)
+          )
+        );
+        const remainingSlotsForDay = Math.min(
+          maxPerDaySlots - usedTodaySlots,
+          g.maxDaySlots - g.placedTodaySlots
+        );
+        const len = Math.min(
+          desiredSlots,
+          maxRunSlots,
+          remainingSlotsForGoal,
+          remainingSlotsForDay,
+          daySlots.length - s
+        );
+        // Never place a fragment below the goal's minimum block.
+        if (len <= 0 || len < g.minSlots) continue;
+        if (!isContiguousFree(daySlots, s, len)) continue;
+        if (!respectsStudyRhythm(keyAt, s, len, breakSlots, maxRunSlots)) continue;
+        let forbidden = false;
+        let windowSum = 0;
+        for (let i = 0; i < len; i++) {
+          const slotStart = daySlots[s + i].startMinutes;
+          forbidden ||= isForbiddenSlot(g.prefs, slotStart, slotMinutes);
+          windowSum += windowFactor(g.prefs, slotStart, slotMinutes, effectivePolicy);
+        }
+        if (forbidden) continue;
+        const windowWeight = windowSum / len;
+
+        // Score: time-bias weight * the goal's window and day preferences
+        // + slight preference for earlier in day, minus the subject changes
+        // this block adds to the day.
+        const switches = switchPenalty > 0
+          ? addedContextSwitches(keyAt, daySlots.length, s, len, goalKey)
+          : 0;
+        const weight = bucketWeight(bucket);
+        const timePenalty = (s / daySlots.length) * 0.08;
+        const score = weight * windowWeight * dayWeight - timePenalty - switches * switchPenalty;
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestStart = s;
+          bestLen = len;
+          bestBucket = bucket;
+          bestSwitches = switches;
+          bestCapped = len === maxRunSlots && desiredSlots > maxRunSlots;
+          bestBreakdown = {
+            bucketWeight: weight,
+            windowFactor: windowWeight,
+            dayFactor: dayWeight,
+            timePenalty,
+            switchPenalty: switches * switchPenalty,
+            total: score,
+          };
+        }
+      }
+
+      // No fitting block for this goal today: let the other goals use the day.
+      if (bestStart === -1 || bestLen === 0) {
+        doneToday.add(currentGoalIndex);
+        currentGoalIndex = (currentGoalIndex + 1) % goalStates.length;
+        continue;
+      }
+
+      // Place block with rationale. If a deadline or priority overrode the
+      // round-robin order, say so instead of the plain bucket rule.
+      const deadlineChanged = pickIndex !== priorityPickIndex;
+      const displaced = goalStates[deadlineChanged ? priorityPickIndex : rrIndex];
+      const priorityChanged =
+        !deadlineChanged &&
+        pickIndex !== rrIndex &&
+        priorityWeight(g.priority) > priorityWeight(displaced.priority);
+      const blockRationale = createRationale(
+        deadlineChanged
+          ? SchedulerRule.GOAL_DEADLINE_FRONT_LOADED
+          : priorityChanged
+            ? SchedulerRule.HIGH_PRIORITY_GOAL_ALLOCATED_EARLIER
+            : placedRule[bestBucket],
+        {
+          goalTitle: g.title,
+          priority: g.priority,
+          priorityWeight: priorityWeight(g.priority),
+          displacedGoalTitle: deadlineChanged || priorityChanged ? displaced.title : undefined,
+          deadline: g.deadline ? toISODate(parseDeadline(g.deadline)) : undefined,
+          daysToDeadline: g.deadline ? g.lastDayIndex - d + 1 : undefined,
+          dayName: days[d].dayName,
+          date: days[d].date,
+          startMinutes: daySlots[bestStart].startMinutes,
+          blockLength: bestLen * slotMinutes,
+          bucket: bestBucket,
+          score: bestScore,
+          scoreBreakdown: bestBreakdown,
+        }
+      );
+
+      for (let i = 0; i < bestLen; i++) {
+        daySlots[bestStart + i].rationale = blockRationale;
+      }
+      rationales.push(blockRationale);
+
+      if (bestCapped) {
+        rationales.push(
+          createRationale(SchedulerRule.STUDY_MAX_CONSECUTIVE_REACHED, {
+            goalTitle: g.title,
+            dayName: days[d].dayName,
+            date: days[d].date,
+            startMinutes: daySlots[bestStart].startMinutes,
+            blockLength: bestLen * slotMinutes,
+            maxConsecutiveMinutes: effectivePolicy.maxConsecutiveStudyMinutes,
+          })
+        );
+      }
+      if (bestSwitches > 0) {
+        rationales.push(
+          createRationale(SchedulerRule.STUDY_CONTEXT_SWITCH_PENALIZED, {
+            goalTitle: g.title,
+            dayName: days[d].dayName,
+            date: days[d].date,
+            startMinutes: daySlots[bestStart].startMinutes,
+            contextSwitches: bestSwitches,
+            switchPenalty: bestSwitches * switchPenalty,
+          })
+        );
+      }
+
+      placeBlock(daySlots, bestStart, bestLen, g);
+      g.remainingMinutes -= bestLen * slotMinutes;
+      g.placedThisWeekMinutes += bestLen * slotMinutes;
+      usedTodaySlots += bestLen;
+      g.placedTodaySlots += bestLen;
+      if (g.remainingMinutes <= 0) {
+        const pinnedEnd = lastPinned[currentGoalIndex];
+        const later = pinnedEnd.day > d || (pinnedEnd.day === d && pinnedEnd.slot > bestStart + bestLen);
+        g.finishedDay = later ? pinnedEnd.day : d;
+        g.finishedSlot = later ? pinnedEnd.slot : bestStart + bestLen;
+      }
+
+      if (g.remainingMinutes > 0 && g.placedThisWeekMinutes >= g.weekQuotaMinutes) {
+        rationales.push(
+          createRationale(SchedulerRule.GOAL_SPREAD_ACROSS_HORIZON, {
+            goalTitle: g.title,
+            date: days[d].date,
+            deadline: g.deadline ? toISODate(parseDeadline(g.deadline)) : undefined,
+            weeklyQuotaMinutes: g.weekQuotaMinutes,
+          })
+        );
+      }
+      currentGoalIndex = (currentGoalIndex + 1) % goalStates.length;
+    }
+
+    // Mark the rest of a full day so the grid can explain why it stayed free.
+    if (usedTodaySlots >= maxPerDaySlots) {
+      days[d].slots.forEach((slot) => {
+        if (slot.type === "free") {
+          slot.rationale = createRationale(SchedulerRule.DAILY_STUDY_LIMIT_REACHED, {
+            dayName: days[d].dayName,
+            date: days[d].date,
+            dailyLimit: (maxPerDaySlots * slotMinutes) / 60,
+            usedToday: (usedTodaySlots * slotMinutes) / 60,
+          });
+        }
+      });
+    }
+  }
+
+  // 4) Report what did not fit
+  for (const g of goalStates) {
+    if (g.status === "postponed") {
+      rationales.push(
+        createRationale(SchedulerRule.GOAL_POSTPONED_SKIPPED, { goalTitle: g.title })
+      );
+      continue;
+    }
+    if (g.remainingMinutes <= 0) continue;
+
+    // Waiting for a prerequisite whose hours did not all fit in the plan.
+    const waitingFor = pendingPrerequisite(goalStates.indexOf(g));
+    if (waitingFor !== undefined) {
+      const rationale = createRationale(SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY, {
+        goalTitle: g.title,
+        priority: g.priority,
+        prerequisiteTitle: goalStates[waitingFor].title,
+        unplacedMinutes: g.remainingMinutes,
+      });
+      rationales.push(rationale);
+      unplaced.push({
+        goalId: g.id,
+        goalTitle: g.title,
+        unplacedMinutes: g.remainingMinutes,
+        reason: SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY,
+        rationale,
+      });
+      continue;
+    }
+
+    // A leftover shorter than the minimum block is never placed, in any week.
+    if (g.remainingMinutes < g.minSlots * slotMinutes) {
+      const rationale = createRationale(SchedulerRule.GOAL_FRAGMENT_BELOW_MINIMUM, {
+        goalTitle: g.title,
+        priority: g.priority,
+        unplacedMinutes: g.remainingMinutes,
+        minBlockMinutes: g.minBlockMinutes,
+      });
+      rationales.push(rationale);
+      unplaced.push({
+        goalId: g.id,
+        goalTitle: g.title,
+        unplacedMinutes: g.remainingMinutes,
+        reason: SchedulerRule.GOAL_FRAGMENT_BELOW_MINIMUM,
+        rationale,
+      });
+      continue;
+    }
+
+    // Deadline beyond the horizon: the rest is planned in later weeks.
+    if (g.lastDayIndex !== Infinity && g.lastDayIndex >= days.length) {
+      rationales.push(
+        createRationale(SchedulerRule.GOAL_SPREAD_ACROSS_HORIZON, {
+          goalTitle: g.title,
+          deadline: g.deadline ? toISODate(parseDeadline(g.deadline)) : undefined,
+          deferredMinutes: g.remainingMinutes,
+        })
+      );
+      continue;
+    }
+
+    // Deadline inside the horizon: the hours could not fit before it.
+    const reason =
+      g.deadline && g.lastDayIndex < days.length - 1
+        ? SchedulerRule.GOAL_UNPLACED_BEFORE_DEADLINE
+        : SchedulerRule.GOAL_UNPLACED_NO_CAPACITY;
+    const rationale = createRationale(reason, {
+      goalTitle: g.title,
+      priority: g.priority,
+      unplacedMinutes: g.remainingMinutes,
+      deadline: g.deadline ? toISODate(parseDeadline(g.deadline)) : undefined,
+    });
+    rationales.push(rationale);
+    unplaced.push({
+      goalId: g.id,
+      goalTitle: g.title,
+      unplacedMinutes: g.remainingMinutes,
+      reason,
+      rationale,
+    });
+  }
+
+  markBreakSlots(days, effectivePolicy);
+
+  return {
+    plan: days,
+    rationales,
+    unplaced,
+    strategy: "greedy",
+    objective: scorePlan(days, effectivePolicy, goals),
+  };
+}
@@ -0,0 +1,25 @@
+import type { Goal, Constraint } from "../../types/models";
+import type { WeeklyPlannerPolicy } from "../../tuner/weeklyPlannerPolicy";
+import { ScheduleResult, SchedulerOptions, SchedulerProgress, StrategyComparison } from "../types";
+
+/**
+ * Message protocol between the planner (main thread) and scheduler.worker.ts.
+ * Every message carries the runId of the request it belongs to, so replies of
+ * a stale run can be recognized and dropped. Dates survive structured clone.
+ */
+
+export interface SchedulerRunInput {
+  goals: Goal[];
+  constraints: Constraint[];
+  policy: WeeklyPlannerPolicy;
+  options: SchedulerOptions;
+}
+
+/** "run" schedules with the policy's strategy, "compare" scores every strategy. */
+export type SchedulerRequest = { type: "run" | "compare"; runId: number } & SchedulerRunInput;
+
+export type SchedulerResponse =
+  | { type: "progress"; runId: number; progress: SchedulerProgress }
+  | { type: "result"; runId: number; result: ScheduleResult }
+  | { type: "comparison"; runId: number; comparison: StrategyComparison }
+  | { type: "error"; runId: number; message: string };
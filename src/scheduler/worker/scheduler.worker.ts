@@ -0,0 +1,33 @@
+import { compareStrategies, scheduleWithStrategy } from "../strategies";
+import { SchedulerRequest, SchedulerResponse } from "./protocol";
+
+/**
+ * Dedicated worker running the scheduler off the main thread.
+ * Runs are synchronous inside the worker; a stale run is cancelled by the
+ * client terminating the worker (see schedulerClient.ts).
+ */
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<SchedulerRequest>) => void) | null;
+  postMessage: (message: SchedulerResponse) => void;
+};
+
+ctx.onmessage = (event) => {
+  const { type, runId, goals, constraints, policy, options } = event.data;
+  try {
+    if (type === "compare") {
+      ctx.postMessage({ type: "comparison", runId, comparison: compareStrategies(goals, constraints, policy, options) });
+      return;
+    }
+    const result = scheduleWithStrategy(goals, constraints, policy, options, (progress) =>
+      ctx.postMessage({ type: "progress", runId, progress })
+    );
+    ctx.postMessage({ type: "result", runId, result });
+  } catch (err) {
+    ctx.postMessage({
+      type: "error",
+      runId,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
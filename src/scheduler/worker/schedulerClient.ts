@@ -0,0 +1,120 @@
+import { compareStrategies, scheduleWithStrategy } from "../strategies";
+import { ScheduleResult, SchedulerProgress, StrategyComparison } from "../types";
+import { SchedulerRequest, SchedulerResponse, SchedulerRunInput } from "./protocol";
+
+/** Rejection reason of a run replaced by a newer one (or cancelled explicitly). */
+export class SchedulerCancelledError extends Error {
+  constructor(public readonly runId: number) {
+    super(`Scheduler run ${runId} was cancelled`);
+    this.name = "SchedulerCancelledError";
+  }
+}
+
+interface PendingRun {
+  runId: number;
+  resolve: (value: ScheduleResult | StrategyComparison) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: SchedulerProgress) => void;
+}
+
+/**
+ * Main-thread side of the scheduler worker. Only the latest run matters:
+ * starting a run cancels the one in flight by terminating its worker, since a
+ * synchronous run cannot be interrupted from outside. Without Worker support
+ * (tests, SSR) runs fall back to the main thread.
+ */
+export class SchedulerWorkerClient {
+  private worker: Worker | null = null;
+  private pending: PendingRun | null = null;
+  private nextRunId = 1;
+
+  run(
+    input: SchedulerRunInput,
+    onProgress?: (progress: SchedulerProgress) => void
+  ): Promise<ScheduleResult> {
+    return this.start<ScheduleResult>("run", input, onProgress, () =>
+      scheduleWithStrategy(input.goals, input.constraints, input.policy, input.options, onProgress)
+    );
+  }
+
+  /** Scores every strategy on the same inputs (see compareStrategies). */
+  compare(input: SchedulerRunInput): Promise<StrategyComparison> {
+    return this.start<StrategyComparison>("compare", input, undefined, () =>
+      compareStrategies(input.goals, input.constraints, input.policy, input.options)
+    );
+  }
+
+  /** Cancels the run in flight, if any. Its promise rejects with SchedulerCancelledError. */
+  cancel() {
+    if (!this.pending) return;
+    const { runId, reject } = this.pending;
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    reject(new SchedulerCancelledError(runId));
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private start<T extends ScheduleResult | StrategyComparison>(
+    type: SchedulerRequest["type"],
+    input: SchedulerRunInput,
+    onProgress: ((progress: SchedulerProgress) => void) | undefined,
+    fallback: () => T
+  ): Promise<T> {
+    this.cancel();
+    const runId = this.nextRunId++;
+
+    if (typeof Worker === "undefined") {
+      return Promise.resolve().then(fallback);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending = { runId, resolve: resolve as PendingRun["resolve"], reject, onProgress };
+      this.ensureWorker().postMessage({ type, runId, ...input });
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL("./scheduler.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<SchedulerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      const pending = this.pending;
+      this.pending = null;
+      this.worker?.terminate();
+      this.worker = null;
+      pending?.reject(new Error(event.message || "Scheduler worker failed"));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: SchedulerResponse) {
+    const pending = this.pending;
+    // Replies of a replaced run are dropped
+    if (!pending || message.runId !== pending.runId) return;
+
+    switch (message.type) {
+      case "progress":
+        pending.onProgress?.(message.progress);
+        break;
+      case "result":
+        this.pending = null;
+        pending.resolve(message.result);
+        break;
+      case "comparison":
+        this.pending = null;
+        pending.resolve(message.comparison);
+        break;
+      case "error":
+        this.pending = null;
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+}
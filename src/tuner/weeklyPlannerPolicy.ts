@@ -1,8 +1,45 @@
 export type TimeOfDayBucket = 'morning' | 'midday' | 'evening';
 
+export type GoalPriority = 'low' | 'medium' | 'high';
+
+export type SlotMinutes = 15 | 30 | 60;
+
+/**
+ * 'greedy': day-by-day round-robin placement (fast, explainable).
+ * 'local_search': starts from the greedy plan and relocates blocks with
+ * simulated annealing to maximize the policy-weighted objective.
+ */
+export type SchedulerStrategy = 'greedy' | 'local_search';
+
+/**
+ * How a change (new goal, constraint, postponement...) reaches the plan:
+ * 'full' rebuilds the horizon, 'incremental' repairs the stored plan and keeps
+ * every block that is still valid (see scheduler/incremental.ts). A change of
+ * strategy or scoring weights rebuilds in both modes.
+ */
+export type ReplanMode = 'full' | 'incremental';
+
+export const SLOT_MINUTE_OPTIONS: SlotMinutes[] = [15, 30, 60];
+
+/** Planning window of a day (24h, start inclusive, end exclusive). */
+export interface DayWindow {
+  startHour: number;
+  endHour: number;
+}
+
 export interface WeeklyPlannerPolicy {
-  /** Slot resolution for scheduler/UI. Keep in sync with WeeklyPlanner rendering. */
-  slotMinutes: 30;
+  /** Slot resolution for scheduler/UI (15, 30 or 60 minutes). */
+  slotMinutes: SlotMinutes;
+
+  /** Default planning window of a day (24h). */
+  dayStartHour: number;
+  dayEndHour: number;
+
+  /**
+   * Per-weekday window overrides, keyed by day index (0 = Monday).
+   * Example: { 5: { startHour: 11, endHour: 22 } } for a later Saturday.
+   */
+  dayWindows: Partial<Record<number, DayWindow>>;
 
   /** Default study block length (minutes). Example: 60, 90. */
   baseStudyBlockMinutes: number;
@@ -13,6 +50,24 @@ export interface WeeklyPlannerPolicy {
   /** Daily cap for study minutes (scheduler hard limit). */
   maxStudyMinutesPerDay: number;
 
+  /** Mandatory free gap between two study blocks (minutes, rounded up to slots). 0 disables it. */
+  breakMinutes: number;
+
+  /**
+   * Longest uninterrupted study run (minutes); longer blocks are shortened.
+   * The default (a whole day) sets no limit.
+   */
+  maxConsecutiveStudyMinutes: number;
+
+  /**
+   * Objective penalty per subject change within a day (in weighted study
+   * hours, see scheduler/objective.ts). 0 disables it.
+   */
+  contextSwitchPenalty: number;
+
+  /** Length of a spaced-repetition review block (minutes, rounded up to slots). */
+  reviewBlockMinutes: number;
+
   /** Morning window start/end hours (24h). */
   morningStartHour: number;
   morningEndHour: number;
@@ -29,6 +84,14 @@ export interface WeeklyPlannerPolicy {
   middayWeight: number;
   eveningWeight: number;
 
+  /**
+   * Multipliers for per-goal preferences (Goal.preferredWindows,
+   * preferredDays, avoidedDays), combined with the bucket weights above.
+   */
+  preferredWindowWeight: number;
+  preferredDayWeight: number;
+  avoidedDayWeight: number;
+
   /**
    * Exam-week heuristic: if any goal deadline is within this window,
    * boost morningWeight and reduce eveningWeight.
@@ -36,13 +99,43 @@ export interface WeeklyPlannerPolicy {
   examWindowDays: number;
   examMorningBoost: number;
   examEveningPenalty: number;
+
+  /**
+   * Priority weights used when picking which goal gets the next block.
+   * A goal's pick score is weight * (remaining / target), so heavier goals
+   * get the first pick of the day, earlier days and the best buckets.
+   */
+  priorityWeights: Record<GoalPriority, number>;
+
+  /**
+   * How many weeks (starting with the current one) the scheduler plans at once.
+   * Goals with a later deadline are paced week by week until that deadline.
+   * Defaults to the current week only; longer horizons are opt-in.
+   */
+  planningHorizonWeeks: number;
+
+  /** Scheduling strategy (see SchedulerStrategy). */
+  schedulerStrategy: SchedulerStrategy;
+
+  /** Rebuild or repair the stored plan on changes (see ReplanMode). */
+  replanMode: ReplanMode;
+
+  /** Number of moves tried by the local search strategy. */
+  localSearchIterations: number;
 }
 
 export const DEFAULT_WEEKLY_PLANNER_POLICY: WeeklyPlannerPolicy = {
   slotMinutes: 30,
+  dayStartHour: 9,
+  dayEndHour: 22,
+  dayWindows: {},
   baseStudyBlockMinutes: 90,
   eveningStudyBlockMinutes: 60,
   maxStudyMinutesPerDay: 6 * 60,
+  breakMinutes: 0,
+  maxConsecutiveStudyMinutes: 24 * 60,
+  contextSwitchPenalty: 0,
+  reviewBlockMinutes: 15,
   morningStartHour: 9,
   morningEndHour: 12,
   eveningStartHour: 18,
@@ -50,9 +143,17 @@ export const DEFAULT_WEEKLY_PLANNER_POLICY: WeeklyPlannerPolicy = {
   morningWeight: 1.35,
   middayWeight: 1.0,
   eveningWeight: 0.85,
+  preferredWindowWeight: 1.3,
+  preferredDayWeight: 1.15,
+  avoidedDayWeight: 0.7,
   examWindowDays: 7,
   examMorningBoost: 0.35,
   examEveningPenalty: 0.2,
+  priorityWeights: { high: 1.5, medium: 1.0, low: 0.75 },
+  planningHorizonWeeks: 1,
+  schedulerStrategy: 'greedy',
+  replanMode: 'incremental',
+  localSearchIterations: 2000,
 };
 
 export const WEEKLY_PLANNER_POLICY_KEY = 'weeklyPlannerPolicy';
@@ -61,6 +162,21 @@ export function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
+/**
+ * Planning window of a weekday (0 = Monday): the per-day override if any,
+ * otherwise the default window. Hours are clamped to 0..24 and an empty
+ * window collapses to zero length.
+ */
+export function dayWindowFor(
+  policy: Pick<WeeklyPlannerPolicy, 'dayStartHour' | 'dayEndHour' | 'dayWindows'>,
+  dayIndex: number
+): DayWindow {
+  const override = policy.dayWindows?.[dayIndex];
+  const startHour = clamp(override?.startHour ?? policy.dayStartHour, 0, 24);
+  const endHour = clamp(override?.endHour ?? policy.dayEndHour, 0, 24);
+  return { startHour, endHour: Math.max(startHour, endHour) };
+}
+
 export function bucketForHour(
   hour: number,
   policy: Pick<
@@ -25,4 +25,10 @@ export interface PostponePayload {
 export interface CancelPayload {
   goalId: number;
   reason?: string;
+}
+
+// SCHEDULER_RUN: yalnızca diğer ajanların okuduğu alanlar
+export interface SchedulerRunPayload {
+  /** Study/review minutes per date (ISO) as planned by the run, from its day on */
+  plannedMinutes?: Record<string, number>;
 }
\ No newline at end of file
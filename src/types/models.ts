@@ -0,0 +1,96 @@
+/**
+ * Plain domain models shared by the database layer and the pure modules
+ * (scheduler, guardian). Keep this file free of Dexie/React imports so the
+ * scheduler can run anywhere (unit tests, scripts, workers).
+ */
+
+/** Time-of-day window, "HH:mm" to "HH:mm" (end exclusive). */
+export interface TimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+export interface Goal {
+  id?: number;
+  title: string;
+  targetHours: number;
+  priority: 'low' | 'medium' | 'high';
+  deadline?: Date;
+  status?: 'active' | 'postponed' | 'completed';
+  /** Shortest block the scheduler may place (minutes); smaller leftovers are reported as unplaced */
+  minBlockMinutes?: number;
+  /** Block length to aim for (minutes); defaults to the policy's base/evening block */
+  preferredBlockMinutes?: number;
+  /** Study cap of this goal per day (minutes) */
+  maxMinutesPerDay?: number;
+  /** Windows the goal prefers; blocks inside them score higher */
+  preferredWindows?: TimeWindow[];
+  /** Windows the goal is never placed in */
+  forbiddenWindows?: TimeWindow[];
+  /** Turkish day names the goal prefers / avoids (soft, see policy day weights) */
+  preferredDays?: string[];
+  avoidedDays?: string[];
+  /** Ids of goals that must be scheduled or completed before this one */
+  dependsOn?: number[];
+  updatedAt?: number;
+  isDeleted?: boolean;
+}
+
+/**
+ * RRULE-style weekly recurrence (FREQ=WEEKLY;INTERVAL;BYDAY;UNTIL).
+ * Dates are local YYYY-MM-DD.
+ */
+export interface ConstraintRecurrence {
+  freq: 'weekly';
+  /** Every N weeks, counted from the week of startDate (default 1) */
+  interval?: number;
+  /** Turkish day names; defaults to the constraint's `day` */
+  byDay?: string[];
+  /** First date the rule applies (inclusive) */
+  startDate?: string;
+  /** Last date the rule applies (inclusive) */
+  until?: string;
+}
+
+export interface Constraint {
+  id?: number;
+  title: string;
+  type: 'busy' | 'day_off';
+  duration: number;
+  day: string;
+  /** "HH:mm"; with endTime the constraint is pinned to this exact time range */
+  startTime?: string;
+  /** "HH:mm", exclusive */
+  endTime?: string;
+  recurrence?: ConstraintRecurrence;
+  /** Dates (YYYY-MM-DD) on which the constraint does not occur, e.g. holidays */
+  exceptions?: string[];
+  updatedAt?: number;
+  isDeleted?: boolean;
+}
+
+export interface Session {
+  id?: number;
+  goalId: number;
+  startTime: Date;
+  duration: number;
+  status: 'completed' | 'interrupted';
+  updatedAt?: number;
+}
+
+/**
+ * Spaced-repetition review of a goal, created from FOCUS sessions
+ * (see review/spacedRepetition.ts). Dates are local YYYY-MM-DD.
+ */
+export interface ReviewItem {
+  id?: number;
+  goalId: number;
+  /** Position in REVIEW_INTERVAL_DAYS (0 = first review) */
+  step: number;
+  /** Days after the previous session (1, 3, 7 or 14) */
+  intervalDays: number;
+  dueDate: string;
+  status: 'pending' | 'done';
+  doneAt?: number;
+  updatedAt?: number;
+}
@@ -1,6 +1,6 @@
 import { SlotRationale } from "../scheduler/rules";
 
-export type SlotType = "free" | "study" | "busy";
+export type SlotType = "free" | "study" | "busy" | "review";
 
 export interface Slot {
   startMinutes: number; // minutes since 00:00
@@ -8,9 +8,19 @@ export interface Slot {
   label?: string;
   priority?: "low" | "medium" | "high";
   rationale?: SlotRationale;
+  goalId?: number;
+  constraintId?: number;
+  /** Spaced-repetition item placed in a "review" slot */
+  reviewId?: number;
+  /** Set by manual edits (drag & drop / pin toggle); regeneration keeps it fixed. */
+  pinned?: boolean;
 }
 
 export interface DayPlan {
+  /** Local calendar date (YYYY-MM-DD). Older stored plans may not have it. */
+  date?: string;
   dayName: string;
+  /** Slot length in minutes (policy.slotMinutes at planning time); older plans used 30. */
+  slotMinutes?: number;
   slots: Slot[];
 }
@@ -0,0 +1,125 @@
+import {
+  findInterruptionTrend,
+  findLateNightRuns,
+  findMissedFocusDays,
+  findPostponeStreak,
+  plannedMinutesByDate,
+} from "../../src/guardian/adherence";
+import type { PlannerLog } from "../../src/db/db";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Session } from "../../src/types/models";
+import { DayPlan } from "../../src/types/plan";
+
+const NOW = new Date("2025-03-07T12:00:00"); // Friday
+const policy = DEFAULT_WEEKLY_PLANNER_POLICY; // 6 sa/gün, 90 dk blok, akşam 60 dk
+const at = (iso: string) => new Date(iso).getTime();
+
+const log = (id: number, type: string, iso: string, payload?: unknown): PlannerLog => ({ id, type, ts: at(iso), payload });
+const session = (id: number, iso: string, status: Session["status"] = "completed"): Session => ({
+  id, goalId: 1, startTime: new Date(iso), duration: 30, status,
+});
+
+describe("Guardian adherence detectors", () => {
+  test("flags the current postpone/cancel streak with its events and a lighter policy", () => {
+    const logs = [
+      log(1, "POSTPONE", "2025-03-03T10:00:00", { goalId: 1, reason: "USER_CHOICE" }),
+      log(2, "FOCUS", "2025-03-04T10:00:00", { goalId: 1 }),
+      log(3, "POSTPONE", "2025-03-05T10:00:00", { goalId: 1, reason: "OVERLOAD" }),
+      log(4, "CANCEL", "2025-03-05T18:00:00", { goalId: 2 }),
+      log(5, "POSTPONE", "2025-03-06T09:00:00", { goalId: 1, reason: "OVERLOAD" }),
+    ];
+
+    const [issue] = findPostponeStreak(logs, policy, { minStreak: 3, lookbackDays: 14 }, NOW);
+    expect(issue).toMatchObject({
+      type: "POSTPONE_STREAK",
+      relatedDate: "2025-03-05",
+      evidence: { eventIds: [3, 4, 5], counts: { postpone: 2, cancel: 1, overloadReasons: 2 } },
+    });
+    // Overload reasons: the daily limit goes first
+    expect(issue.policySuggestions?.map((s) => s.patch)).toEqual([
+      { maxStudyMinutesPerDay: 300 },
+      { baseStudyBlockMinutes: 60 },
+    ]);
+    // A consecutive-study limit the user set is shortened with the blocks
+    const limited = { ...policy, maxConsecutiveStudyMinutes: 120 };
+    expect(findPostponeStreak(logs, limited, { minStreak: 3, lookbackDays: 14 }, NOW)[0].policySuggestions?.[1].patch).toEqual({
+      baseStudyBlockMinutes: 60,
+      maxConsecutiveStudyMinutes: 90,
+    });
+
+    // A focus session ends the streak
+    expect(findPostponeStreak([...logs, log(6, "FOCUS", "2025-03-06T20:00:00")], policy, { minStreak: 3, lookbackDays: 14 }, NOW)).toHaveLength(0);
+  });
+
+  test("counts planned days without focus from the scheduler history and suggests the limit actually studied", () => {
+    const day = (date: string, blocks: number): DayPlan => ({
+      date,
+      dayName: "Gün",
+      slotMinutes: 60,
+      slots: Array.from({ length: blocks }, (_, i) => ({ startMinutes: (9 + i) * 60, type: "study" as const, label: "Math" })),
+    });
+    const plan = [day("2025-03-03", 4), day("2025-03-04", 4), day("2025-03-05", 4), day("2025-03-06", 0), day("2025-03-07", 4)];
+    const planned = plannedMinutesByDate(plan, "2025-03-03");
+    expect(planned).toEqual({ "2025-03-03": 240, "2025-03-04": 240, "2025-03-05": 240, "2025-03-06": 0, "2025-03-07": 240 });
+
+    const runs = [
+      log(1, "SCHEDULER_RUN", "2025-03-02T20:00:00", { plannedMinutes: planned }),
+      // A rerun on Wednesday empties the day; what was planned going into it still counts
+      log(2, "SCHEDULER_RUN", "2025-03-05T09:00:00", { plannedMinutes: { ...planned, "2025-03-05": 0 } }),
+    ];
+    const sessions = [
+      { ...session(1, "2025-03-04T10:00:00"), duration: 180 },
+      { ...session(2, "2025-03-04T14:00:00"), duration: 180 },
+    ];
+    const thresholds = { minDays: 2, lookbackDays: 7 };
+
+    const [issue] = findMissedFocusDays(runs, sessions, policy, thresholds, NOW);
+    expect(issue).toMatchObject({
+      type: "MISSED_FOCUS",
+      evidence: {
+        eventIds: [1],
+        dates: ["2025-03-03", "2025-03-05"],
+        counts: { missedDays: 2, plannedDays: 3, studiedMinutes: 360 },
+      },
+    });
+    expect(issue.policySuggestions?.[0].patch).toEqual({ maxStudyMinutesPerDay: 120 });
+
+    // Days planned only on the day itself use the first run of that day
+    const sameDay = [log(3, "SCHEDULER_RUN", "2025-03-03T08:00:00", { plannedMinutes: { "2025-03-03": 120 } })];
+    expect(findMissedFocusDays(sameDay, sessions, policy, { ...thresholds, minDays: 1 }, NOW)[0].evidence?.dates).toEqual([
+      "2025-03-03",
+    ]);
+
+    // Nothing tracked at all: no evidence either way
+    expect(findMissedFocusDays(runs, [], policy, thresholds, NOW)).toHaveLength(0);
+  });
+
+  test("detects rising interruptions and runs of late nights", () => {
+    const sessions = [
+      session(1, "2025-02-25T10:00:00"),
+      session(2, "2025-02-26T10:00:00"),
+      session(3, "2025-03-02T10:00:00", "interrupted"),
+      session(4, "2025-03-03T10:00:00", "interrupted"),
+      session(5, "2025-03-04T10:00:00"),
+      session(6, "2025-03-05T10:00:00"),
+    ];
+    const trend = { windowDays: 7, minSessions: 4, minRate: 0.3, minIncrease: 0.1 };
+    const [interruptions] = findInterruptionTrend(sessions, policy, trend, NOW);
+    expect(interruptions).toMatchObject({
+      type: "INTERRUPTION_RATE",
+      evidence: { sessionIds: [3, 4], counts: { sessions: 4, interrupted: 2, previousSessions: 2, previousInterrupted: 0 } },
+    });
+    expect(findInterruptionTrend(sessions, policy, { ...trend, minRate: 0.6 }, NOW)).toHaveLength(0);
+
+    // 00:30 belongs to the night before; the 2 Mar night is not part of the latest run
+    const late = [session(7, "2025-03-01T23:30:00"), session(8, "2025-03-03T23:15:00"), session(9, "2025-03-05T00:30:00")];
+    const logs = [log(10, "FOCUS", "2025-03-05T23:40:00")];
+    const [nights] = findLateNightRuns([...sessions, ...late], logs, policy, { lateHour: 23, minNights: 3, lookbackDays: 14 }, NOW);
+    expect(nights).toMatchObject({
+      type: "LATE_NIGHT",
+      relatedDate: "2025-03-03",
+      evidence: { dates: ["2025-03-03", "2025-03-04", "2025-03-05"], sessionIds: [8, 9], eventIds: [10] },
+    });
+    expect(nights.policySuggestions?.map((s) => s.patch)).toEqual([{ eveningWeight: 0.75, eveningStudyBlockMinutes: 60 }]);
+  });
+});
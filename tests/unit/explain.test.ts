@@ -0,0 +1,43 @@
+import { explainGoal } from "../../src/scheduler/explain";
+import { schedule } from "../../src/scheduler/weeklyScheduler";
+import { SchedulerRule } from "../../src/scheduler/rules";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint, Goal } from "../../src/types/models";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+const options = { now: NOW, horizonWeeks: 1 };
+
+describe("Why-not explanations - explainGoal()", () => {
+  const math: Goal = { id: 1, title: "Math", targetHours: 2, priority: "high", status: "active" };
+  const gym: Constraint = { id: 1, title: "Gym", type: "busy", duration: 2, day: "Salı", startTime: "09:00", endTime: "11:00" };
+
+  test("reports placed blocks and the rule that rejects the other candidates", () => {
+    const { plan } = schedule([math], [gym], DEFAULT_WEEKLY_PLANNER_POLICY, options);
+    const report = explainGoal(math, plan, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, goals: [math] });
+
+    expect(report.unplannedMinutes).toBe(0);
+    expect(report.candidates.some((c) => c.status === "placed")).toBe(true);
+
+    const tuesday = explainGoal(math, plan, DEFAULT_WEEKLY_PLANNER_POLICY, {
+      now: NOW,
+      date: "2025-03-04",
+      startMinutes: 9 * 60 + 30,
+    });
+    expect(tuesday.candidates).toHaveLength(1);
+    expect(tuesday.candidates[0]).toMatchObject({ status: "rejected", dayName: "Salı" });
+    expect(tuesday.candidates[0].rationale.rule).toBe(SchedulerRule.CONSTRAINT_BLOCKED_SLOT);
+    expect(tuesday.candidates[0].rationale.message).toContain("Gym");
+  });
+
+  test("explains the daily cap, short gaps and postponed goals", () => {
+    const big: Goal = { id: 2, title: "Physics", targetHours: 60, priority: "medium", status: "active" };
+    const { plan } = schedule([big], [gym], DEFAULT_WEEKLY_PLANNER_POLICY, options);
+    const report = explainGoal(big, plan, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, date: "2025-03-03" });
+
+    expect(report.unplannedMinutes).toBeGreaterThan(0);
+    expect(report.rejectedBy[SchedulerRule.DAILY_STUDY_LIMIT_REACHED]).toBeGreaterThan(0);
+
+    const postponed = explainGoal({ ...math, status: "postponed" }, plan, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW });
+    expect(postponed.candidates.every((c) => c.rationale.rule === SchedulerRule.GOAL_POSTPONED_SKIPPED)).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { checkFeasibility } from "../../src/guardian/feasibility";
+import { schedule } from "../../src/scheduler/weeklyScheduler";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint, Goal } from "../../src/types/models";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+const THURSDAY = new Date("2025-03-06T00:00:00");
+const policy = DEFAULT_WEEKLY_PLANNER_POLICY; // 6 sa/gün, 09:00-22:00
+
+describe("Goal feasibility - checkFeasibility()", () => {
+  test("reports the missing hours and the changes that would make the goal fit", () => {
+    const thesis: Goal = { id: 1, title: "Thesis", targetHours: 24, priority: "high", status: "active", deadline: THURSDAY };
+
+    const [report] = checkFeasibility([thesis], [], policy, [], NOW);
+
+    // Mon-Wed: 3 x 6 sa
+    expect(report).toMatchObject({ goalId: 1, deadline: "2025-03-06", capacityMinutes: 18 * 60, missingMinutes: 6 * 60 });
+    expect(report.suggestions.map((s) => s.patch).filter(Boolean)).toEqual([{ maxStudyMinutesPerDay: 8 * 60 }]);
+    expect(report.suggestions.map((s) => s.description)).toEqual(
+      expect.arrayContaining([expect.stringContaining("1 gün erteleyin"), expect.stringContaining("6 saat azaltın")])
+    );
+  });
+
+  test("shares capacity with goals due earlier and counts constraints", () => {
+    const goals: Goal[] = [
+      { id: 1, title: "Essay", targetHours: 10, priority: "high", status: "active", deadline: THURSDAY },
+      { id: 2, title: "Quiz", targetHours: 10, priority: "low", status: "active", deadline: THURSDAY },
+      { id: 3, title: "Later", targetHours: 10, priority: "low", status: "active", deadline: new Date("2025-03-20T00:00:00") },
+    ];
+    expect(checkFeasibility([goals[0]], [], policy, [], NOW)).toHaveLength(0);
+
+    const shared = checkFeasibility(goals, [], policy, [], NOW);
+    expect(shared.map((r) => r.goalId)).toEqual([1, 2]);
+    expect(shared[0]).toMatchObject({ demandMinutes: 20 * 60, missingMinutes: 2 * 60 });
+
+    // A long busy block every day leaves less than the daily limit free
+    const job: Constraint = { id: 1, title: "Job", type: "busy", duration: 9, day: "Genel", startTime: "09:00", endTime: "18:00" };
+    const [evenings] = checkFeasibility([{ ...goals[0], targetHours: 14 }], [job], policy, [], NOW);
+    expect(evenings).toMatchObject({ capacityMinutes: 3 * 4 * 60, missingMinutes: 2 * 60 });
+    expect(evenings.suggestions.map((s) => s.patch).filter(Boolean)).toEqual([{ dayEndHour: 23 }, { dayStartHour: 8 }]);
+  });
+
+  test("puts a date-only deadline on the same local day as the scheduler west of UTC", () => {
+    const tz = process.env.TZ;
+    process.env.TZ = "America/New_York";
+    try {
+      const now = new Date("2025-03-03T08:00:00");
+      // Imported/synced goals may carry the deadline as "YYYY-MM-DD"
+      const essay = { id: 1, title: "Essay", targetHours: 24, priority: "high", status: "active", deadline: "2025-03-06" } as unknown as Goal;
+
+      const [report] = checkFeasibility([essay], [], policy, [], now);
+      const { plan } = schedule([essay], [], policy, { now, horizonWeeks: 1 });
+      const studyDays = plan.filter((d) => d.slots.some((s) => s.type === "study")).map((d) => d.date);
+
+      expect(report).toMatchObject({ deadline: "2025-03-06", capacityMinutes: 18 * 60 });
+      expect(studyDays).toEqual(["2025-03-03", "2025-03-04", "2025-03-05"]);
+    } finally {
+      process.env.TZ = tz;
+    }
+  });
+
+  test("reuses the result while goals, constraints, policy and the day stay the same", () => {
+    const thesis: Goal = { id: 1, title: "Thesis", targetHours: 24, priority: "high", status: "active", deadline: THURSDAY };
+
+    const first = checkFeasibility([thesis], [], policy, [], NOW);
+    expect(checkFeasibility([{ ...thesis }], [], policy, [], new Date("2025-03-03T20:00:00"))).toBe(first);
+
+    expect(checkFeasibility([thesis], [], { ...policy, maxStudyMinutesPerDay: 8 * 60 }, [], NOW)).toHaveLength(0);
+    expect(checkFeasibility([{ ...thesis, targetHours: 30 }], [], policy, [], NOW)[0].missingMinutes).toBe(12 * 60);
+  });
+});
@@ -0,0 +1,111 @@
+import { analyzePlan } from "../../src/guardian/GuardianAgent";
+import { addDays, toISODate } from "../../src/scheduler/calendar";
+import { WEEK_DAYS } from "../../src/scheduler/weeklyScheduler";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint, Goal } from "../../src/types/models";
+import { Slot } from "../../src/types/plan";
+
+const today = new Date();
+today.setHours(0, 0, 0, 0);
+const dayAfter = (n: number) => addDays(today, n);
+const dayNameOf = (date: Date) => WEEK_DAYS[(date.getDay() + 6) % 7];
+
+const MAX_PER_DAY = 240;
+
+const study = (hour: number, label = "Math", goalId = 1): Slot => ({ startMinutes: hour * 60, type: "study", label, goalId });
+const dayPlan = (slots: Slot[]) => [{ date: toISODate(today), dayName: dayNameOf(today), slotMinutes: 60, slots }];
+
+describe("Guardian Agent - analyzePlan()", () => {
+  test("measures daily study with the plan's slot size", () => {
+    const plan = [
+      {
+        date: toISODate(today),
+        dayName: dayNameOf(today),
+        slotMinutes: 15,
+        slots: Array.from({ length: 20 }, (_, i) => ({ startMinutes: 540 + i * 15, type: "study" as const, label: "Math" })),
+      },
+    ];
+
+    expect(analyzePlan(plan, [], [], 240).some((i) => i.type === "OVERLOAD")).toBe(true); // 300 dk
+    expect(analyzePlan(plan, [], [], 300).some((i) => i.type === "OVERLOAD")).toBe(false);
+  });
+
+  test("warns when a day off makes a goal miss its deadline", () => {
+    const goals: Goal[] = [
+      { id: 1, title: "Essay", targetHours: 10, priority: "high", deadline: dayAfter(3) },
+    ];
+    const holiday = toISODate(dayAfter(1));
+    const constraints: Constraint[] = [
+      {
+        id: 1, title: "Bayram", type: "day_off", duration: 0, day: dayNameOf(dayAfter(1)),
+        recurrence: { freq: "weekly", byDay: [dayNameOf(dayAfter(1))], startDate: holiday, until: holiday },
+      },
+    ];
+
+    const issues = analyzePlan([], goals, constraints, MAX_PER_DAY);
+    const issue = issues.find((i) => i.type === "DAY_OFF_INFEASIBLE");
+
+    expect(issue?.relatedGoalId).toBe(1);
+    expect(issue?.relatedDate).toBe(holiday);
+  });
+
+  test("stays quiet when the goal still fits around the day off", () => {
+    const goals: Goal[] = [
+      { id: 1, title: "Essay", targetHours: 4, priority: "high", deadline: dayAfter(3) },
+    ];
+    const constraints: Constraint[] = [
+      { id: 1, title: "Pazar", type: "day_off", duration: 0, day: dayNameOf(dayAfter(1)) },
+    ];
+
+    const issues = analyzePlan([], goals, constraints, MAX_PER_DAY);
+
+    expect(issues.some((i) => i.type === "DAY_OFF_INFEASIBLE")).toBe(false);
+  });
+
+  test("reports dependency cycles between goals", () => {
+    const goals: Goal[] = [
+      { id: 1, title: "Review", targetHours: 2, priority: "low", dependsOn: [2] },
+      { id: 2, title: "Mock Exam", targetHours: 2, priority: "high", dependsOn: [1] },
+      { id: 3, title: "Reading", targetHours: 2, priority: "low", dependsOn: [1] },
+    ];
+    const cycles = analyzePlan([], goals, [], MAX_PER_DAY).filter((i) => i.type === "DEPENDENCY_CYCLE");
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].message).toContain("Review → Mock Exam → Review");
+  });
+
+  test("detects study on a constraint and duplicated goal blocks", () => {
+    const gym: Constraint = {
+      id: 1, title: "Gym", type: "busy", duration: 1, day: dayNameOf(today), startTime: "10:00", endTime: "11:00",
+    };
+    const plan = dayPlan([study(9), study(9), { ...study(10), pinned: true }]);
+
+    const conflicts = analyzePlan(plan, [], [gym], MAX_PER_DAY, { log: false }).filter((i) => i.type === "CONFLICT");
+
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0]).toMatchObject({ severity: "critical", relatedGoalId: 1 });
+    expect(conflicts[0].message).toContain("Gym");
+    expect(conflicts[1].message).toContain("birden fazla kez");
+  });
+
+  test("reports policy violations and constraints that did not fit", () => {
+    const lab: Constraint = {
+      id: 2, title: "Lab", type: "busy", duration: 1, day: dayNameOf(today), startTime: "14:00", endTime: "15:00",
+    };
+    const plan = dayPlan([
+      study(7),
+      { startMinutes: 14 * 60, type: "busy", label: "Club", constraintId: 3 },
+      study(19), study(20), study(21),
+    ]);
+
+    const issues = analyzePlan(plan, [], [lab], MAX_PER_DAY, { log: false, policy: DEFAULT_WEEKLY_PLANNER_POLICY });
+    const violations = issues.filter((i) => i.type === "POLICY_VIOLATION");
+
+    expect(violations.map((i) => i.suggestedFix?.action)).toEqual(["move", "split"]);
+    expect(violations[1].message).toContain("180 dk");
+    expect(issues.some((i) => i.type === "CONFLICT" && i.message.includes("Lab") && i.severity === "warning")).toBe(true);
+
+    // Without a policy only the plan-level checks run
+    expect(analyzePlan(plan, [], [lab], MAX_PER_DAY, { log: false }).some((i) => i.type === "POLICY_VIOLATION")).toBe(false);
+  });
+});
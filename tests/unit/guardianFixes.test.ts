@@ -0,0 +1,65 @@
+import { analyzePlan } from "../../src/guardian/GuardianAgent";
+import { applyFix } from "../../src/guardian/fixes";
+import { addDays, toISODate } from "../../src/scheduler/calendar";
+import { WEEK_DAYS } from "../../src/scheduler/weeklyScheduler";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint } from "../../src/types/models";
+import { DayPlan, Slot } from "../../src/types/plan";
+
+const today = new Date();
+today.setHours(0, 0, 0, 0);
+const dayNameOf = (date: Date) => WEEK_DAYS[(date.getDay() + 6) % 7];
+
+// Free 60-minute grid 09:00-22:00, with the given study hours filled
+const day = (date: Date, studyHours: number[] = []): DayPlan => ({
+  date: toISODate(date),
+  dayName: dayNameOf(date),
+  slotMinutes: 60,
+  slots: Array.from({ length: 13 }, (_, i): Slot => {
+    const hour = 9 + i;
+    return studyHours.includes(hour)
+      ? { startMinutes: hour * 60, type: "study", label: "Math", goalId: 1, pinned: true }
+      : { startMinutes: hour * 60, type: "free" };
+  }),
+});
+
+describe("Guardian fixes - applyFix()", () => {
+  test("moves a block off a constraint and the conflict is gone", () => {
+    const gym: Constraint = {
+      id: 1, title: "Gym", type: "busy", duration: 1, day: dayNameOf(today), startTime: "10:00", endTime: "11:00",
+    };
+    const plan = [day(today, [10])];
+
+    const issue = analyzePlan(plan, [], [gym], 240, { log: false }).find((i) => i.type === "CONFLICT");
+    const operation = issue?.suggestedFix?.operation;
+    expect(operation).toMatchObject({ kind: "move", slots: 1, from: { startMinutes: 600 } });
+
+    const fixed = applyFix(plan, operation!);
+    expect(plan[0].slots[1].type).toBe("study"); // input untouched
+    expect(fixed[0].slots[1].type).toBe("free");
+    expect(fixed[0].slots.find((s) => s.type === "study")?.pinned).toBe(true);
+    expect(analyzePlan(fixed, [], [gym], 240, { log: false }).some((i) => i.type === "CONFLICT")).toBe(false);
+  });
+
+  test("reduces an overloaded day and splits a long evening block", () => {
+    const overloaded = [day(today, [9, 10, 11, 12, 13])];
+    const overload = analyzePlan(overloaded, [], [], 180, { log: false }).find((i) => i.type === "OVERLOAD");
+    expect(overload?.suggestedFix?.operation).toMatchObject({ kind: "reduce", startMinutes: [720, 780] });
+    const reduced = applyFix(overloaded, overload!.suggestedFix!.operation!);
+    expect(reduced[0].slots.filter((s) => s.type === "study")).toHaveLength(3);
+
+    const evening = [day(today, [18, 19, 20]), day(addDays(today, 1))];
+    const violation = analyzePlan(evening, [], [], 240, { log: false, policy: DEFAULT_WEEKLY_PLANNER_POLICY }).find(
+      (i) => i.suggestedFix?.action === "split"
+    );
+    const split = violation?.suggestedFix?.operation;
+    expect(split).toMatchObject({ kind: "split", slots: 3, keepSlots: 1 });
+
+    const fixed = applyFix(evening, split!);
+    expect(fixed[0].slots.filter((s) => s.type === "study").map((s) => s.startMinutes)).toContain(18 * 60);
+    expect(fixed.flatMap((d) => d.slots).filter((s) => s.type === "study")).toHaveLength(3);
+    expect(
+      analyzePlan(fixed, [], [], 240, { log: false, policy: DEFAULT_WEEKLY_PLANNER_POLICY }).some((i) => i.suggestedFix?.action === "split")
+    ).toBe(false);
+  });
+});
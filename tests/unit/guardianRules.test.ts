@@ -0,0 +1,144 @@
+import { analyzePlan } from "../../src/guardian/GuardianAgent";
+import { getGuardianRules, isIssueStateLive, registerGuardianRule } from "../../src/guardian/registry";
+import { GuardianConfig } from "../../src/guardian/types";
+import { addDays, toISODate } from "../../src/scheduler/calendar";
+import { WEEK_DAYS } from "../../src/scheduler/weeklyScheduler";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint, Goal } from "../../src/types/models";
+import { DayPlan } from "../../src/types/plan";
+
+const today = new Date();
+today.setHours(0, 0, 0, 0);
+const dayNameOf = (date: Date) => WEEK_DAYS[(date.getDay() + 6) % 7];
+
+const busyDay = (hours: number): DayPlan[] => [
+  {
+    date: toISODate(today),
+    dayName: dayNameOf(today),
+    slotMinutes: 60,
+    slots: Array.from({ length: hours }, (_, i) => ({ startMinutes: (9 + i) * 60, type: "study" as const, label: "Math" })),
+  },
+];
+
+const config = (patch: Partial<GuardianConfig> = {}): GuardianConfig => ({ rules: {}, issueStates: {}, ...patch });
+
+describe("Guardian rule registry", () => {
+  test("applies the stored enable, severity and threshold settings", () => {
+    const goal: Goal = { id: 1, title: "Exam", targetHours: 10, priority: "high", deadline: addDays(today, 5) };
+    const run = (c?: GuardianConfig) => analyzePlan(busyDay(5), [goal], [], 240, { log: false, config: c });
+
+    expect(run().map((i) => i.type)).toEqual(["OVERLOAD"]);
+    expect(run(config({ rules: { overload: { enabled: false } } }))).toHaveLength(0);
+    expect(run(config({ rules: { overload: { thresholds: { toleranceMinutes: 60 } } } }))).toHaveLength(0);
+    expect(run(config({ rules: { overload: { severity: "info" } } }))[0].severity).toBe("info");
+
+    // 5 days before the deadline only counts once the rule looks that far ahead
+    const exam = run(config({ rules: { "exam-proximity": { thresholds: { daysBefore: 7 } } } }));
+    expect(exam.map((i) => i.type)).toEqual(["OVERLOAD", "EXAM_PROXIMITY"]);
+  });
+
+  test("keeps issue ids across runs and hides acknowledged or snoozed issues", () => {
+    const [first] = analyzePlan(busyDay(5), [], [], 240, { log: false });
+    const [again] = analyzePlan(busyDay(6), [], [], 240, { log: false });
+    expect(first.id).toBeDefined();
+    expect(again.id).toBe(first.id); // only the hours in the message changed
+    expect(first.ruleId).toBe("overload");
+
+    const id = first.id as string;
+    const acknowledged = config({ issueStates: { [id]: { status: "acknowledged", updatedAt: 0 } } });
+    expect(analyzePlan(busyDay(5), [], [], 240, { log: false, config: acknowledged })).toHaveLength(0);
+
+    const snoozed = (until: number) => config({ issueStates: { [id]: { status: "snoozed", until, updatedAt: 0 } } });
+    expect(analyzePlan(busyDay(5), [], [], 240, { log: false, config: snoozed(Date.now() + 60_000) })).toHaveLength(0);
+    expect(analyzePlan(busyDay(5), [], [], 240, { log: false, config: snoozed(Date.now() - 60_000) })).toHaveLength(1);
+  });
+
+  test("keeps issues of the same weekday in other weeks and overlaps at other times apart", () => {
+    const fortnight: DayPlan[] = Array.from({ length: 14 }, (_, d) => ({
+      ...busyDay(5)[0],
+      date: toISODate(addDays(today, d)),
+      dayName: dayNameOf(addDays(today, d)),
+    }));
+    const overloads = analyzePlan(fortnight, [], [], 240, { log: false });
+    expect(overloads.filter((i) => i.type === "OVERLOAD")).toHaveLength(14);
+    expect(new Set(overloads.map((i) => i.id)).size).toBe(14);
+
+    // Acknowledging this week's day leaves the same weekday next week visible
+    const acknowledged = config({ issueStates: { [overloads[0].id as string]: { status: "acknowledged", updatedAt: 0 } } });
+    const visible = analyzePlan(fortnight, [], [], 240, { log: false, config: acknowledged });
+    expect(visible.map((i) => i.relatedDate)).toContain(toISODate(addDays(today, 7)));
+    expect(visible).toHaveLength(13);
+
+    // Two overlaps of one day only differ in their times
+    const [day] = busyDay(0);
+    const overlapping: DayPlan[] = [{
+      ...day,
+      slots: [9, 9, 14, 14].map((h, i) => ({ startMinutes: h * 60, type: "study" as const, label: i % 2 ? "Physics" : "Math" })),
+    }];
+    const conflicts = analyzePlan(overlapping, [], [], 240, { log: false }).filter((i) => i.type === "CONFLICT");
+    expect(conflicts.map((i) => i.message)).toEqual([
+      expect.stringContaining("09:00"),
+      expect.stringContaining("14:00"),
+    ]);
+    expect(conflicts[1].id).toBe(`${conflicts[0].id}|2`);
+  });
+
+  test("keeps acknowledgements only while the issue is still reported in their week", () => {
+    const now = new Date();
+    const week = toISODate(today);
+    const nextWeek = toISODate(addDays(today, 7));
+    const id = analyzePlan(busyDay(5), [], [], 240, { log: false })[0].id as string;
+    const acknowledged = { status: "acknowledged" as const, weekKey: week, updatedAt: 0 };
+    const present = new Set([id]);
+
+    expect(isIssueStateLive(id, acknowledged, present, week, undefined, now)).toBe(true);
+    expect(isIssueStateLive(id, acknowledged, new Set(), week, undefined, now)).toBe(false);
+    // Another week's analysis does not know about this week's issues
+    expect(isIssueStateLive(id, acknowledged, new Set(), nextWeek, undefined, now)).toBe(true);
+    // The rule is off, so its issue is not checked at all
+    const off = config({ rules: { overload: { enabled: false } } });
+    expect(isIssueStateLive(id, acknowledged, new Set(), week, off, now)).toBe(true);
+
+    const snoozed = (until: number) => ({ status: "snoozed" as const, until, updatedAt: 0 });
+    expect(isIssueStateLive(id, snoozed(now.getTime() + 60_000), new Set(), week, undefined, now)).toBe(true);
+    expect(isIssueStateLive(id, snoozed(now.getTime() - 60_000), present, week, undefined, now)).toBe(false);
+  });
+
+  test("adds goal feasibility suggestions to the day-off issue of the same goal", () => {
+    const holiday = addDays(today, 1);
+    const goal: Goal = { id: 1, title: "Essay", targetHours: 10, priority: "high", deadline: addDays(today, 3) };
+    const dayOff: Constraint = { id: 1, title: "Bayram", type: "day_off", duration: 0, day: dayNameOf(holiday) };
+    const policy = { ...DEFAULT_WEEKLY_PLANNER_POLICY, maxStudyMinutesPerDay: 240 };
+
+    const deadlineIssues = (c?: GuardianConfig) =>
+      analyzePlan([], [goal], [dayOff], 240, { log: false, policy, config: c }).filter((i) => i.type !== "EXAM_PROXIMITY");
+
+    const [issue, ...others] = deadlineIssues();
+    expect(others).toHaveLength(0);
+    expect(issue).toMatchObject({ type: "DAY_OFF_INFEASIBLE", ruleId: "day-off-infeasible" });
+    expect(issue.policySuggestions?.length).toBeGreaterThan(0);
+
+    // Without the day-off rule the goal is reported on its own
+    const alone = deadlineIssues(config({ rules: { "day-off-infeasible": { enabled: false } } }));
+    expect(alone.map((i) => i.type)).toEqual(["GOAL_INFEASIBLE"]);
+  });
+
+  test("runs registered custom rules with their default thresholds", () => {
+    registerGuardianRule({
+      id: "test-long-day",
+      title: "Uzun gün",
+      defaultSeverity: "info",
+      thresholds: { maxSlots: { label: "Blok", default: 3 } },
+      check: (ctx, { maxSlots }) =>
+        ctx.plan
+          .filter((d) => d.slots.length > maxSlots)
+          .map((d) => ({ type: "OVERLOAD", severity: "critical", message: `${d.dayName}: uzun gün.`, relatedDate: d.dayName })),
+    });
+    expect(getGuardianRules().at(-1)?.id).toBe("test-long-day");
+
+    const issues = analyzePlan(busyDay(4), [], [], 240, { log: false });
+    expect(issues.map((i) => i.ruleId)).toEqual(["test-long-day"]);
+    // Without a user override the issue takes the rule's default severity
+    expect(issues[0].severity).toBe("info");
+  });
+});
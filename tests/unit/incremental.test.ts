@@ -0,0 +1,152 @@
+import { canRepair, replan, scoringKey } from "../../src/scheduler/incremental";
+import { scheduleWithStrategy } from "../../src/scheduler/strategies";
+import { schedule } from "../../src/scheduler/weeklyScheduler";
+import { SchedulerRule } from "../../src/scheduler/rules";
+import { formatTimeOfDay } from "../../src/scheduler/calendar";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint, Goal } from "../../src/types/models";
+import { DayPlan } from "../../src/types/plan";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+const options = { now: NOW, horizonWeeks: 1 };
+const policy = DEFAULT_WEEKLY_PLANNER_POLICY;
+
+const studySlots = (plan: DayPlan[]) =>
+  plan.flatMap((d) => d.slots.filter((s) => s.type === "study").map((s) => `${d.date} ${s.startMinutes} ${s.goalId}`));
+
+describe("Incremental replanning - replan()", () => {
+  const math: Goal = { id: 1, title: "Math", targetHours: 4, priority: "high", status: "active" };
+  const physics: Goal = { id: 2, title: "Physics", targetHours: 4, priority: "medium", status: "active" };
+
+  test("a new constraint moves only the overlapping block", () => {
+    const previous = schedule([math, physics], [], policy, options).plan;
+    expect(canRepair(policy, { pinned: previous })).toBe(true);
+
+    // Block the first math block's start with a new constraint
+    const day = previous.find((d) => d.slots.some((s) => s.goalId === 1)) as DayPlan;
+    const first = day.slots.find((s) => s.goalId === 1)!;
+    const meeting: Constraint = {
+      id: 1,
+      title: "Meeting",
+      type: "busy",
+      duration: 1,
+      day: day.dayName,
+      startTime: formatTimeOfDay(first.startMinutes),
+      endTime: formatTimeOfDay(first.startMinutes + 60),
+    };
+
+    const result = replan([math, physics], [meeting], policy, { ...options, pinned: previous });
+    const moved = result.moves ?? [];
+
+    expect(moved).toHaveLength(1);
+    expect(moved[0]).toMatchObject({ goalId: 1, kind: "moved" });
+    expect(moved[0].rationale.rule).toBe(SchedulerRule.CONSTRAINT_BLOCKED_SLOT);
+    expect(moved[0].rationale.message).toContain("Meeting");
+
+    // Every other block stays where it was
+    const before = studySlots(previous).filter((s) => !s.startsWith(`${day.date} `) || !s.endsWith(" 1"));
+    const after = studySlots(result.plan);
+    expect(before.every((s) => after.includes(s))).toBe(true);
+  });
+
+  test("a postponed goal's blocks are removed, the others are kept, full mode rebuilds", () => {
+    const previous = schedule([math, physics], [], policy, options).plan;
+    const goals = [{ ...math, status: "postponed" as const }, physics];
+
+    const result = scheduleWithStrategy(goals, [], policy, { ...options, pinned: previous });
+    const moves = result.moves ?? [];
+
+    expect(moves.length).toBeGreaterThan(0);
+    expect(moves.every((m) => m.goalId === 1 && m.kind === "removed")).toBe(true);
+    expect(moves[0].rationale.rule).toBe(SchedulerRule.GOAL_POSTPONED_SKIPPED);
+    expect(studySlots(result.plan)).toEqual(studySlots(previous).filter((s) => s.endsWith(" 2")));
+
+    const full = scheduleWithStrategy(goals, [], { ...policy, replanMode: "full" }, { ...options, pinned: previous });
+    expect(full.moves).toBeUndefined();
+  });
+
+  test("kept blocks follow a new break, consecutive limit or prerequisite", () => {
+    const reading: Goal = { id: 3, title: "Reading", targetHours: 8, priority: "low", status: "active" };
+    const goals = [math, { ...physics, targetHours: 8 }, reading];
+    const stored = schedule(goals, [], policy, options).plan;
+    const repair = (g: Goal[], p = policy) =>
+      scheduleWithStrategy(g, [], p, { ...options, pinned: stored, pinnedScoringKey: scoringKey(policy) });
+
+    // Study stretches closer than the 60 min break: touching blocks of two
+    // goals or a single free slot (30 min) between two blocks
+    const tooClose = (plan: DayPlan[]) =>
+      plan.some((d) => {
+        const study = d.slots.flatMap((s, i) => (s.type === "study" ? [i] : []));
+        return study.slice(1).some((i, k) => {
+          const prev = study[k];
+          return i - prev === 2 || (i - prev === 1 && d.slots[i].goalId !== d.slots[prev].goalId);
+        });
+      });
+    expect(tooClose(stored)).toBe(true);
+
+    const rested = repair(goals, { ...policy, breakMinutes: 60 });
+    expect(rested.moves?.some((m) => m.rationale.rule === SchedulerRule.STUDY_BREAK_BUFFER)).toBe(true);
+    expect(tooClose(rested.plan)).toBe(false);
+
+    // Runs of study longer than the new 60 min limit are split up again
+    const longestRun = (plan: DayPlan[]) =>
+      Math.max(...plan.flatMap((d) => d.slots.map((_, i) => {
+        let run = 0;
+        while (d.slots[i + run]?.type === "study") run++;
+        return run;
+      })));
+    expect(longestRun(stored)).toBeGreaterThan(2);
+    expect(longestRun(repair(goals, { ...policy, maxConsecutiveStudyMinutes: 60 }).plan)).toBeLessThanOrEqual(2);
+
+    // Math now waits for Physics: no Math block may start before Physics ends
+    const positions = (plan: DayPlan[], goalId: number) =>
+      plan
+        .flatMap((d) =>
+          d.slots
+            .filter((s) => s.type === "study" && s.goalId === goalId)
+            .map((s) => `${d.date}|${String(s.startMinutes).padStart(4, "0")}`)
+        )
+        .sort();
+    const mathAfterPhysics = (plan: DayPlan[]) => positions(plan, 1)[0] > (positions(plan, 2).at(-1) as string);
+    expect(mathAfterPhysics(stored)).toBe(false);
+
+    const ordered = repair([{ ...math, dependsOn: [2] }, goals[1], reading]);
+    expect(mathAfterPhysics(ordered.plan)).toBe(true);
+    expect(ordered.moves?.some((m) => m.goalId === 1 && m.rationale.rule === SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY)).toBe(true);
+  });
+
+  test("a strategy or weight change on top of a stored plan is not lost", () => {
+    const goals: Goal[] = [
+      math,
+      { ...physics, targetHours: 10 },
+      { id: 3, title: "Reading", targetHours: 6, priority: "low", status: "active" },
+    ];
+    const greedy = scheduleWithStrategy(goals, [], policy, options);
+    const stored = greedy.plan;
+    const storedKey = scoringKey(policy);
+
+    // Switching to local search rebuilds with the new strategy
+    const localSearch = { ...policy, schedulerStrategy: "local_search" as const };
+    const switched = scheduleWithStrategy(goals, [], localSearch, { ...options, pinned: stored, pinnedScoringKey: storedKey });
+    const full = scheduleWithStrategy(goals, [], { ...localSearch, replanMode: "full" }, options);
+    expect(switched.strategy).toBe("local_search");
+    expect(switched.moves).toBeUndefined();
+    expect(switched.objective).toBe(full.objective);
+    expect(switched.objective).toBeGreaterThan(greedy.objective ?? 0);
+
+    // Repairs with an unchanged key still run the local search, around the kept blocks
+    const repaired = scheduleWithStrategy(goals, [], localSearch, {
+      ...options,
+      pinned: switched.plan,
+      pinnedScoringKey: scoringKey(localSearch),
+    });
+    expect(repaired.strategy).toBe("local_search");
+    expect(repaired.moves).toEqual([]);
+
+    // New bucket weights: the plan is rebuilt as a full run would place it
+    const eveningFirst = { ...policy, morningWeight: 0.6, eveningWeight: 1.8 };
+    const reweighted = scheduleWithStrategy(goals, [], eveningFirst, { ...options, pinned: stored, pinnedScoringKey: storedKey });
+    expect(studySlots(reweighted.plan)).toEqual(studySlots(schedule(goals, [], eveningFirst, options).plan));
+    expect(studySlots(reweighted.plan)).not.toEqual(studySlots(stored));
+  });
+});
@@ -0,0 +1,42 @@
+import { compareStrategies, scheduleWithStrategy } from "../../src/scheduler/strategies";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Constraint, Goal } from "../../src/types/models";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+
+const goals: Goal[] = [
+  { id: 1, title: "Math", targetHours: 14, priority: "high" },
+  { id: 2, title: "Physics", targetHours: 10, priority: "medium" },
+  { id: 3, title: "Reading", targetHours: 6, priority: "low" },
+];
+const constraints: Constraint[] = [
+  { id: 1, title: "Lecture", type: "busy", duration: 2, day: "Salı", startTime: "09:00", endTime: "11:00" },
+];
+const policy = { ...DEFAULT_WEEKLY_PLANNER_POLICY, schedulerStrategy: "local_search" as const };
+
+describe("Scheduler - local search strategy", () => {
+  test("never scores below greedy and places the same amount of study", () => {
+    const comparison = compareStrategies(goals, constraints, policy, { now: NOW, horizonWeeks: 1 });
+
+    expect(comparison.local_search.objective).toBeGreaterThanOrEqual(comparison.greedy.objective);
+    expect(comparison.local_search.placedMinutes).toBe(comparison.greedy.placedMinutes);
+  });
+
+  test("keeps the daily cap and constraint slots", () => {
+    const { plan, strategy } = scheduleWithStrategy(goals, constraints, policy, { now: NOW, horizonWeeks: 1 });
+
+    expect(strategy).toBe("local_search");
+    for (const day of plan) {
+      const study = day.slots.filter((s) => s.type === "study").length * (day.slotMinutes ?? 30);
+      expect(study).toBeLessThanOrEqual(policy.maxStudyMinutesPerDay);
+    }
+    expect(plan[1].slots.filter((s) => s.label === "Lecture").map((s) => s.startMinutes)).toEqual([540, 570, 600, 630]);
+  });
+
+  test("is deterministic for the same inputs", () => {
+    const a = scheduleWithStrategy(goals, constraints, policy, { now: NOW, horizonWeeks: 1 });
+    const b = scheduleWithStrategy(goals, constraints, policy, { now: NOW, horizonWeeks: 1 });
+
+    expect(JSON.stringify(a.plan)).toBe(JSON.stringify(b.plan));
+  });
+});
@@ -0,0 +1,28 @@
+import { keepPastDays } from "../../src/lib/planStore";
+import { scheduleWithStrategy } from "../../src/scheduler/strategies";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Goal } from "../../src/types/models";
+import { DayPlan } from "../../src/types/plan";
+
+const MONDAY = new Date("2025-03-03T08:00:00");
+const WEDNESDAY = new Date("2025-03-05T08:00:00");
+const policy = DEFAULT_WEEKLY_PLANNER_POLICY;
+
+const studyPerDay = (plan: DayPlan[]) => plan.map((d) => d.slots.filter((s) => s.type === "study").length);
+
+describe("Plan store - keepPastDays()", () => {
+  test("a mid-week rerun keeps what was planned for the past days", () => {
+    const goals: Goal[] = [{ id: 1, title: "Math", targetHours: 10, priority: "high", status: "active" }];
+    const stored = scheduleWithStrategy(goals, [], policy, { now: MONDAY, horizonWeeks: 1 }).plan;
+    const rerun = scheduleWithStrategy(goals, [], policy, { now: WEDNESDAY, horizonWeeks: 1, pinned: stored }).plan;
+
+    expect(studyPerDay(stored)[0]).toBeGreaterThan(0);
+    // The scheduler rebuilds Monday and Tuesday empty
+    expect(studyPerDay(rerun).slice(0, 2)).toEqual([0, 0]);
+
+    const saved = keepPastDays(stored, rerun, "2025-03-05");
+    expect(saved.slice(0, 2)).toEqual(stored.slice(0, 2));
+    expect(saved.slice(2)).toEqual(rerun.slice(2));
+    expect(keepPastDays(undefined, rerun, "2025-03-05")).toBe(rerun);
+  });
+});
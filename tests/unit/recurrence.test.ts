@@ -0,0 +1,49 @@
+import { expandConstraint, expandConstraints } from "../../src/scheduler/recurrence";
+import { WEEK_DAYS } from "../../src/scheduler/weeklyScheduler";
+import { Constraint } from "../../src/types/models";
+
+const WEEK_1 = new Date("2025-03-03T00:00:00"); // Monday
+const WEEK_2 = new Date("2025-03-10T00:00:00");
+const WEEK_3 = new Date("2025-03-17T00:00:00");
+
+describe("Scheduler - constraint recurrence", () => {
+  test("expands a weekly lecture on several days into timed intervals", () => {
+    const lecture: Constraint = {
+      id: 1, title: "Lecture", type: "busy", duration: 2, day: "Pazartesi",
+      startTime: "10:00", endTime: "12:00",
+      recurrence: { freq: "weekly", byDay: ["Pazartesi", "Çarşamba"] },
+    };
+    const intervals = expandConstraint(lecture, WEEK_1, WEEK_DAYS);
+
+    expect(intervals?.map((i) => i.date)).toEqual(["2025-03-03", "2025-03-05"]);
+    expect(intervals?.[0]).toMatchObject({ startMinutes: 600, endMinutes: 720, minutes: 120 });
+  });
+
+  test("repeats every N weeks from the start date until the end date", () => {
+    const lab: Constraint = {
+      id: 2, title: "Lab", type: "busy", duration: 3, day: "Perşembe",
+      recurrence: { freq: "weekly", interval: 2, startDate: "2025-03-03", until: "2025-03-16" },
+    };
+
+    expect(expandConstraint(lab, WEEK_1, WEEK_DAYS)?.map((i) => i.date)).toEqual(["2025-03-06"]);
+    expect(expandConstraint(lab, WEEK_2, WEEK_DAYS)).toEqual([]);
+    expect(expandConstraint(lab, WEEK_3, WEEK_DAYS)).toEqual([]); // past `until`
+  });
+
+  test("skips exception dates", () => {
+    const gym: Constraint = {
+      id: 3, title: "Gym", type: "busy", duration: 1, day: "Salı",
+      exceptions: ["2025-03-11"],
+    };
+
+    expect(expandConstraint(gym, WEEK_1, WEEK_DAYS)).toHaveLength(1);
+    expect(expandConstraint(gym, WEEK_2, WEEK_DAYS)).toEqual([]);
+  });
+
+  test("leaves undated weekly totals to the scheduler", () => {
+    const general: Constraint = { id: 4, title: "Chores", type: "busy", duration: 3, day: "Genel" };
+
+    expect(expandConstraint(general, WEEK_1, WEEK_DAYS)).toBeUndefined();
+    expect(expandConstraints([general], WEEK_1, WEEK_DAYS)).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+import { schedule } from "../../src/scheduler/weeklyScheduler";
+import { SchedulerRule } from "../../src/scheduler/rules";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Goal, Constraint, ReviewItem, Session } from "../../src/types/models";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+
+const goals: Goal[] = [
+  { id: 1, title: "Math", targetHours: 4, priority: "high", status: "active" },
+  { id: 2, title: "Physics", targetHours: 2, priority: "low", status: "active" },
+];
+
+const constraints: Constraint[] = [
+  { id: 1, title: "Gym", type: "busy", duration: 2, day: "Salı" },
+];
+
+const studyMinutes = (title: string, plan: ReturnType<typeof schedule>["plan"]) =>
+  plan.flatMap((d) => d.slots).filter((s) => s.type === "study" && s.label === title).length * 30;
+
+describe("Scheduler - schedule()", () => {
+  test("places every goal hour when capacity allows", () => {
+    const { plan, unplaced } = schedule(goals, constraints, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    expect(plan).toHaveLength(7);
+    expect(plan[0].date).toBe("2025-03-03");
+    expect(studyMinutes("Math", plan)).toBe(240);
+    expect(studyMinutes("Physics", plan)).toBe(120);
+    expect(unplaced).toHaveLength(0);
+  });
+
+  test("places constraints on their own day", () => {
+    const { plan } = schedule([], constraints, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW });
+    const busy = plan[1].slots.filter((s) => s.type === "busy");
+
+    expect(busy).toHaveLength(4);
+    expect(busy.every((s) => s.label === "Gym")).toBe(true);
+  });
+
+  test("places timed constraints exactly at their start and end time", () => {
+    const timed: Constraint[] = [
+      { id: 2, title: "Lecture", type: "busy", duration: 2, day: "Salı", startTime: "10:00", endTime: "12:00" },
+      { id: 3, title: "Lunch", type: "busy", duration: 1, day: "Genel", startTime: "12:00", endTime: "13:00" },
+    ];
+    const { plan, rationales } = schedule(goals, timed, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+    const lecture = plan[1].slots.filter((s) => s.label === "Lecture").map((s) => s.startMinutes);
+
+    expect(lecture).toEqual([600, 630, 660, 690]);
+    expect(plan.every((d) => d.slots.filter((s) => s.label === "Lunch").map((s) => s.startMinutes).join() === "720,750")).toBe(true);
+    expect(rationales.some((r) => r.rule === SchedulerRule.CONSTRAINT_FIXED_TIME && r.details?.constraintTitle === "Lecture")).toBe(true);
+  });
+
+  test("closes days off and moves their study load to the other days", () => {
+    const dayOff: Constraint[] = [{ id: 5, title: "İzin", type: "day_off", duration: 0, day: "Pazartesi" }];
+    const { plan, rationales, unplaced } = schedule(goals, dayOff, DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    expect(plan[0].slots.every((s) => s.type === "busy" && s.rationale?.rule === SchedulerRule.CONSTRAINT_DAY_OFF)).toBe(true);
+    expect(studyMinutes("Math", plan) + studyMinutes("Physics", plan)).toBe(360);
+    expect(unplaced).toHaveLength(0);
+    expect(rationales.some((r) => r.rule === SchedulerRule.CONSTRAINT_DAY_OFF && r.details?.date === "2025-03-03")).toBe(true);
+  });
+
+  test("follows the policy's slot size and per-weekday windows", () => {
+    const policy = {
+      ...DEFAULT_WEEKLY_PLANNER_POLICY,
+      slotMinutes: 60 as const,
+      dayWindows: { 5: { startHour: 11, endHour: 22 } },
+    };
+    const { plan } = schedule(goals, [], policy, { now: NOW, horizonWeeks: 1 });
+    const mathSlots = plan.flatMap((d) => d.slots).filter((s) => s.label === "Math").length;
+
+    expect(plan[0].slotMinutes).toBe(60);
+    expect(plan[0].slots).toHaveLength(13);
+    expect(plan[0].slots[1].startMinutes).toBe(600);
+    expect(plan[5].slots[0].startMinutes).toBe(660);
+    expect(plan[5].slots).toHaveLength(11);
+    expect(mathSlots * 60).toBe(240);
+  });
+
+  test("reports what does not fit as unplaced", () => {
+    const big: Goal[] = [{ id: 3, title: "Thesis", targetHours: 100, priority: "medium" }];
+    const { unplaced } = schedule(big, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    expect(unplaced).toHaveLength(1);
+    expect(unplaced[0].reason).toBe(SchedulerRule.GOAL_UNPLACED_NO_CAPACITY);
+    expect(unplaced[0].unplacedMinutes).toBe(100 * 60 - 7 * DEFAULT_WEEKLY_PLANNER_POLICY.maxStudyMinutesPerDay);
+  });
+
+  test("skips postponed goals", () => {
+    const postponed: Goal[] = [{ id: 4, title: "Chem", targetHours: 3, priority: "high", status: "postponed" }];
+    const { plan, rationales } = schedule(postponed, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW });
+
+    expect(studyMinutes("Chem", plan)).toBe(0);
+    expect(rationales.some((r) => r.rule === SchedulerRule.GOAL_POSTPONED_SKIPPED)).toBe(true);
+  });
+
+  test("gives high-priority goals the first pick and explains it", () => {
+    const mixed: Goal[] = [
+      { id: 5, title: "Reading", targetHours: 3, priority: "low" },
+      { id: 6, title: "Exam Prep", targetHours: 3, priority: "high" },
+    ];
+    const { plan, rationales } = schedule(mixed, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW });
+    const firstStudy = plan[0].slots.find((s) => s.type === "study");
+
+    expect(firstStudy?.label).toBe("Exam Prep");
+    expect(
+      rationales.some(
+        (r) =>
+          r.rule === SchedulerRule.HIGH_PRIORITY_GOAL_ALLOCATED_EARLIER &&
+          r.details?.displacedGoalTitle === "Reading"
+      )
+    ).toBe(true);
+  });
+
+  test("front-loads a goal before its deadline", () => {
+    const withDeadline: Goal[] = [
+      { id: 7, title: "Essay", targetHours: 8, priority: "medium", deadline: new Date("2025-03-05T00:00:00") },
+      { id: 8, title: "Lab", targetHours: 8, priority: "high" },
+    ];
+    const { plan, rationales, unplaced } = schedule(withDeadline, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW });
+    const essayDays = plan
+      .map((d, i) => (d.slots.some((s) => s.label === "Essay") ? i : -1))
+      .filter((i) => i >= 0);
+
+    expect(studyMinutes("Essay", plan)).toBe(480);
+    expect(Math.max(...essayDays)).toBeLessThan(2); // Mon/Tue only, deadline is Wed
+    expect(unplaced).toHaveLength(0);
+    expect(rationales.some((r) => r.rule === SchedulerRule.GOAL_DEADLINE_FRONT_LOADED)).toBe(true);
+  });
+
+  test("reports hours that cannot fit before the deadline", () => {
+    const tight: Goal[] = [
+      { id: 9, title: "Project", targetHours: 20, priority: "medium", deadline: new Date("2025-03-05T00:00:00") },
+    ];
+    const { unplaced } = schedule(tight, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW });
+
+    expect(unplaced).toHaveLength(1);
+    expect(unplaced[0].reason).toBe(SchedulerRule.GOAL_UNPLACED_BEFORE_DEADLINE);
+    expect(unplaced[0].unplacedMinutes).toBe(20 * 60 - 2 * DEFAULT_WEEKLY_PLANNER_POLICY.maxStudyMinutesPerDay);
+  });
+
+  test("spreads a distant deadline across the weeks before it", () => {
+    const distant: Goal[] = [
+      { id: 10, title: "Course", targetHours: 9, priority: "medium", deadline: new Date("2025-03-24T00:00:00") },
+    ];
+    const { plan, rationales, unplaced } = schedule(distant, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 4 });
+    const perWeek = [0, 1, 2, 3].map((w) => studyMinutes("Course", plan.slice(w * 7, w * 7 + 7)));
+
+    expect(plan).toHaveLength(28);
+    expect(plan[27].date).toBe("2025-03-30");
+    expect(perWeek).toEqual([180, 180, 180, 0]);
+    expect(unplaced).toHaveLength(0);
+    expect(rationales.some((r) => r.rule === SchedulerRule.GOAL_SPREAD_ACROSS_HORIZON)).toBe(true);
+  });
+
+  test("does not place study on days before today", () => {
+    const wednesday = new Date("2025-03-05T08:00:00");
+    const { plan } = schedule(goals, constraints, DEFAULT_WEEKLY_PLANNER_POLICY, { now: wednesday, horizonWeeks: 1 });
+
+    expect(studyMinutes("Math", plan.slice(0, 2)) + studyMinutes("Physics", plan.slice(0, 2))).toBe(0);
+    expect(plan[1].slots.filter((s) => s.type === "busy")).toHaveLength(4);
+  });
+
+  test("schedules only the effort left after completed sessions", () => {
+    const sessions: Session[] = [
+      { id: 1, goalId: 1, startTime: NOW, duration: 150, status: "completed" },
+      { id: 2, goalId: 1, startTime: NOW, duration: 60, status: "interrupted" },
+    ];
+    const { plan } = schedule(goals, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, sessions });
+
+    expect(studyMinutes("Math", plan)).toBe(90);
+  });
+
+  test("keeps pinned slots fixed and counts them towards the goal", () => {
+    const first = schedule(goals, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW }).plan;
+    const sunday = first[6].slots[first[6].slots.length - 1];
+    first[6].slots[first[6].slots.length - 1] = { ...sunday, type: "study", label: "Math", goalId: 1, priority: "high", pinned: true };
+
+    const { plan, rationales } = schedule(goals, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, pinned: first });
+    const pinnedSlot = plan[6].slots[plan[6].slots.length - 1];
+
+    expect(pinnedSlot.pinned).toBe(true);
+    expect(pinnedSlot.label).toBe("Math");
+    expect(pinnedSlot.rationale?.rule).toBe(SchedulerRule.SLOT_PINNED_BY_USER);
+    expect(studyMinutes("Math", plan)).toBe(240);
+    expect(rationales.length).toBeGreaterThan(0);
+  });
+
+  test("keeps a break between blocks and caps consecutive study", () => {
+    const policy = { ...DEFAULT_WEEKLY_PLANNER_POLICY, breakMinutes: 30, maxConsecutiveStudyMinutes: 60 };
+    const busyGoals: Goal[] = [
+      { id: 1, title: "Math", targetHours: 12, priority: "high" },
+      { id: 2, title: "Physics", targetHours: 12, priority: "medium" },
+    ];
+    const { plan, rationales } = schedule(busyGoals, [], policy, { now: NOW, horizonWeeks: 1 });
+
+    for (const day of plan) {
+      let run = 0;
+      day.slots.forEach((slot, i) => {
+        run = slot.type === "study" ? run + 1 : 0;
+        expect(run).toBeLessThanOrEqual(2);
+        // A run ends with a free break slot, never with another block
+        if (run > 0 && day.slots[i + 1]?.type === "study") {
+          expect(day.slots[i + 1].label).toBe(slot.label);
+        }
+      });
+    }
+    expect(plan[0].slots.some((s) => s.rationale?.rule === SchedulerRule.STUDY_BREAK_BUFFER)).toBe(true);
+    expect(rationales.some((r) => r.rule === SchedulerRule.STUDY_MAX_CONSECUTIVE_REACHED)).toBe(true);
+  });
+
+  test("penalizes subject changes within a day", () => {
+    const policy = { ...DEFAULT_WEEKLY_PLANNER_POLICY, contextSwitchPenalty: 0.25 };
+    const { rationales, objective } = schedule(goals, [], policy, { now: NOW, horizonWeeks: 1 });
+    const withoutPenalty = schedule(goals, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+    const switches = rationales.filter((r) => r.rule === SchedulerRule.STUDY_CONTEXT_SWITCH_PENALIZED);
+
+    expect(switches.length).toBeGreaterThan(0);
+    expect(objective).toBeLessThan(withoutPenalty.objective ?? 0);
+  });
+
+  test("follows per-goal block lengths and reports fragments below the minimum", () => {
+    const essay: Goal = {
+      id: 3, title: "Essay", targetHours: 3.5, priority: "medium",
+      minBlockMinutes: 60, preferredBlockMinutes: 60, maxMinutesPerDay: 60,
+    };
+    const { plan, unplaced } = schedule([essay], [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    const perDay = plan.map((d) => d.slots.filter((s) => s.label === "Essay").length * 30);
+    expect(perDay.filter((m) => m > 0)).toEqual([60, 60, 60]);
+    expect(unplaced).toEqual([
+      expect.objectContaining({ goalId: 3, unplacedMinutes: 30, reason: SchedulerRule.GOAL_FRAGMENT_BELOW_MINIMUM }),
+    ]);
+  });
+
+  test("keeps goals out of forbidden windows and scores preferred ones higher", () => {
+    const policy = { ...DEFAULT_WEEKLY_PLANNER_POLICY, morningWeight: 1, middayWeight: 1.2 };
+    const problemSets: Goal = {
+      id: 4, title: "Problem Sets", targetHours: 3, priority: "medium",
+      preferredWindows: [{ startTime: "09:00", endTime: "12:00" }],
+      forbiddenWindows: [{ startTime: "18:00", endTime: "22:00" }],
+      avoidedDays: ["Pazartesi"],
+    };
+    const { plan, rationales } = schedule([problemSets], [], policy, { now: NOW, horizonWeeks: 1 });
+
+    const starts = plan.flatMap((d) => d.slots).filter((s) => s.label === "Problem Sets").map((s) => s.startMinutes);
+    expect(starts.length).toBe(6);
+    expect(starts.some((m) => m >= 18 * 60)).toBe(false);
+    expect(starts[0]).toBe(540);
+
+    const placed = rationales.find((r) => r.details?.goalTitle === "Problem Sets" && r.details?.scoreBreakdown);
+    expect(placed?.details?.date).toBe("2025-03-03");
+    expect(placed?.details?.scoreBreakdown).toMatchObject({ bucketWeight: 1, windowFactor: 1.3, dayFactor: 0.7 });
+  });
+
+  test("lets goals that prefer a day go first on it", () => {
+    const reading: Goal = { id: 5, title: "Reading", targetHours: 1.5, priority: "medium", avoidedDays: ["Pazartesi"] };
+    const lab: Goal = { id: 6, title: "Lab", targetHours: 1.5, priority: "medium", preferredDays: ["Pazartesi"] };
+    const { plan } = schedule([reading, lab], [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    expect(plan[0].slots.find((s) => s.type === "study")?.label).toBe("Lab");
+  });
+
+  test("places a dependent goal only after its prerequisite's hours", () => {
+    const review: Goal = { id: 7, title: "Chapter 1 Review", targetHours: 6, priority: "low" };
+    const mock: Goal = { id: 8, title: "Mock Exam", targetHours: 3, priority: "high", dependsOn: [7] };
+    const { plan, rationales } = schedule([mock, review], [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    const positions = (title: string) =>
+      plan.flatMap((d, i) => d.slots.filter((s) => s.label === title).map((s) => i * 24 * 60 + s.startMinutes));
+    expect(Math.min(...positions("Mock Exam"))).toBeGreaterThan(Math.max(...positions("Chapter 1 Review")));
+    expect(rationales.some((r) => r.rule === SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY)).toBe(true);
+  });
+
+  test("reports a dependent goal as unplaced while its prerequisite does not fit", () => {
+    const review: Goal = { id: 7, title: "Chapter 1 Review", targetHours: 60, priority: "low" };
+    const mock: Goal = { id: 8, title: "Mock Exam", targetHours: 3, priority: "high", dependsOn: [7] };
+    const { unplaced } = schedule([mock, review], [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1 });
+
+    expect(unplaced.find((u) => u.goalId === 8)).toMatchObject({
+      unplacedMinutes: 180,
+      reason: SchedulerRule.GOAL_DEFERRED_BY_DEPENDENCY,
+    });
+  });
+
+  test("places pending reviews as review slots on their due day", () => {
+    const reviews: ReviewItem[] = [
+      { id: 1, goalId: 1, step: 1, intervalDays: 3, dueDate: "2025-03-05", status: "pending" },
+      { id: 2, goalId: 2, step: 0, intervalDays: 1, dueDate: "2025-03-01", status: "pending" },
+      { id: 3, goalId: 1, step: 0, intervalDays: 1, dueDate: "2025-03-04", status: "done" },
+    ];
+    const { plan, rationales } = schedule(goals, [], DEFAULT_WEEKLY_PLANNER_POLICY, { now: NOW, horizonWeeks: 1, reviews });
+
+    const reviewSlots = plan.flatMap((d) => d.slots.filter((s) => s.type === "review").map((s) => ({ date: d.date, ...s })));
+    expect(reviewSlots.map((s) => [s.date, s.reviewId, s.label])).toEqual([
+      ["2025-03-03", 2, "Physics"], // overdue: today
+      ["2025-03-05", 1, "Math"],
+    ]);
+    expect(studyMinutes("Math", plan)).toBe(240);
+
+    const late = rationales.find((r) => r.rule === SchedulerRule.REVIEW_SPACED_REPETITION && r.details?.reviewDueDate === "2025-03-01");
+    expect(late?.message).toContain("vadesi 2025-03-01");
+  });
+});
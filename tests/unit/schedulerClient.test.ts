@@ -0,0 +1,79 @@
+import { SchedulerCancelledError, SchedulerWorkerClient } from "../../src/scheduler/worker/schedulerClient";
+import { SchedulerRequest } from "../../src/scheduler/worker/protocol";
+import { SchedulerProgress } from "../../src/scheduler/types";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { Goal } from "../../src/types/models";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+const goals: Goal[] = [{ id: 1, title: "Math", targetHours: 4, priority: "high" }];
+const input = {
+  goals,
+  constraints: [],
+  policy: { ...DEFAULT_WEEKLY_PLANNER_POLICY, schedulerStrategy: "local_search" as const },
+  options: { now: NOW, horizonWeeks: 1 },
+};
+
+// Records posted requests instead of running them
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  posted: SchedulerRequest[] = [];
+  terminated = false;
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+  postMessage(message: SchedulerRequest) {
+    this.posted.push(message);
+  }
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe("Scheduler - worker client", () => {
+  afterEach(() => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+    FakeWorker.instances = [];
+  });
+
+  test("runs on the main thread with progress when Worker is unavailable", async () => {
+    const progress: SchedulerProgress[] = [];
+    const result = await new SchedulerWorkerClient().run(input, (p) => progress.push(p));
+
+    expect(result.strategy).toBe("local_search");
+    expect(progress[0]).toEqual({ phase: "greedy", progress: 0 });
+    expect(progress[progress.length - 1]).toEqual({ phase: "local_search", progress: 1 });
+  });
+
+  test("cancels the run in flight and ignores its late replies", async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const client = new SchedulerWorkerClient();
+
+    const first = client.run(input);
+    const second = client.run(input);
+    await expect(first).rejects.toBeInstanceOf(SchedulerCancelledError);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    const worker = FakeWorker.instances[1];
+    const { runId } = worker.posted[0];
+    const result = { plan: [], rationales: [], unplaced: [] };
+    worker.onmessage?.({ data: { type: "result", runId: runId - 1, result: { ...result, objective: -1 } } });
+    worker.onmessage?.({ data: { type: "result", runId, result } });
+
+    await expect(second).resolves.toEqual(result);
+  });
+
+  test("sends strategy comparisons to the worker", async () => {
+    const fallback = await new SchedulerWorkerClient().compare(input);
+    expect(Object.keys(fallback)).toEqual(["greedy", "local_search"]);
+
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const pending = new SchedulerWorkerClient().compare(input);
+    const worker = FakeWorker.instances[0];
+    expect(worker.posted[0]).toMatchObject({ type: "compare", goals });
+
+    worker.onmessage?.({ data: { type: "comparison", runId: worker.posted[0].runId, comparison: fallback } });
+    await expect(pending).resolves.toEqual(fallback);
+  });
+});
@@ -0,0 +1,29 @@
+import { REVIEW_INTERVAL_DAYS, reviewStepForFocus } from "../../src/review/spacedRepetition";
+import { ReviewItem } from "../../src/types/models";
+
+const FOCUS = new Date("2025-03-03T10:00:00"); // Monday
+
+describe("Spaced repetition - reviewStepForFocus()", () => {
+  test("starts a chain with the first interval", () => {
+    expect(reviewStepForFocus(1, FOCUS, [])).toEqual({
+      next: { goalId: 1, step: 0, intervalDays: 1, dueDate: "2025-03-04", status: "pending" },
+    });
+  });
+
+  test("keeps a review that is not due yet", () => {
+    const items: ReviewItem[] = [{ id: 4, goalId: 1, step: 0, intervalDays: 1, dueDate: "2025-03-04", status: "pending" }];
+    expect(reviewStepForFocus(1, FOCUS, items)).toEqual({});
+  });
+
+  test("completes a due review and grows the interval until the chain ends", () => {
+    const due: ReviewItem = { id: 4, goalId: 1, step: 1, intervalDays: 3, dueDate: "2025-03-02", status: "pending" };
+    const other: ReviewItem = { id: 5, goalId: 2, step: 0, intervalDays: 1, dueDate: "2025-03-01", status: "pending" };
+
+    const { complete, next } = reviewStepForFocus(1, FOCUS, [due, other]);
+    expect(complete).toBe(due);
+    expect(next).toMatchObject({ step: 2, intervalDays: 7, dueDate: "2025-03-10" });
+
+    const last = { ...due, step: REVIEW_INTERVAL_DAYS.length - 1 };
+    expect(reviewStepForFocus(1, FOCUS, [last])).toEqual({ complete: last, next: undefined });
+  });
+});
@@ -0,0 +1,51 @@
+import { schedule } from "../../src/scheduler/weeklyScheduler";
+import { diffPlans } from "../../src/scheduler/planDiff";
+import { analyzePlan, compareIssues } from "../../src/guardian/GuardianAgent";
+import { DEFAULT_WEEKLY_PLANNER_POLICY } from "../../src/tuner/weeklyPlannerPolicy";
+import { EMPTY_SCENARIO, scenarioInputs } from "../../src/lib/whatIf";
+import { Constraint, Goal } from "../../src/types/models";
+
+const NOW = new Date("2025-03-03T08:00:00"); // Monday
+const options = { now: NOW, horizonWeeks: 1 };
+
+const goals: Goal[] = [{ id: 1, title: "Math", targetHours: 3, priority: "high", status: "active" }];
+const constraints: Constraint[] = [
+  { id: 1, title: "Work", type: "busy", duration: 8, day: "Pazartesi", startTime: "09:00", endTime: "17:00" },
+];
+
+describe("What-if sandbox", () => {
+  test("diffs the preview against the current plan without touching the inputs", () => {
+    const current = schedule(goals, constraints, DEFAULT_WEEKLY_PLANNER_POLICY, options).plan;
+    const inputs = scenarioInputs(goals, constraints, DEFAULT_WEEKLY_PLANNER_POLICY, {
+      ...EMPTY_SCENARIO,
+      newGoals: [{ title: "Physics", targetHours: 1, priority: "high" }],
+      disabledConstraintIds: [1],
+    });
+    const preview = schedule(inputs.goals, inputs.constraints, inputs.policy, options).plan;
+
+    expect(goals).toHaveLength(1);
+    expect(inputs.goals[1]).toMatchObject({ id: -1, status: "active" });
+
+    const changes = diffPlans(current, preview);
+    // Work is gone: one merged range per contiguous change
+    expect(changes.some((c) => c.date === "2025-03-03" && c.before?.label === "Work")).toBe(true);
+    expect(changes.some((c) => c.after?.label === "Physics")).toBe(true);
+    for (const c of changes) expect(c.endMinutes).toBeGreaterThan(c.startMinutes);
+    expect(diffPlans(current, current)).toEqual([]);
+  });
+
+  test("reports the change in Guardian issues", () => {
+    const current = schedule(goals, [], DEFAULT_WEEKLY_PLANNER_POLICY, options).plan;
+    const heavy = current.map((d) => ({
+      ...d,
+      slots: d.slots.map((s) => ({ ...s, type: "study" as const, label: "Math", goalId: 1 })),
+    }));
+
+    const before = analyzePlan(current, goals, [], 240, { log: false });
+    const after = analyzePlan(heavy, goals, [], 240, { log: false });
+    const { added, resolved } = compareIssues(before, after);
+
+    expect(added.some((i) => i.type === "OVERLOAD")).toBe(true);
+    expect(resolved).toEqual([]);
+  });
+});
@@ -0,0 +1,15 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Unit tests are written with jest-style globals (describe/test/expect);
+// tests/e2e runs under Playwright against a dev server and is not included.
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    globals: true,
+    environment: "node",
+    include: ["tests/unit/**/*.test.ts", "tests/resilience/**/*.test.ts"],
+  },
+});